@@ -0,0 +1,218 @@
+import { WebClient } from "@slack/web-api";
+import { logger, SlackPayload } from ".";
+import { ISlackMiddlewareContext, SlackMiddleware } from "./middleware";
+
+/**
+ * Who is allowed to use a command, sub-command or interaction.  Deny rules are checked first and win over allow
+ * rules.  If any allow rules are given for users (allowUsers/allowUserGroups) then the user has to match one of
+ * them, and if allowChannels is given then the request has to come from one of those channels.
+ */
+export interface ISlackPermissions {
+    allowUsers?: string[];
+    denyUsers?: string[];
+
+    // User group IDs (S...).  Members are looked up with usergroups.users.list (which needs usergroups:read)
+    allowUserGroups?: string[];
+    denyUserGroups?: string[];
+
+    allowChannels?: string[];
+    denyChannels?: string[];
+
+    // Only workspace admins and owners (looked up with users.info)
+    requireAdmin?: boolean;
+
+    // Shown to the user instead of the default message.
+    deniedMessage?: string;
+}
+
+/**
+ * Written to the audit hook whenever someone is denied.
+ */
+export interface ISlackAccessDeniedRecord {
+    type: string;
+    name: string;
+    teamId: string;
+    userId: string;
+    channelId: string;
+    reason: string;
+    at: number;
+}
+
+export interface ISlackAccessControlConfig {
+    // How long user group memberships and admin status are cached (in milliseconds).  Defaults to 5 minutes.
+    cacheTtl?: number;
+
+    // The message shown to users who are denied (unless the rule has its own)
+    deniedMessage?: string;
+
+    // The audit log hook.  Called for every denial.
+    onDenied?: (record: ISlackAccessDeniedRecord) => void;
+}
+
+export interface ISlackAccessDecision {
+    allowed: boolean;
+    reason?: string;
+}
+
+const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
+const DEFAULT_DENIED_MESSAGE = ":no_entry: Sorry, you don't have permission to do that.";
+
+interface ICacheEntry<T> {
+    value: T;
+    expires: number;
+}
+
+/**
+ * Checks requests against ISlackPermissions.  User group members and admin status are cached per team.
+ */
+export class SlackAccessControl {
+
+    protected config: ISlackAccessControlConfig;
+    protected getClient: (payload: SlackPayload) => Promise<WebClient>;
+    protected groupMembers: Map<string, ICacheEntry<Set<string>>> = new Map();
+    protected admins: Map<string, ICacheEntry<boolean>> = new Map();
+
+    public constructor(getClient: (payload: SlackPayload) => Promise<WebClient>, config: ISlackAccessControlConfig = {}) {
+        this.getClient = getClient;
+        this.config = config;
+    }
+
+    /**
+     * Returns middleware that stops anyone who doesn't have the given permissions.  Returns undefined if there are no
+     * permissions to check.
+     * @param permissions The permissions to enforce.
+     */
+    public middleware(permissions: ISlackPermissions): SlackMiddleware {
+        if (!permissions) {
+            return undefined;
+        }
+
+        return async (ctx, next) => {
+            const decision = await this.check(ctx, permissions);
+            if (decision.allowed) {
+                return next();
+            }
+
+            this.audit(ctx, decision.reason);
+            const text = permissions.deniedMessage || this.config.deniedMessage || DEFAULT_DENIED_MESSAGE;
+            if (ctx.payload.type === "view_submission") {
+                // a view submission can't be answered with a message so the user is shown a modal instead.
+                ctx.ack({ response_action: "push", view: getDeniedView(text) });
+            } else {
+                ctx.ack({ text, response_type: "ephemeral", replace_original: false });
+            }
+        };
+    }
+
+    /**
+     * Decides whether the request in the given context is allowed.
+     * @param ctx The middleware context of the request.
+     * @param permissions The permissions to check.
+     */
+    public async check(ctx: ISlackMiddlewareContext, permissions: ISlackPermissions): Promise<ISlackAccessDecision> {
+        const user = ctx.userId;
+        const channel = ctx.channelId;
+
+        if (permissions.denyUsers && permissions.denyUsers.includes(user)) {
+            return { allowed: false, reason: "user is denied" };
+        }
+        if (permissions.denyChannels && permissions.denyChannels.includes(channel)) {
+            return { allowed: false, reason: "channel is denied" };
+        }
+        for (const group of permissions.denyUserGroups || []) {
+            if (await this.isInGroup(ctx, group)) {
+                return { allowed: false, reason: `member of denied user group ${group}` };
+            }
+        }
+
+        if (permissions.allowChannels && !permissions.allowChannels.includes(channel)) {
+            return { allowed: false, reason: "channel is not allowed" };
+        }
+
+        if (permissions.allowUsers || permissions.allowUserGroups) {
+            let allowed = !!permissions.allowUsers && permissions.allowUsers.includes(user);
+            for (const group of permissions.allowUserGroups || []) {
+                if (allowed) {
+                    break;
+                }
+                allowed = await this.isInGroup(ctx, group);
+            }
+            if (!allowed) {
+                return { allowed: false, reason: "user is not in the allowed users or user groups" };
+            }
+        }
+
+        if (permissions.requireAdmin && !(await this.isAdmin(ctx))) {
+            return { allowed: false, reason: "user is not a workspace admin or owner" };
+        }
+
+        return { allowed: true };
+    }
+
+    /**
+     * Forgets the cached members of every user group and the admin status of every user.
+     */
+    public clearCache() {
+        this.groupMembers.clear();
+        this.admins.clear();
+    }
+
+    protected async isInGroup(ctx: ISlackMiddlewareContext, group: string): Promise<boolean> {
+        const key = `${ctx.teamId}:${group}`;
+        let entry = this.groupMembers.get(key);
+        if (!entry || entry.expires <= Date.now()) {
+            const client = await this.getClient(ctx.payload);
+            const result = await client.usergroups.users.list({ usergroup: group }) as Record<string, any>;
+            entry = { value: new Set<string>(result.users || []), expires: Date.now() + this.getTtl() };
+            this.groupMembers.set(key, entry);
+        }
+        return entry.value.has(ctx.userId);
+    }
+
+    protected async isAdmin(ctx: ISlackMiddlewareContext): Promise<boolean> {
+        const key = `${ctx.teamId}:${ctx.userId}`;
+        let entry = this.admins.get(key);
+        if (!entry || entry.expires <= Date.now()) {
+            const client = await this.getClient(ctx.payload);
+            const result = await client.users.info({ user: ctx.userId }) as Record<string, any>;
+            const user = result.user || {};
+            entry = { value: !!(user.is_admin || user.is_owner || user.is_primary_owner), expires: Date.now() + this.getTtl() };
+            this.admins.set(key, entry);
+        }
+        return entry.value;
+    }
+
+    protected audit(ctx: ISlackMiddlewareContext, reason: string) {
+        const record: ISlackAccessDeniedRecord = {
+            type: ctx.type,
+            name: ctx.name,
+            teamId: ctx.teamId,
+            userId: ctx.userId,
+            channelId: ctx.channelId,
+            reason,
+            at: Date.now()
+        };
+        logger(`access denied to ${record.type} ${record.name} for ${record.userId} in ${record.channelId}: ${reason}`);
+
+        if (this.config.onDenied) {
+            try {
+                this.config.onDenied(record);
+            } catch (e) {
+                logger("The access denied hook failed: " + e.message);
+            }
+        }
+    }
+
+    protected getTtl(): number {
+        return this.config.cacheTtl === undefined ? DEFAULT_CACHE_TTL : this.config.cacheTtl;
+    }
+}
+
+function getDeniedView(text: string): Record<string, any> {
+    return {
+        type: "modal",
+        title: { type: "plain_text", text: "Not allowed" },
+        close: { type: "plain_text", text: "Close" },
+        blocks: [{ type: "section", text: { type: "mrkdwn", text } }]
+    };
+}
@@ -0,0 +1,140 @@
+import { ISlackAckResponse, logger } from ".";
+
+/**
+ * Slack gives us 3 seconds to acknowledge any request it sends.  We stop waiting for handlers a little before that
+ * so there is still time to get the response over the wire.
+ */
+export const DEFAULT_ACK_TIMEOUT_MS = 2500;
+
+/**
+ * The longest we will ever wait for a handler before acknowledging.  Anything beyond this is guaranteed to
+ * be too late for Slack.
+ */
+export const MAX_ACK_TIMEOUT_MS = 2900;
+
+/**
+ * Waits for the given promise to resolve but only for as long as the given timeout.  If the promise takes longer
+ * than that (or fails) then the fallback value is returned instead and a warning is logged.  The original promise
+ * is left to complete in the background.
+ *
+ * @param label A name for the operation used in log messages.
+ * @param promise The handler result we are waiting for.
+ * @param timeoutMs The number of milliseconds to wait before giving up.
+ * @param fallback The value to resolve with if the promise is too slow or fails.
+ */
+export function resolveWithinDeadline<T>(label: string, promise: Promise<T>, timeoutMs: number,
+                                         fallback: T): Promise<T> {
+    return new Promise((resolve) => {
+        let settled = false;
+        const timer = setTimeout(() => {
+            if (!settled) {
+                settled = true;
+                logger(`WARNING: ${label} did not respond within ${timeoutMs}ms.  Sending the default acknowledgement.`);
+                resolve(fallback);
+            }
+        }, timeoutMs);
+
+        promise
+            .then((result) => {
+                if (!settled) {
+                    settled = true;
+                    clearTimeout(timer);
+                    resolve(result);
+                } else {
+                    logger(`${label} eventually completed but its acknowledgement was discarded`);
+                }
+            })
+            .catch((err) => {
+                logger(`${label} failed: ` + (err ? err.toString() : "unknown error"));
+                if (!settled) {
+                    settled = true;
+                    clearTimeout(timer);
+                    resolve(fallback);
+                }
+            });
+    });
+}
+
+/**
+ * Normalizes a configured ack timeout so that it is always within the window that Slack allows.
+ * @param timeoutMs The configured timeout (or undefined to use the default).
+ */
+export function getAckTimeout(timeoutMs?: number): number {
+    if (timeoutMs === undefined || timeoutMs === null || timeoutMs <= 0) {
+        return DEFAULT_ACK_TIMEOUT_MS;
+    }
+    return Math.min(timeoutMs, MAX_ACK_TIMEOUT_MS);
+}
+
+/**
+ * Converts a handler's ack into the body that Slack expects in response to a view submission.  An empty
+ * response (undefined) tells Slack to close the modal.
+ * https://api.slack.com/surfaces/modals/using#responding_to_view_submissions
+ *
+ * @param ack The response returned by the handler.
+ */
+export function toViewSubmissionResponse(ack: ISlackAckResponse): Record<string, any> {
+    if (!ack) {
+        return undefined;
+    }
+
+    if (ack.body) {
+        return ack.body;
+    }
+
+    if (!ack.response_action) {
+        return undefined;
+    }
+
+    const response: Record<string, any> = { response_action: ack.response_action };
+    if (ack.response_action === "errors") {
+        response.errors = ack.errors || {};
+    } else if (ack.response_action === "update" || ack.response_action === "push") {
+        response.view = ack.view || ack.views;
+    }
+    return response;
+}
+
+/**
+ * Converts a handler's ack into the body that Slack expects in response to an options request.  Handlers can
+ * either return the full body (with `options` or `option_groups`) or nothing at all in which case an empty list
+ * of options is sent.
+ * https://api.slack.com/reference/block-kit/block-elements#external_select
+ *
+ * @param ack The response returned by the handler.
+ */
+export function toOptionsResponse(ack: ISlackAckResponse): Record<string, any> {
+    if (ack && ack.body && (ack.body.options || ack.body.option_groups)) {
+        return ack.body;
+    }
+    return { options: [] };
+}
+
+/**
+ * Converts a handler's ack into a message that can be posted to a `response_url`.  If there's nothing to send
+ * (the handler did not return a body or any text) then undefined is returned.
+ *
+ * @param ack The response returned by the handler.
+ */
+export function toMessageResponse(ack: ISlackAckResponse): Record<string, any> {
+    if (!ack) {
+        return undefined;
+    }
+
+    if (ack.body) {
+        return ack.body;
+    }
+
+    if (ack.text) {
+        const message: Record<string, any> = { text: ack.text };
+        if (ack.response_type) {
+            message.response_type = ack.response_type;
+        }
+        if (ack.replace_original !== undefined) {
+            message.replace_original = ack.replace_original;
+        }
+        return message;
+    }
+
+    return undefined;
+}
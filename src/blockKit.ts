@@ -0,0 +1,894 @@
+/**
+ * A typed builder for Block Kit messages, modals and App Home views.
+ * https://api.slack.com/block-kit
+ *
+ *   const message = new MessageBuilder("A new ticket was created")
+ *       .header("New ticket")
+ *       .section(`*${escapeMrkdwn(summary)}*`, { accessory: button("view_ticket", "View", { url }) })
+ *       .actions([button("claim_ticket", "Claim", { value: key, style: "primary" })])
+ *       .build();
+ *
+ * The limits that Slack enforces (block counts, text lengths, unique IDs, etc.) are checked when `build()` is called
+ * and a BlockKitValidationError listing every problem is thrown if any are exceeded.
+ */
+
+export interface IPlainTextObject {
+    type: "plain_text";
+    text: string;
+    emoji?: boolean;
+}
+
+export interface IMrkdwnTextObject {
+    type: "mrkdwn";
+    text: string;
+    verbatim?: boolean;
+}
+
+export type SlackTextObject = IPlainTextObject | IMrkdwnTextObject;
+
+export interface ISlackOption {
+    text: SlackTextObject;
+    value: string;
+    description?: IPlainTextObject;
+    url?: string;
+}
+
+export interface ISlackOptionGroup {
+    label: IPlainTextObject;
+    options: ISlackOption[];
+}
+
+export interface ISlackConfirmDialog {
+    title: IPlainTextObject;
+    text: SlackTextObject;
+    confirm: IPlainTextObject;
+    deny: IPlainTextObject;
+    style?: "primary" | "danger";
+}
+
+interface IActionElement {
+    action_id: string;
+    confirm?: ISlackConfirmDialog;
+}
+
+export interface IButtonElement extends IActionElement {
+    type: "button";
+    text: IPlainTextObject;
+    value?: string;
+    url?: string;
+    style?: "primary" | "danger";
+}
+
+export interface IImageElement {
+    type: "image";
+    image_url: string;
+    alt_text: string;
+}
+
+export type SlackSelectType = "static_select" | "external_select" | "users_select" | "conversations_select" |
+    "channels_select";
+export type SlackMultiSelectType = "multi_static_select" | "multi_external_select" | "multi_users_select" |
+    "multi_conversations_select" | "multi_channels_select";
+
+export interface ISelectElement extends IActionElement {
+    type: SlackSelectType | SlackMultiSelectType;
+    placeholder?: IPlainTextObject;
+    options?: ISlackOption[];
+    option_groups?: ISlackOptionGroup[];
+    min_query_length?: number;
+    max_selected_items?: number;
+    initial_option?: ISlackOption;
+    initial_options?: ISlackOption[];
+    initial_user?: string;
+    initial_users?: string[];
+    initial_conversation?: string;
+    initial_conversations?: string[];
+    initial_channel?: string;
+    initial_channels?: string[];
+    default_to_current_conversation?: boolean;
+    response_url_enabled?: boolean;
+    filter?: {
+        include?: ("im" | "mpim" | "private" | "public")[];
+        exclude_external_shared_channels?: boolean;
+        exclude_bot_users?: boolean;
+    };
+}
+
+export interface IOverflowElement extends IActionElement {
+    type: "overflow";
+    options: ISlackOption[];
+}
+
+export interface IDatePickerElement extends IActionElement {
+    type: "datepicker";
+    placeholder?: IPlainTextObject;
+    initial_date?: string;
+}
+
+export interface ITimePickerElement extends IActionElement {
+    type: "timepicker";
+    placeholder?: IPlainTextObject;
+    initial_time?: string;
+}
+
+export interface IPlainTextInputElement extends IActionElement {
+    type: "plain_text_input";
+    placeholder?: IPlainTextObject;
+    initial_value?: string;
+    multiline?: boolean;
+    min_length?: number;
+    max_length?: number;
+}
+
+export interface IRadioButtonsElement extends IActionElement {
+    type: "radio_buttons";
+    options: ISlackOption[];
+    initial_option?: ISlackOption;
+}
+
+export interface ICheckboxesElement extends IActionElement {
+    type: "checkboxes";
+    options: ISlackOption[];
+    initial_options?: ISlackOption[];
+}
+
+// Elements that can be used in an actions block.
+export type SlackActionElement = IButtonElement | ISelectElement | IOverflowElement | IDatePickerElement |
+    ITimePickerElement | IRadioButtonsElement | ICheckboxesElement;
+
+// Elements that can be used in an input block.
+export type SlackInputElement = IPlainTextInputElement | ISelectElement | IDatePickerElement | ITimePickerElement |
+    IRadioButtonsElement | ICheckboxesElement;
+
+// Elements that can be used as the accessory of a section block.
+export type SlackAccessoryElement = SlackActionElement | IImageElement;
+
+export type SlackBlockElement = SlackAccessoryElement | SlackInputElement;
+
+interface IBlock {
+    block_id?: string;
+}
+
+export interface ISectionBlock extends IBlock {
+    type: "section";
+    text?: SlackTextObject;
+    fields?: SlackTextObject[];
+    accessory?: SlackAccessoryElement;
+}
+
+export interface IDividerBlock extends IBlock {
+    type: "divider";
+}
+
+export interface IHeaderBlock extends IBlock {
+    type: "header";
+    text: IPlainTextObject;
+}
+
+export interface IImageBlock extends IBlock {
+    type: "image";
+    image_url: string;
+    alt_text: string;
+    title?: IPlainTextObject;
+}
+
+export interface IContextBlock extends IBlock {
+    type: "context";
+    elements: (SlackTextObject | IImageElement)[];
+}
+
+export interface IActionsBlock extends IBlock {
+    type: "actions";
+    elements: SlackActionElement[];
+}
+
+export interface IInputBlock extends IBlock {
+    type: "input";
+    label: IPlainTextObject;
+    element: SlackInputElement;
+    hint?: IPlainTextObject;
+    optional?: boolean;
+    dispatch_action?: boolean;
+}
+
+export type SlackBlock = ISectionBlock | IDividerBlock | IHeaderBlock | IImageBlock | IContextBlock |
+    IActionsBlock | IInputBlock;
+
+export interface ISlackMessagePayload {
+    text: string;
+    blocks: SlackBlock[];
+    thread_ts?: string;
+    mrkdwn?: boolean;
+}
+
+export interface ISlackModalView {
+    type: "modal";
+    title: IPlainTextObject;
+    blocks: SlackBlock[];
+    submit?: IPlainTextObject;
+    close?: IPlainTextObject;
+    callback_id?: string;
+    private_metadata?: string;
+    external_id?: string;
+    clear_on_close?: boolean;
+    notify_on_close?: boolean;
+    submit_disabled?: boolean;
+}
+
+export interface ISlackHomeView {
+    type: "home";
+    blocks: SlackBlock[];
+    callback_id?: string;
+    private_metadata?: string;
+    external_id?: string;
+}
+
+export type SlackView = ISlackModalView | ISlackHomeView;
+
+/**
+ * The limits that Slack enforces.  Payloads that exceed them are rejected with an invalid_blocks error.
+ * https://api.slack.com/reference/block-kit/blocks
+ */
+export const BLOCK_KIT_LIMITS = {
+    messageBlocks: 50,
+    viewBlocks: 100,
+    messageText: 40000,
+    id: 255,
+    sectionText: 3000,
+    sectionFields: 10,
+    sectionFieldText: 2000,
+    headerText: 150,
+    contextElements: 10,
+    actionsElements: 25,
+    buttonText: 75,
+    buttonValue: 2000,
+    url: 3000,
+    placeholder: 150,
+    options: 100,
+    optionText: 75,
+    optionValue: 150,
+    overflowOptions: 5,
+    choiceOptions: 10,
+    label: 2000,
+    hint: 2000,
+    altText: 2000,
+    viewTitle: 24,
+    viewButton: 24,
+    privateMetadata: 3000,
+    confirmTitle: 100,
+    confirmText: 300,
+    confirmButton: 30
+};
+
+export class BlockKitValidationError extends Error {
+    public problems: string[];
+
+    public constructor(problems: string[]) {
+        super(`The Block Kit payload is invalid: ${problems.join("; ")}`);
+        this.name = "BlockKitValidationError";
+        this.problems = problems;
+        Object.setPrototypeOf(this, BlockKitValidationError.prototype);
+    }
+}
+
+/**
+ * Escapes the characters that have special meaning in mrkdwn so that user-provided text is shown as is.
+ * https://api.slack.com/reference/surfaces/formatting#escaping
+ * @param text The text to escape.
+ */
+export function escapeMrkdwn(text: string): string {
+    return (text || "").replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function plainText(text: string, emoji: boolean = true): IPlainTextObject {
+    return { type: "plain_text", text, emoji };
+}
+
+export function mrkdwn(text: string, verbatim?: boolean): IMrkdwnTextObject {
+    return verbatim === undefined ? { type: "mrkdwn", text } : { type: "mrkdwn", text, verbatim };
+}
+
+function toText(text: string | SlackTextObject): SlackTextObject {
+    return typeof text === "string" ? mrkdwn(text) : text;
+}
+
+export function option(text: string, value: string, description?: string): ISlackOption {
+    const result: ISlackOption = { text: plainText(text), value };
+    if (description) {
+        result.description = plainText(description);
+    }
+    return result;
+}
+
+export function optionGroup(label: string, options: ISlackOption[]): ISlackOptionGroup {
+    return { label: plainText(label), options };
+}
+
+export function confirmDialog(title: string, text: string, confirm: string = "Yes", deny: string = "Cancel",
+                              style?: "primary" | "danger"): ISlackConfirmDialog {
+    const result: ISlackConfirmDialog = {
+        title: plainText(title),
+        text: mrkdwn(text),
+        confirm: plainText(confirm),
+        deny: plainText(deny)
+    };
+    if (style) {
+        result.style = style;
+    }
+    return result;
+}
+
+export function button(actionId: string, text: string,
+                       options: Partial<Omit<IButtonElement, "type" | "action_id" | "text">> = {}): IButtonElement {
+    return { type: "button", action_id: actionId, text: plainText(text), ...options };
+}
+
+export function imageElement(imageUrl: string, altText: string): IImageElement {
+    return { type: "image", image_url: imageUrl, alt_text: altText };
+}
+
+/**
+ * Creates any of the select menus.  There are shortcuts below for the common ones.
+ * @param type The type of select.
+ * @param actionId The action_id of the element.
+ * @param placeholder The text shown when nothing is selected.
+ * @param options Any other fields of the element.
+ */
+export function select(type: SlackSelectType | SlackMultiSelectType, actionId: string, placeholder?: string,
+                       options: Partial<Omit<ISelectElement, "type" | "action_id">> = {}): ISelectElement {
+    const result: ISelectElement = { type, action_id: actionId, ...options };
+    if (placeholder) {
+        result.placeholder = plainText(placeholder);
+    }
+    return result;
+}
+
+export function staticSelect(actionId: string, placeholder: string, options: ISlackOption[] | ISlackOptionGroup[],
+                             extra: Partial<Omit<ISelectElement, "type" | "action_id">> = {}): ISelectElement {
+    return select("static_select", actionId, placeholder, { ...getOptionFields(options), ...extra });
+}
+
+export function multiStaticSelect(actionId: string, placeholder: string,
+                                  options: ISlackOption[] | ISlackOptionGroup[],
+                                  extra: Partial<Omit<ISelectElement, "type" | "action_id">> = {}): ISelectElement {
+    return select("multi_static_select", actionId, placeholder, { ...getOptionFields(options), ...extra });
+}
+
+export function externalSelect(actionId: string, placeholder: string, minQueryLength?: number): ISelectElement {
+    return select("external_select", actionId, placeholder,
+        minQueryLength === undefined ? {} : { min_query_length: minQueryLength });
+}
+
+export function usersSelect(actionId: string, placeholder: string, initialUser?: string): ISelectElement {
+    return select("users_select", actionId, placeholder, initialUser ? { initial_user: initialUser } : {});
+}
+
+export function conversationsSelect(actionId: string, placeholder: string,
+                                    extra: Partial<Omit<ISelectElement, "type" | "action_id">> = {}): ISelectElement {
+    return select("conversations_select", actionId, placeholder, extra);
+}
+
+export function channelsSelect(actionId: string, placeholder: string, initialChannel?: string): ISelectElement {
+    return select("channels_select", actionId, placeholder, initialChannel ? { initial_channel: initialChannel } : {});
+}
+
+export function overflow(actionId: string, options: ISlackOption[]): IOverflowElement {
+    return { type: "overflow", action_id: actionId, options };
+}
+
+export function datePicker(actionId: string, initialDate?: string, placeholder?: string): IDatePickerElement {
+    const result: IDatePickerElement = { type: "datepicker", action_id: actionId };
+    if (initialDate) {
+        result.initial_date = initialDate;
+    }
+    if (placeholder) {
+        result.placeholder = plainText(placeholder);
+    }
+    return result;
+}
+
+export function timePicker(actionId: string, initialTime?: string, placeholder?: string): ITimePickerElement {
+    const result: ITimePickerElement = { type: "timepicker", action_id: actionId };
+    if (initialTime) {
+        result.initial_time = initialTime;
+    }
+    if (placeholder) {
+        result.placeholder = plainText(placeholder);
+    }
+    return result;
+}
+
+export function textInput(actionId: string,
+                          options: { placeholder?: string, initialValue?: string, multiline?: boolean,
+                              minLength?: number, maxLength?: number } = {}): IPlainTextInputElement {
+    const result: IPlainTextInputElement = { type: "plain_text_input", action_id: actionId };
+    if (options.placeholder) {
+        result.placeholder = plainText(options.placeholder);
+    }
+    if (options.initialValue !== undefined) {
+        result.initial_value = options.initialValue;
+    }
+    if (options.multiline) {
+        result.multiline = true;
+    }
+    if (options.minLength !== undefined) {
+        result.min_length = options.minLength;
+    }
+    if (options.maxLength !== undefined) {
+        result.max_length = options.maxLength;
+    }
+    return result;
+}
+
+export function radioButtons(actionId: string, options: ISlackOption[], initialOption?: ISlackOption): IRadioButtonsElement {
+    const result: IRadioButtonsElement = { type: "radio_buttons", action_id: actionId, options };
+    if (initialOption) {
+        result.initial_option = initialOption;
+    }
+    return result;
+}
+
+export function checkboxes(actionId: string, options: ISlackOption[], initialOptions?: ISlackOption[]): ICheckboxesElement {
+    const result: ICheckboxesElement = { type: "checkboxes", action_id: actionId, options };
+    if (initialOptions && initialOptions.length > 0) {
+        result.initial_options = initialOptions;
+    }
+    return result;
+}
+
+function getOptionFields(options: ISlackOption[] | ISlackOptionGroup[]): Partial<ISelectElement> {
+    if (options.length > 0 && "label" in options[0]) {
+        return { option_groups: options as ISlackOptionGroup[] };
+    }
+    return { options: options as ISlackOption[] };
+}
+
+/**
+ * The methods for adding blocks that are shared by messages, modals and App Home views.
+ */
+export abstract class BlockContainerBuilder<T> {
+
+    protected blocks: SlackBlock[] = [];
+
+    /**
+     * Adds a section.  Strings are treated as mrkdwn.
+     * @param text The text of the section.
+     * @param options Fields, an accessory element and/or a block_id.
+     */
+    public section(text: string | SlackTextObject,
+                   options: { fields?: (string | SlackTextObject)[], accessory?: SlackAccessoryElement,
+                       blockId?: string } = {}): this {
+        const block: ISectionBlock = { type: "section" };
+        if (text !== undefined) {
+            block.text = toText(text);
+        }
+        if (options.fields) {
+            block.fields = options.fields.map(toText);
+        }
+        if (options.accessory) {
+            block.accessory = options.accessory;
+        }
+        return this.block(withBlockId(block, options.blockId));
+    }
+
+    /**
+     * Adds a section that only has fields (shown in two columns).
+     */
+    public fields(fields: (string | SlackTextObject)[], blockId?: string): this {
+        return this.section(undefined, { fields, blockId });
+    }
+
+    public divider(blockId?: string): this {
+        return this.block(withBlockId({ type: "divider" }, blockId));
+    }
+
+    public header(text: string, blockId?: string): this {
+        return this.block(withBlockId({ type: "header", text: plainText(text) }, blockId));
+    }
+
+    public image(imageUrl: string, altText: string, options: { title?: string, blockId?: string } = {}): this {
+        const block: IImageBlock = { type: "image", image_url: imageUrl, alt_text: altText };
+        if (options.title) {
+            block.title = plainText(options.title);
+        }
+        return this.block(withBlockId(block, options.blockId));
+    }
+
+    /**
+     * Adds a context block.  Strings are treated as mrkdwn.
+     */
+    public context(elements: (string | SlackTextObject | IImageElement)[], blockId?: string): this {
+        const block: IContextBlock = {
+            type: "context",
+            elements: elements.map((e) => typeof e === "string" ? mrkdwn(e) : e)
+        };
+        return this.block(withBlockId(block, blockId));
+    }
+
+    public actions(elements: SlackActionElement[], blockId?: string): this {
+        return this.block(withBlockId({ type: "actions", elements }, blockId));
+    }
+
+    /**
+     * Adds an input block.  Inputs are mostly used in modals but can also be used in messages and App Home
+     * if dispatchAction is set.
+     */
+    public input(label: string, element: SlackInputElement,
+                 options: { hint?: string, optional?: boolean, dispatchAction?: boolean, blockId?: string } = {}): this {
+        const block: IInputBlock = { type: "input", label: plainText(label), element };
+        if (options.hint) {
+            block.hint = plainText(options.hint);
+        }
+        if (options.optional) {
+            block.optional = true;
+        }
+        if (options.dispatchAction) {
+            block.dispatch_action = true;
+        }
+        return this.block(withBlockId(block, options.blockId));
+    }
+
+    /**
+     * Adds a block that has already been built.
+     */
+    public block(block: SlackBlock): this {
+        this.blocks.push(block);
+        return this;
+    }
+
+    public abstract build(): T;
+
+    /**
+     * Throws a BlockKitValidationError if any of the given problems were found.
+     */
+    protected throwIfInvalid(problems: string[]) {
+        if (problems.length > 0) {
+            throw new BlockKitValidationError(problems);
+        }
+    }
+}
+
+/**
+ * Builds the payload of a message (for chat.postMessage, a response_url or a command response).
+ */
+export class MessageBuilder extends BlockContainerBuilder<ISlackMessagePayload> {
+
+    protected fallbackText: string;
+    protected threadTs: string;
+
+    /**
+     * @param text The text shown in notifications and by clients that can't show blocks.
+     */
+    public constructor(text: string = "") {
+        super();
+        this.fallbackText = text;
+    }
+
+    public text(text: string): this {
+        this.fallbackText = text;
+        return this;
+    }
+
+    public inThread(threadTs: string): this {
+        this.threadTs = threadTs;
+        return this;
+    }
+
+    public build(): ISlackMessagePayload {
+        const problems = validateBlocks(this.blocks, BLOCK_KIT_LIMITS.messageBlocks);
+        checkLength(problems, "message text", this.fallbackText, BLOCK_KIT_LIMITS.messageText);
+        this.throwIfInvalid(problems);
+
+        const payload: ISlackMessagePayload = { text: this.fallbackText, blocks: [...this.blocks] };
+        if (this.threadTs) {
+            payload.thread_ts = this.threadTs;
+        }
+        return payload;
+    }
+}
+
+/**
+ * The fields that modals and App Home views have in common.
+ */
+abstract class ViewBuilder<T extends SlackView> extends BlockContainerBuilder<T> {
+
+    protected viewFields: Partial<T> = {};
+
+    public callbackId(callbackId: string): this {
+        this.viewFields.callback_id = callbackId;
+        return this;
+    }
+
+    /**
+     * Sets the private metadata.  Anything other than a string is stored as JSON.
+     */
+    public privateMetadata(metadata: any): this {
+        this.viewFields.private_metadata = typeof metadata === "string" ? metadata : JSON.stringify(metadata);
+        return this;
+    }
+
+    public externalId(externalId: string): this {
+        this.viewFields.external_id = externalId;
+        return this;
+    }
+
+    protected validateView(problems: string[]) {
+        checkLength(problems, "callback_id", this.viewFields.callback_id, BLOCK_KIT_LIMITS.id);
+        checkLength(problems, "external_id", this.viewFields.external_id, BLOCK_KIT_LIMITS.id);
+        checkLength(problems, "private_metadata", this.viewFields.private_metadata, BLOCK_KIT_LIMITS.privateMetadata);
+    }
+}
+
+/**
+ * Builds a modal view (for views.open, views.push and views.update).
+ */
+export class ModalBuilder extends ViewBuilder<ISlackModalView> {
+
+    protected title: string;
+
+    public constructor(title: string) {
+        super();
+        this.title = title;
+    }
+
+    public submit(text: string): this {
+        this.viewFields.submit = plainText(text);
+        return this;
+    }
+
+    public close(text: string): this {
+        this.viewFields.close = plainText(text);
+        return this;
+    }
+
+    public clearOnClose(clear: boolean = true): this {
+        this.viewFields.clear_on_close = clear;
+        return this;
+    }
+
+    public notifyOnClose(notify: boolean = true): this {
+        this.viewFields.notify_on_close = notify;
+        return this;
+    }
+
+    public build(): ISlackModalView {
+        const problems = validateBlocks(this.blocks, BLOCK_KIT_LIMITS.viewBlocks);
+        this.validateView(problems);
+        checkLength(problems, "modal title", this.title, BLOCK_KIT_LIMITS.viewTitle, true);
+        checkLength(problems, "submit button", this.viewFields.submit && this.viewFields.submit.text,
+            BLOCK_KIT_LIMITS.viewButton);
+        checkLength(problems, "close button", this.viewFields.close && this.viewFields.close.text,
+            BLOCK_KIT_LIMITS.viewButton);
+        if (!this.viewFields.submit && this.blocks.some((b) => b.type === "input")) {
+            problems.push("a modal with input blocks must have a submit button");
+        }
+        this.throwIfInvalid(problems);
+
+        return { ...this.viewFields, type: "modal", title: plainText(this.title), blocks: [...this.blocks] };
+    }
+}
+
+/**
+ * Builds an App Home view (for views.publish).
+ */
+export class HomeBuilder extends ViewBuilder<ISlackHomeView> {
+
+    public build(): ISlackHomeView {
+        const problems = validateBlocks(this.blocks, BLOCK_KIT_LIMITS.viewBlocks);
+        this.validateView(problems);
+        this.throwIfInvalid(problems);
+
+        return { ...this.viewFields, type: "home", blocks: [...this.blocks] };
+    }
+}
+
+function withBlockId<B extends SlackBlock>(block: B, blockId: string): B {
+    if (blockId) {
+        block.block_id = blockId;
+    }
+    return block;
+}
+
+function checkLength(problems: string[], what: string, text: string, max: number, required: boolean = false) {
+    if (text === undefined || text === null || text === "") {
+        if (required) {
+            problems.push(`${what} is required`);
+        }
+    } else if (text.length > max) {
+        problems.push(`${what} is ${text.length} characters long (the maximum is ${max})`);
+    }
+}
+
+/**
+ * Checks the given blocks against Slack's limits and returns a description of each problem found.  An empty
+ * array means the blocks are valid.  Besides the lengths and counts, block_ids and action_ids must be unique
+ * across the whole message or view (Slack only requires action_ids to be unique within a block but making them
+ * unique everywhere means a submitted form can be read by action_id alone).
+ * @param blocks The blocks to check.
+ * @param maxBlocks The maximum number of blocks allowed (50 for messages, 100 for views)
+ */
+export function validateBlocks(blocks: SlackBlock[], maxBlocks: number = BLOCK_KIT_LIMITS.messageBlocks): string[] {
+    const problems: string[] = [];
+    const blockIds = new Set<string>();
+    const actionIds = new Set<string>();
+    const limits = BLOCK_KIT_LIMITS;
+
+    if (blocks.length > maxBlocks) {
+        problems.push(`there are ${blocks.length} blocks (the maximum is ${maxBlocks})`);
+    }
+
+    const checkElement = (where: string, element: SlackBlockElement) => {
+        if (element.type === "image") {
+            checkLength(problems, `${where} image_url`, element.image_url, limits.url, true);
+            checkLength(problems, `${where} alt_text`, element.alt_text, limits.altText, true);
+            return;
+        }
+
+        checkLength(problems, `${where} action_id`, element.action_id, limits.id, true);
+        if (element.action_id) {
+            if (actionIds.has(element.action_id)) {
+                problems.push(`${where} uses the action_id "${element.action_id}" more than once`);
+            }
+            actionIds.add(element.action_id);
+        }
+
+        if (element.confirm) {
+            checkLength(problems, `${where} confirm title`, element.confirm.title.text, limits.confirmTitle, true);
+            checkLength(problems, `${where} confirm text`, element.confirm.text.text, limits.confirmText, true);
+            checkLength(problems, `${where} confirm button`, element.confirm.confirm.text, limits.confirmButton, true);
+            checkLength(problems, `${where} deny button`, element.confirm.deny.text, limits.confirmButton, true);
+        }
+
+        if ("placeholder" in element && element.placeholder) {
+            checkLength(problems, `${where} placeholder`, element.placeholder.text, limits.placeholder);
+        }
+
+        if (element.type === "button") {
+            checkLength(problems, `${where} text`, element.text.text, limits.buttonText, true);
+            checkLength(problems, `${where} value`, element.value, limits.buttonValue);
+            checkLength(problems, `${where} url`, element.url, limits.url);
+        }
+
+        if ("options" in element && element.options) {
+            const max = element.type === "overflow" ? limits.overflowOptions :
+                element.type === "radio_buttons" || element.type === "checkboxes" ? limits.choiceOptions :
+                limits.options;
+            checkOptions(problems, where, element.options, max);
+        }
+        if ("option_groups" in element && element.option_groups) {
+            checkOptions(problems, where, [].concat(...element.option_groups.map((g) => g.options)), limits.options);
+        }
+    };
+
+    blocks.forEach((block, index) => {
+        const where = `block ${index + 1} (${block.type})`;
+        if (block.block_id !== undefined) {
+            checkLength(problems, `${where} block_id`, block.block_id, limits.id);
+            if (blockIds.has(block.block_id)) {
+                problems.push(`${where} uses the block_id "${block.block_id}" more than once`);
+            }
+            blockIds.add(block.block_id);
+        }
+
+        switch (block.type) {
+            case "section":
+                if (!block.text && (!block.fields || block.fields.length === 0)) {
+                    problems.push(`${where} must have text or fields`);
+                }
+                checkLength(problems, `${where} text`, block.text && block.text.text, limits.sectionText);
+                if (block.fields) {
+                    if (block.fields.length > limits.sectionFields) {
+                        problems.push(`${where} has ${block.fields.length} fields (the maximum is ${limits.sectionFields})`);
+                    }
+                    block.fields.forEach((f, i) =>
+                        checkLength(problems, `${where} field ${i + 1}`, f.text, limits.sectionFieldText, true));
+                }
+                if (block.accessory) {
+                    checkElement(`${where} accessory`, block.accessory);
+                }
+                break;
+            case "header":
+                checkLength(problems, `${where} text`, block.text.text, limits.headerText, true);
+                break;
+            case "image":
+                checkLength(problems, `${where} image_url`, block.image_url, limits.url, true);
+                checkLength(problems, `${where} alt_text`, block.alt_text, limits.altText, true);
+                break;
+            case "context":
+                if (block.elements.length === 0 || block.elements.length > limits.contextElements) {
+                    problems.push(`${where} has ${block.elements.length} elements ` +
+                        `(it must have between 1 and ${limits.contextElements})`);
+                }
+                break;
+            case "actions":
+                if (block.elements.length === 0 || block.elements.length > limits.actionsElements) {
+                    problems.push(`${where} has ${block.elements.length} elements ` +
+                        `(it must have between 1 and ${limits.actionsElements})`);
+                }
+                block.elements.forEach((e, i) => checkElement(`${where} element ${i + 1}`, e));
+                break;
+            case "input":
+                checkLength(problems, `${where} label`, block.label.text, limits.label, true);
+                checkLength(problems, `${where} hint`, block.hint && block.hint.text, limits.hint);
+                checkElement(`${where} element`, block.element);
+                break;
+        }
+    });
+
+    return problems;
+}
+
+function checkOptions(problems: string[], where: string, options: ISlackOption[], max: number) {
+    if (options.length > max) {
+        problems.push(`${where} has ${options.length} options (the maximum is ${max})`);
+    }
+    options.forEach((o, i) => {
+        checkLength(problems, `${where} option ${i + 1} text`, o.text.text, BLOCK_KIT_LIMITS.optionText, true);
+        checkLength(problems, `${where} option ${i + 1} value`, o.value, BLOCK_KIT_LIMITS.optionValue, true);
+    });
+}
+
+/**
+ * Returns the readable text in the given blocks: section text and fields, headers, context and rich text (which is
+ * what Slack sends in message events for anything typed by a user).  Interactive elements are skipped.
+ * @param blocks The blocks of a message or view.
+ */
+export function extractTextFromBlocks(blocks: Record<string, any>[]): string[] {
+    const text: string[] = [];
+    const add = (t: string) => {
+        if (t && t.trim()) {
+            text.push(t);
+        }
+    };
+
+    for (const block of blocks || []) {
+        if (!block) {
+            continue;
+        }
+        switch (block.type) {
+            case "section":
+                add(block.text && block.text.text);
+                (block.fields || []).forEach((f: Record<string, any>) => add(f.text));
+                break;
+            case "header":
+                add(block.text && block.text.text);
+                break;
+            case "context":
+                (block.elements || []).forEach((e: Record<string, any>) => e.type !== "image" && add(e.text));
+                break;
+            case "rich_text":
+                add(extractRichText(block.elements));
+                break;
+        }
+    }
+    return text;
+}
+
+function extractRichText(elements: Record<string, any>[]): string {
+    return (elements || []).map((e) => {
+        switch (e.type) {
+            case "rich_text_section":
+            case "rich_text_preformatted":
+            case "rich_text_quote":
+                return extractRichText(e.elements);
+            case "rich_text_list":
+                return (e.elements || []).map((item: Record<string, any>) => extractRichText(item.elements)).join("\n");
+            case "text":
+                return e.text;
+            case "link":
+                return e.text || e.url;
+            case "user":
+                return `<@${e.user_id}>`;
+            case "channel":
+                return `<#${e.channel_id}>`;
+            case "usergroup":
+                return `<!subteam^${e.usergroup_id}>`;
+            case "broadcast":
+                return `<!${e.range}>`;
+            case "emoji":
+                return `:${e.name}:`;
+            default:
+                return "";
+        }
+    }).join("");
+}
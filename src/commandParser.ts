@@ -0,0 +1,354 @@
+/**
+ * The types that an argument or option can be declared as.  The entity types (user, channel, usergroup) expect
+ * the special tokens that Slack inserts when a user is mentioned in a slash command (for example `<@U123|bob>`).
+ * These are only sent if the "Escape channels, users, and links" option is enabled for the command.
+ * https://api.slack.com/interactivity/slash-commands#creating_commands
+ */
+export type SlackArgumentType = "string" | "number" | "boolean" | "user" | "channel" | "usergroup";
+
+export interface ISlackArgumentDefinition {
+    name: string;
+    type?: SlackArgumentType;
+    description?: string;
+    required?: boolean;
+    choices?: string[];
+
+    // If true, this argument consumes all of the remaining positional arguments and is given as an array.
+    // This can only be used on the last argument.
+    rest?: boolean;
+}
+
+export interface ISlackOptionDefinition {
+    name: string;
+    type?: SlackArgumentType;
+    description?: string;
+    required?: boolean;
+    choices?: string[];
+
+    // A single character that can be used with a single dash (e.g. -v instead of --verbose)
+    alias?: string;
+    default?: any;
+}
+
+/**
+ * Describes the arguments that a sub-command accepts.  Positional arguments are assigned in the order given
+ * and options are given as `--name`, `--name=value` or `--name value`.  Options default to the boolean type.
+ */
+export interface ISlackArgumentSchema {
+    args?: ISlackArgumentDefinition[];
+    options?: ISlackOptionDefinition[];
+    allowUnknownOptions?: boolean;
+}
+
+export interface ISlackEntity {
+    id: string;
+    name?: string;
+}
+
+export interface ISlackParsedArguments {
+    args: Record<string, any>;
+    options: Record<string, any>;
+    raw: string;
+}
+
+/**
+ * Thrown when the text given to a command does not match its schema.  The message is suitable for showing
+ * to the user.
+ */
+export class SlackArgumentError extends Error {
+    public constructor(message: string) {
+        super(message);
+        this.name = "SlackArgumentError";
+        Object.setPrototypeOf(this, SlackArgumentError.prototype);
+    }
+}
+
+interface IToken {
+    value: string;
+    quoted: boolean;
+}
+
+const OPENING_QUOTES: Record<string, string> = {
+    "\"": "\"",
+    "'": "'",
+    "“": "”",
+    "‘": "’"
+};
+
+const USER_TOKEN = /^<@([UW][A-Z0-9]+)(?:\|([^>]*))?>$/;
+const CHANNEL_TOKEN = /^<#([CG][A-Z0-9]+)(?:\|([^>]*))?>$/;
+const USERGROUP_TOKEN = /^<!subteam\^([A-Z0-9]+)(?:\|([^>]*))?>$/;
+
+/**
+ * Slack escapes &, < and > in the text of slash commands.  This reverses that.
+ * https://api.slack.com/reference/surfaces/formatting#escaping
+ * @param text The text to unescape.
+ */
+export function unescapeSlackText(text: string): string {
+    return text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
+
+/**
+ * Splits the given text into tokens on whitespace.  Text inside of quotes (including the "smart" quotes that
+ * some Slack clients insert) is kept together and a backslash can be used to escape a quote character.
+ * @param text The text to split
+ */
+export function tokenize(text: string): IToken[] {
+    const tokens: IToken[] = [];
+    let current = "";
+    let inToken = false;
+    let quoted = false;
+    let closingQuote: string;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+
+        if (ch === "\\" && i + 1 < text.length) {
+            current += text[++i];
+            inToken = true;
+        } else if (closingQuote) {
+            if (ch === closingQuote) {
+                closingQuote = undefined;
+            } else {
+                current += ch;
+            }
+        } else if (ch in OPENING_QUOTES) {
+            closingQuote = OPENING_QUOTES[ch];
+            inToken = true;
+            quoted = true;
+        } else if (/\s/.test(ch)) {
+            if (inToken) {
+                tokens.push({ value: current, quoted });
+                current = "";
+                inToken = false;
+                quoted = false;
+            }
+        } else {
+            current += ch;
+            inToken = true;
+        }
+    }
+
+    if (closingQuote) {
+        throw new SlackArgumentError("There is a quote that was never closed");
+    }
+
+    if (inToken) {
+        tokens.push({ value: current, quoted });
+    }
+
+    return tokens;
+}
+
+/**
+ * Converts a single value to the given type.
+ * @param name The name of the argument or option (used in error messages)
+ * @param value The raw value
+ * @param type The type to convert to.
+ * @param choices If given, the value must be one of these.
+ */
+function convertValue(name: string, value: string, type: SlackArgumentType = "string", choices?: string[]): any {
+    let converted: any;
+    let match: RegExpMatchArray;
+
+    switch (type) {
+        case "number":
+            converted = Number(value);
+            if (value.trim() === "" || isNaN(converted)) {
+                throw new SlackArgumentError(`\`${name}\` must be a number but got \`${value}\``);
+            }
+            break;
+        case "boolean":
+            if (["true", "yes", "on", "1"].indexOf(value.toLowerCase()) > -1) {
+                converted = true;
+            } else if (["false", "no", "off", "0"].indexOf(value.toLowerCase()) > -1) {
+                converted = false;
+            } else {
+                throw new SlackArgumentError(`\`${name}\` must be true or false but got \`${value}\``);
+            }
+            break;
+        case "user":
+            match = value.match(USER_TOKEN);
+            if (!match) {
+                throw new SlackArgumentError(`\`${name}\` must be a user mention (like @someone)`);
+            }
+            converted = { id: match[1], name: match[2] } as ISlackEntity;
+            break;
+        case "channel":
+            match = value.match(CHANNEL_TOKEN);
+            if (!match) {
+                throw new SlackArgumentError(`\`${name}\` must be a channel (like #general)`);
+            }
+            converted = { id: match[1], name: match[2] } as ISlackEntity;
+            break;
+        case "usergroup":
+            match = value.match(USERGROUP_TOKEN);
+            if (!match) {
+                throw new SlackArgumentError(`\`${name}\` must be a user group mention (like @team)`);
+            }
+            converted = { id: match[1], name: match[2] } as ISlackEntity;
+            break;
+        default:
+            converted = unescapeSlackText(value);
+    }
+
+    if (choices && choices.length > 0 && choices.indexOf(String(converted)) === -1) {
+        throw new SlackArgumentError(`\`${name}\` must be one of: ${choices.join(", ")}`);
+    }
+
+    return converted;
+}
+
+function findOption(schema: ISlackArgumentSchema, name: string, isAlias: boolean): ISlackOptionDefinition {
+    const options = schema.options || [];
+    return options.find((o) => isAlias ? o.alias === name : o.name === name);
+}
+
+/**
+ * Parses the given text according to the given schema and returns the resulting arguments and options.
+ * @param text The text that followed the sub-command.
+ * @param schema The schema that describes what is expected.
+ * @throws SlackArgumentError if the text does not match the schema.
+ */
+export function parseArguments(text: string, schema: ISlackArgumentSchema): ISlackParsedArguments {
+    const tokens = tokenize(text || "");
+    const argDefs = schema.args || [];
+    const result: ISlackParsedArguments = { args: {}, options: {}, raw: text || "" };
+    const positionals: string[] = [];
+    let optionsEnded = false;
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+
+        if (token.quoted || optionsEnded || !token.value.startsWith("-") || token.value === "-" ||
+            /^-\d/.test(token.value)) {
+            positionals.push(token.value);
+            continue;
+        }
+
+        if (token.value === "--") {
+            optionsEnded = true;
+            continue;
+        }
+
+        const isAlias = !token.value.startsWith("--");
+        const body = token.value.substring(isAlias ? 1 : 2);
+        const eq = body.indexOf("=");
+        let name = eq > -1 ? body.substring(0, eq) : body;
+        let value: string = eq > -1 ? body.substring(eq + 1) : undefined;
+
+        let def = findOption(schema, name, isAlias);
+        let negated = false;
+        if (!def && !isAlias && name.startsWith("no-") && value === undefined) {
+            def = findOption(schema, name.substring(3), false);
+            negated = !!def && (def.type || "boolean") === "boolean";
+            if (!negated) {
+                def = undefined;
+            }
+        }
+
+        if (!def) {
+            if (schema.allowUnknownOptions) {
+                result.options[name] = value === undefined ? true : unescapeSlackText(value);
+                continue;
+            }
+            throw new SlackArgumentError(`Unknown option \`${token.value}\``);
+        }
+
+        name = def.name;
+        const type = def.type || "boolean";
+
+        if (type === "boolean" && value === undefined) {
+            result.options[name] = !negated;
+            continue;
+        }
+
+        if (value === undefined) {
+            if (i + 1 >= tokens.length) {
+                throw new SlackArgumentError(`The option \`--${name}\` needs a value`);
+            }
+            value = tokens[++i].value;
+        }
+
+        result.options[name] = convertValue(`--${name}`, value, type, def.choices);
+    }
+
+    for (const opt of (schema.options || [])) {
+        if (!(opt.name in result.options)) {
+            if (opt.default !== undefined) {
+                result.options[opt.name] = opt.default;
+            } else if (opt.required) {
+                throw new SlackArgumentError(`The option \`--${opt.name}\` is required`);
+            }
+        }
+    }
+
+    argDefs.forEach((def) => {
+        if (def.rest) {
+            const values = positionals.splice(0, positionals.length);
+            if (def.required && values.length === 0) {
+                throw new SlackArgumentError(`\`${def.name}\` is required`);
+            }
+            result.args[def.name] = values.map((v) => convertValue(def.name, v, def.type, def.choices));
+            return;
+        }
+
+        if (positionals.length === 0) {
+            if (def.required) {
+                throw new SlackArgumentError(`\`${def.name}\` is required`);
+            }
+            return;
+        }
+
+        result.args[def.name] = convertValue(def.name, positionals.shift(), def.type, def.choices);
+    });
+
+    if (positionals.length > 0) {
+        throw new SlackArgumentError(`Too many arguments.  Unexpected: ${positionals.join(" ")}`);
+    }
+
+    return result;
+}
+
+/**
+ * Generates a usage string from the given schema.
+ * @param prefix The text that comes before the arguments (usually the command and sub-command).
+ * @param schema The schema to describe.
+ */
+export function formatUsage(prefix: string, schema: ISlackArgumentSchema): string {
+    const parts: string[] = [prefix];
+
+    for (const opt of (schema.options || [])) {
+        const type = opt.type || "boolean";
+        let str = type === "boolean" ? `--${opt.name}` : `--${opt.name}=<${opt.choices ? opt.choices.join("|") : type}>`;
+        if (!opt.required) {
+            str = `[${str}]`;
+        }
+        parts.push(str);
+    }
+
+    for (const arg of (schema.args || [])) {
+        let str = arg.choices ? arg.choices.join("|") : arg.name;
+        if (arg.rest) {
+            str += "...";
+        }
+        parts.push(arg.required ? `<${str}>` : `[${str}]`);
+    }
+
+    const lines = ["`" + parts.join(" ") + "`"];
+
+    for (const arg of (schema.args || [])) {
+        if (arg.description) {
+            lines.push(`• \`${arg.name}\`: ${arg.description}`);
+        }
+    }
+
+    for (const opt of (schema.options || [])) {
+        if (opt.description) {
+            const alias = opt.alias ? ` (\`-${opt.alias}\`)` : "";
+            lines.push(`• \`--${opt.name}\`${alias}: ${opt.description}`);
+        }
+    }
+
+    return lines.join("\n");
+}
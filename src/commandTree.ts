@@ -0,0 +1,266 @@
+import { ISlackSubCommand, SlackSubCommandFunction, SlackSubCommandList } from ".";
+import { formatUsage } from "./commandParser";
+
+/**
+ * The name of the sub-command that is automatically added to every command.  If a command defines its own
+ * sub-command with this name then that is used instead.
+ */
+export const HELP_SUB_COMMAND = "help";
+
+// Slack will not accept messages with more than 50 blocks.
+const MAX_HELP_BLOCKS = 50;
+
+/**
+ * The result of matching the text of a slash command against a tree of sub-commands.
+ *
+ *  - If `subCommand` is set then a handler was found and should be called with `text`.
+ *  - If `help` is set then the user asked for help on the branch given in `helpPath`.
+ *  - If `unknown` is set then the user typed something that looks like a mistyped sub-command and
+ *      `suggestions` contains the closest matches.
+ *  - Otherwise, `path` is the branch the user got to but there is nothing there to run.
+ */
+export interface ISubCommandResolution {
+    path: string[];
+    text: string;
+    subCommand?: ISlackSubCommand;
+    help?: boolean;
+    helpPath?: string[];
+    unknown?: string;
+    suggestions?: string[];
+}
+
+/**
+ * Sub-commands can be given as just a function.  This converts them to the full object form.
+ * @param entry The sub-command as given in the list.
+ */
+export function normalizeSubCommand(entry: SlackSubCommandFunction | ISlackSubCommand): ISlackSubCommand {
+    if (typeof entry === "function") {
+        return { handler: entry };
+    }
+    return entry;
+}
+
+/**
+ * Returns the Levenshtein distance between the two strings (the number of single character insertions, deletions
+ * or substitutions needed to turn one into the other).
+ */
+export function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_v, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Returns the names that are close enough to the given word that it was probably a typo, closest first.
+ * @param word The word the user typed
+ * @param names The valid names.
+ */
+export function findSuggestions(word: string, names: string[]): string[] {
+    const maxDistance = Math.min(2, Math.max(1, Math.floor(word.length / 3)));
+    return names
+        .map((name) => ({ name, distance: editDistance(word, name) }))
+        .filter((m) => m.distance <= maxDistance)
+        .sort((m1, m2) => m1.distance - m2.distance)
+        .map((m) => m.name);
+}
+
+function splitFirstWord(text: string): [string, string] {
+    const trimmed = text.trim();
+    const firstSpace = trimmed.search(/\s/);
+    if (firstSpace === -1) {
+        return [trimmed, ""];
+    }
+    return [trimmed.substring(0, firstSpace), trimmed.substring(firstSpace).trim()];
+}
+
+/**
+ * Walks the given tree of sub-commands using the words in the text.  See ISubCommandResolution for what can be
+ * returned.
+ *
+ * @param subCommands The sub-commands available at this level.
+ * @param defaultSubCommand The sub-command to use if the text doesn't start with one of the sub-commands.
+ * @param text The text to match.
+ * @param path The names of the sub-commands that have already been matched (used when recursing).
+ */
+export function resolveSubCommand(subCommands: SlackSubCommandList, defaultSubCommand: string, text: string,
+                                  path: string[] = []): ISubCommandResolution {
+    const [word, rest] = splitFirstWord(text);
+    const name = word.toLowerCase();
+
+    if (name && name in subCommands) {
+        const node = normalizeSubCommand(subCommands[name]);
+        const nodePath = path.concat([name]);
+        if (node.subCommands) {
+            const child = resolveSubCommand(node.subCommands, node.defaultSubCommand, rest, nodePath);
+            if (child.subCommand || child.unknown || child.help || !node.handler) {
+                return child;
+            }
+        }
+        return { path: nodePath, subCommand: node, text: rest };
+    }
+
+    if (name === HELP_SUB_COMMAND) {
+        return {
+            path,
+            text: rest,
+            help: true,
+            helpPath: path.concat(rest ? rest.toLowerCase().split(/\s+/) : [])
+        };
+    }
+
+    if (name) {
+        const names = Object.keys(subCommands);
+        if (names.indexOf(HELP_SUB_COMMAND) === -1) {
+            names.push(HELP_SUB_COMMAND);
+        }
+        const suggestions = findSuggestions(name, names);
+        if (suggestions.length > 0) {
+            return { path, text: text.trim(), unknown: word, suggestions };
+        }
+    }
+
+    if (defaultSubCommand && defaultSubCommand in subCommands) {
+        const node = normalizeSubCommand(subCommands[defaultSubCommand]);
+        const nodePath = path.concat([defaultSubCommand]);
+        if (node.subCommands) {
+            const child = resolveSubCommand(node.subCommands, node.defaultSubCommand, text, nodePath);
+            if (child.subCommand || child.unknown || child.help || !node.handler) {
+                return child;
+            }
+        }
+        return { path: nodePath, subCommand: node, text: text.trim() };
+    }
+
+    return { path, text: text.trim() };
+}
+
+/**
+ * Finds the branch of the tree at the given path.  Returns undefined if the path doesn't exist.
+ * @param subCommands The root of the tree
+ * @param path The names of the sub-commands to follow.
+ */
+export function findBranch(subCommands: SlackSubCommandList, path: string[]): ISlackSubCommand {
+    let node: ISlackSubCommand = { subCommands };
+    for (const name of path) {
+        if (!node.subCommands || !(name in node.subCommands)) {
+            return undefined;
+        }
+        node = normalizeSubCommand(node.subCommands[name]);
+    }
+    return node;
+}
+
+/**
+ * Checks that every branch in the tree has at least one sub-command and that any defaults refer to sub-commands
+ * that exist.
+ * @param subCommands The tree to check
+ * @param path The path to this branch (used in error messages).
+ */
+export function validateSubCommandTree(subCommands: SlackSubCommandList, path: string[] = []) {
+    for (const name of Object.keys(subCommands)) {
+        const node = normalizeSubCommand(subCommands[name]);
+        const nodePath = path.concat([name]).join(" ");
+        if (!node.handler && !node.subCommands) {
+            throw new Error(`The sub-command "${nodePath}" must have a handler, sub-commands or both`);
+        }
+        if (node.subCommands) {
+            if (Object.keys(node.subCommands).length === 0) {
+                throw new Error(`The sub-command "${nodePath}" has an empty list of sub-commands`);
+            }
+            if (node.defaultSubCommand && !(node.defaultSubCommand in node.subCommands)) {
+                throw new Error(`The sub-command "${nodePath}" has a default sub-command that is not in its list`);
+            }
+            validateSubCommandTree(node.subCommands, path.concat([name]));
+        }
+    }
+}
+
+/**
+ * Returns the usage line for a single sub-command.
+ * @param prefix The command and sub-command path (e.g. "/ticket admin reassign")
+ * @param node The sub-command.
+ */
+export function getSubCommandUsage(prefix: string, node: ISlackSubCommand): string {
+    if (node.usage) {
+        return "`" + node.usage + "`";
+    }
+    if (node.schema) {
+        return formatUsage(prefix, node.schema).split("\n")[0];
+    }
+    return "`" + prefix + "`";
+}
+
+function collectHelpEntries(prefix: string, subCommands: SlackSubCommandList): string[] {
+    let entries: string[] = [];
+    for (const name of Object.keys(subCommands)) {
+        const node = normalizeSubCommand(subCommands[name]);
+        const nodePrefix = `${prefix} ${name}`;
+        if (node.handler) {
+            entries.push(getSubCommandUsage(nodePrefix, node) + (node.description ? `\n${node.description}` : ""));
+        } else if (node.description) {
+            entries.push("`" + nodePrefix + " ...`\n" + node.description);
+        }
+        if (node.subCommands) {
+            entries = entries.concat(collectHelpEntries(nodePrefix, node.subCommands));
+        }
+    }
+    return entries;
+}
+
+/**
+ * Builds a Block Kit help message for the given command or, if a path is given, for just that branch.
+ * @param command The name of the command (without the slash)
+ * @param description The description of the command.
+ * @param subCommands The tree of sub-commands.
+ * @param path The branch to show help for.  An empty path shows the whole tree.
+ */
+export function buildHelpMessage(command: string, description: string, subCommands: SlackSubCommandList,
+                                 path: string[] = []): Record<string, any> {
+    const branch = findBranch(subCommands, path);
+    const prefix = ["/" + command].concat(path).join(" ");
+
+    if (!branch) {
+        return {
+            response_type: "ephemeral",
+            text: `:x: There is no \`${prefix}\` command.  Try \`/${command} ${HELP_SUB_COMMAND}\``
+        };
+    }
+
+    const title = path.length === 0 ? description : branch.description;
+    const blocks: Record<string, any>[] = [{
+        type: "section",
+        text: { type: "mrkdwn", text: `*${prefix}*` + (title ? `\n${title}` : "") }
+    }, { type: "divider" }];
+
+    const entries = branch.subCommands ? collectHelpEntries(prefix, branch.subCommands) :
+        [getSubCommandUsage(prefix, branch) + (branch.description ? `\n${branch.description}` : "")];
+
+    // leave room for the header blocks and a final note about anything that didn't fit.
+    const available = MAX_HELP_BLOCKS - blocks.length - 1;
+    for (const entry of entries.slice(0, available)) {
+        blocks.push({ type: "section", text: { type: "mrkdwn", text: entry } });
+    }
+
+    if (entries.length > available) {
+        blocks.push({
+            type: "context",
+            elements: [{
+                type: "mrkdwn",
+                text: `...and ${entries.length - available} more.  Use \`/${command} ${HELP_SUB_COMMAND} <sub-command>\``
+            }]
+        });
+    }
+
+    return {
+        response_type: "ephemeral",
+        text: `Help for ${prefix}`,
+        blocks
+    };
+}
@@ -0,0 +1,115 @@
+import { WebClient } from "@slack/web-api";
+
+/**
+ * The fields of a message returned by conversations.history and conversations.replies that we commonly use.
+ * https://api.slack.com/events/message
+ */
+export interface ISlackMessage {
+    type: string;
+    ts: string;
+    subtype?: string;
+    channel?: string;
+    user?: string;
+    bot_id?: string;
+    username?: string;
+    team?: string;
+    text?: string;
+    blocks?: Record<string, any>[];
+    attachments?: Record<string, any>[];
+    files?: Record<string, any>[];
+    edited?: { user: string, ts: string };
+
+    thread_ts?: string;
+    parent_user_id?: string;
+    reply_count?: number;
+    reply_users?: string[];
+    reply_users_count?: number;
+    latest_reply?: string;
+
+    reactions?: { name: string, users: string[], count: number }[];
+
+    // Slack adds fields to messages all the time (and SlackMessage allows any field) so anything else is allowed.
+    [index: string]: any;
+}
+
+export interface ISlackPaginationOptions {
+    // The number of items to request per page.  Slack recommends no more than 200.  Defaults to 100.
+    pageSize?: number;
+
+    // Stop after this many items have been returned.  Defaults to no limit.
+    max?: number;
+}
+
+export interface ISlackHistoryOptions extends ISlackPaginationOptions {
+    // Only messages after (and before) these times are included.  Either a Date or a Slack timestamp.
+    oldest?: Date | string;
+    latest?: Date | string;
+
+    // Include messages with exactly the oldest or latest timestamp.
+    inclusive?: boolean;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Converts a Date to a Slack timestamp (seconds with microseconds after the decimal point).  Strings are assumed to
+ * already be timestamps and are returned as is.
+ * @param time The time to convert.
+ */
+export function toSlackTimestamp(time: Date | string): string {
+    if (time instanceof Date) {
+        return (time.getTime() / 1000).toFixed(6);
+    }
+    return time;
+}
+
+/**
+ * Calls a cursor-paginated method until there are no more pages (or the maximum number of items have been returned)
+ * and yields each item in the given property of the results.
+ * https://api.slack.com/docs/pagination
+ *
+ * @param client The client to make the calls with.
+ * @param method The full method name (e.g. conversations.history)
+ * @param args The arguments for the method (other than the cursor and limit)
+ * @param property The property of the result that contains the items.
+ * @param options Page size and maximum number of items.
+ */
+export async function* paginate<T>(client: WebClient, method: string, args: Record<string, any>,
+                                   property: string, options: ISlackPaginationOptions = {}): AsyncIterableIterator<T> {
+    let cursor: string;
+    let count = 0;
+
+    do {
+        const result = await client.apiCall(method, {
+            ...args,
+            limit: options.pageSize || DEFAULT_PAGE_SIZE,
+            cursor
+        }) as Record<string, any>;
+
+        if (!result || !result.ok) {
+            throw new Error(`Unable to call ${method}.  Failed with this error: ${result ? result.error : "no response"}`);
+        }
+
+        for (const item of (result[property] || []) as T[]) {
+            if (options.max !== undefined && count >= options.max) {
+                return;
+            }
+            count++;
+            yield item;
+        }
+
+        cursor = result.response_metadata ? result.response_metadata.next_cursor : undefined;
+    } while (cursor && (options.max === undefined || count < options.max));
+}
+
+/**
+ * Collects everything from an async iterator into an array.
+ * @param iterator The iterator to read.
+ */
+export async function collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) {
+        items.push(item);
+    }
+    return items;
+}
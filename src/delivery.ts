@@ -0,0 +1,425 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import axios, { AxiosError } from "axios";
+import { logger } from ".";
+
+export type SlackDeliveryKind = "webhook" | "responseUrl";
+
+/**
+ * A single message to be posted to an incoming webhook or response_url.
+ */
+export interface ISlackDelivery {
+    id: string;
+    kind: SlackDeliveryKind;
+    url: string;
+    payload: Record<string, any>;
+
+    // Deliveries with the same key are sent one at a time in order (when ordered delivery is on)
+    orderingKey?: string;
+
+    attempts: number;
+    createdAt: number;
+}
+
+/**
+ * A delivery that could not be made.  Permanent failures are dead-lettered right away and retryable ones once
+ * every attempt has been used.
+ */
+export interface ISlackDeadLetter extends ISlackDelivery {
+    error: string;
+    permanent: boolean;
+    failedAt: number;
+}
+
+export interface ISlackDeliveryResult {
+    success: boolean;
+    attempts: number;
+    error?: Error;
+
+    // Set if the delivery ended up in the dead-letter store.
+    deadLetterId?: string;
+}
+
+/**
+ * Implement this to keep dead letters somewhere other than the built-in stores.
+ */
+export interface ISlackDeadLetterStore {
+    add(letter: ISlackDeadLetter): Promise<void>;
+    get(id: string): Promise<ISlackDeadLetter>;
+    remove(id: string): Promise<void>;
+    list(): Promise<ISlackDeadLetter[]>;
+}
+
+/**
+ * Keeps dead letters in memory (only the most recent are kept)
+ */
+export class MemoryDeadLetterStore implements ISlackDeadLetterStore {
+
+    protected letters: Map<string, ISlackDeadLetter> = new Map();
+
+    public constructor(protected maxLetters: number = 1000) {
+    }
+
+    public async add(letter: ISlackDeadLetter): Promise<void> {
+        this.letters.set(letter.id, letter);
+        if (this.letters.size > this.maxLetters) {
+            this.letters.delete(this.letters.keys().next().value);
+        }
+    }
+
+    public async get(id: string): Promise<ISlackDeadLetter> {
+        return this.letters.get(id);
+    }
+
+    public async remove(id: string): Promise<void> {
+        this.letters.delete(id);
+    }
+
+    public async list(): Promise<ISlackDeadLetter[]> {
+        return Array.from(this.letters.values());
+    }
+}
+
+/**
+ * Keeps each dead letter in its own JSON file in the given directory.  Webhook URLs contain secrets so make sure
+ * the directory is not readable by anyone else.
+ */
+export class FileDeadLetterStore implements ISlackDeadLetterStore {
+
+    protected directory: string;
+
+    public constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    public async add(letter: ISlackDeadLetter): Promise<void> {
+        await fs.promises.mkdir(this.directory, { recursive: true, mode: 0o700 });
+        await fs.promises.writeFile(this.getFilePath(letter.id), JSON.stringify(letter, undefined, 2), { mode: 0o600 });
+    }
+
+    public async get(id: string): Promise<ISlackDeadLetter> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.getFilePath(id), "utf8"));
+        } catch (e) {
+            if (e.code === "ENOENT") {
+                return undefined;
+            }
+            throw e;
+        }
+    }
+
+    public async remove(id: string): Promise<void> {
+        try {
+            await fs.promises.unlink(this.getFilePath(id));
+        } catch (e) {
+            if (e.code !== "ENOENT") {
+                throw e;
+            }
+        }
+    }
+
+    public async list(): Promise<ISlackDeadLetter[]> {
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(this.directory);
+        } catch (e) {
+            if (e.code === "ENOENT") {
+                return [];
+            }
+            throw e;
+        }
+
+        const letters: ISlackDeadLetter[] = [];
+        for (const file of files.filter((f) => f.endsWith(".json"))) {
+            const letter = await this.get(file.substring(0, file.length - ".json".length));
+            if (letter) {
+                letters.push(letter);
+            }
+        }
+        return letters.sort((a, b) => a.failedAt - b.failedAt);
+    }
+
+    protected getFilePath(id: string): string {
+        return path.join(this.directory, id.replace(/[^A-Za-z0-9_-]/g, "_") + ".json");
+    }
+}
+
+export interface ISlackDeliveryConfig {
+    // The number of times a delivery is attempted before it's dead-lettered.  Defaults to 5.
+    maxAttempts?: number;
+
+    // The delay before the first retry (doubled for each retry after that, up to maxDelay).  Defaults to 1 second
+    //  and 1 minute.
+    initialDelay?: number;
+    maxDelay?: number;
+
+    // If true, deliveries to the same channel are made one at a time in the order they were queued.
+    ordered?: boolean;
+
+    // Where failed deliveries are kept.  Defaults to an in-memory store.
+    deadLetterStore?: ISlackDeadLetterStore;
+}
+
+/**
+ * Called before every attempt.  Returns the reason the delivery can't be made (which is treated as a permanent
+ * failure) or undefined if it can go ahead.
+ */
+export type SlackDeliveryCheck = (delivery: ISlackDelivery) => string | undefined;
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_INITIAL_DELAY = 1000;
+const DEFAULT_MAX_DELAY = 60 * 1000;
+
+/**
+ * The errors that Slack returns from webhooks and response_urls that will never succeed if retried.
+ * https://api.slack.com/messaging/webhooks#handling_errors
+ */
+export const PERMANENT_DELIVERY_ERRORS = [
+    "invalid_payload",
+    "invalid_token",
+    "no_text",
+    "no_service",
+    "no_service_id",
+    "no_team",
+    "team_disabled",
+    "user_not_found",
+    "channel_not_found",
+    "channel_is_archived",
+    "action_prohibited",
+    "posting_to_general_channel_denied",
+    "too_many_attachments",
+    "expired_url",
+    "used_url"
+];
+
+/**
+ * The errors that the Web API returns that are worth retrying.  Any other error response is permanent.
+ */
+export const RETRYABLE_WEB_API_ERRORS = [
+    "internal_error",
+    "fatal_error",
+    "service_unavailable",
+    "request_timeout",
+    "ratelimited"
+];
+
+export class SlackDeliveryError extends Error {
+    public permanent: boolean;
+    public retryAfterMs: number;
+
+    public constructor(message: string, permanent: boolean, retryAfterMs?: number) {
+        super(message);
+        this.name = "SlackDeliveryError";
+        this.permanent = permanent;
+        this.retryAfterMs = retryAfterMs;
+        Object.setPrototypeOf(this, SlackDeliveryError.prototype);
+    }
+}
+
+/**
+ * Decides whether a failed post is worth retrying.  Network errors, timeouts, rate limiting and server errors are
+ * retried.  Everything else (including any of the errors above) is permanent.
+ * @param err The error from axios.
+ */
+export function classifyDeliveryError(err: AxiosError): SlackDeliveryError {
+    const response = err.response;
+    if (!response) {
+        return new SlackDeliveryError(`${err.code || "network_error"}: ${err.message}`, false);
+    }
+
+    const body = typeof response.data === "string" ? response.data.trim() : JSON.stringify(response.data || "");
+    const message = `${response.status}: ${body || err.message}`;
+    if (PERMANENT_DELIVERY_ERRORS.some((e) => body.indexOf(e) > -1)) {
+        return new SlackDeliveryError(message, true);
+    }
+    if (response.status === 429) {
+        const retryAfter = parseInt(response.headers ? response.headers["retry-after"] : undefined, 10);
+        return new SlackDeliveryError(message, false, isNaN(retryAfter) ? undefined : retryAfter * 1000);
+    }
+    return new SlackDeliveryError(message, response.status < 500 && response.status !== 408);
+}
+
+/**
+ * The same as classifyDeliveryError but for errors thrown by the WebClient.  Network errors, rate limiting, server
+ * errors and the errors above are retried.
+ * @param err The error from the WebClient.
+ */
+export function classifyWebApiError(err: any): SlackDeliveryError {
+    const message = err && err.message ? err.message : String(err);
+    if (!err) {
+        return new SlackDeliveryError(message, true);
+    }
+    if (err.code === "slack_webapi_request_error") {
+        return new SlackDeliveryError(message, false);
+    }
+    if (err.code === "slack_webapi_rate_limited_error") {
+        return new SlackDeliveryError(message, false, err.retryAfter ? err.retryAfter * 1000 : undefined);
+    }
+    if (err.code === "slack_webapi_http_error") {
+        return new SlackDeliveryError(message, err.statusCode < 500 && err.statusCode !== 408);
+    }
+    if (err.code === "slack_webapi_platform_error") {
+        return new SlackDeliveryError(message, RETRYABLE_WEB_API_ERRORS.indexOf(err.data && err.data.error) < 0);
+    }
+    return new SlackDeliveryError(message, true);
+}
+
+/**
+ * Returns how long to wait before the next attempt: the initial delay, doubled for every attempt after the first
+ * (up to the maximum) with a little jitter so that a burst of failures doesn't retry in lockstep.
+ * @param config The delivery config (for the delays)
+ * @param attempts The number of attempts made so far.
+ */
+export function getRetryDelay(config: ISlackDeliveryConfig, attempts: number): number {
+    const initial = config.initialDelay || DEFAULT_INITIAL_DELAY;
+    const max = config.maxDelay || DEFAULT_MAX_DELAY;
+    const delay = Math.min(max, initial * Math.pow(2, attempts - 1));
+    return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Returns the number of attempts to make before giving up.
+ * @param config The delivery config.
+ */
+export function getMaxAttempts(config: ISlackDeliveryConfig): number {
+    return config.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Posts messages to incoming webhooks and response_urls, retrying with exponential backoff until they are
+ * delivered, fail permanently or run out of attempts.  Failed deliveries go to the dead-letter store where they can
+ * be inspected and replayed.
+ */
+export class SlackDeliveryQueue {
+
+    public readonly deadLetters: ISlackDeadLetterStore;
+    protected config: ISlackDeliveryConfig;
+    protected check: SlackDeliveryCheck;
+    protected lanes: Map<string, Promise<any>> = new Map();
+
+    public constructor(config: ISlackDeliveryConfig = {}, check?: SlackDeliveryCheck) {
+        this.config = config;
+        this.check = check;
+        this.deadLetters = config.deadLetterStore || new MemoryDeadLetterStore();
+    }
+
+    /**
+     * Queues a post and resolves once it has been delivered or dead-lettered.  This never rejects.
+     * @param kind What the URL is.
+     * @param url The webhook or response_url.
+     * @param payload The message to post.
+     * @param orderingKey Used to keep deliveries in order (usually the channel)
+     */
+    public deliver(kind: SlackDeliveryKind, url: string, payload: Record<string, any>,
+                   orderingKey?: string): Promise<ISlackDeliveryResult> {
+        return this.enqueue({
+            id: crypto.randomBytes(8).toString("hex"),
+            kind,
+            url,
+            payload,
+            orderingKey: orderingKey || url,
+            attempts: 0,
+            createdAt: Date.now()
+        });
+    }
+
+    public listDeadLetters(): Promise<ISlackDeadLetter[]> {
+        return this.deadLetters.list();
+    }
+
+    /**
+     * Tries a dead letter again (with a fresh set of attempts).  It is removed from the store first and will be
+     * added back if it fails again.
+     * @param id The ID of the dead letter.
+     */
+    public async replay(id: string): Promise<ISlackDeliveryResult> {
+        const letter = await this.deadLetters.get(id);
+        if (!letter) {
+            throw new Error(`There is no dead letter with the ID ${id}`);
+        }
+        await this.deadLetters.remove(id);
+        return this.enqueue({
+            id: letter.id,
+            kind: letter.kind,
+            url: letter.url,
+            payload: letter.payload,
+            orderingKey: letter.orderingKey,
+            attempts: 0,
+            createdAt: letter.createdAt
+        });
+    }
+
+    /**
+     * Replays every dead letter.
+     */
+    public async replayAll(): Promise<ISlackDeliveryResult[]> {
+        const results: ISlackDeliveryResult[] = [];
+        for (const letter of await this.deadLetters.list()) {
+            results.push(await this.replay(letter.id));
+        }
+        return results;
+    }
+
+    protected enqueue(delivery: ISlackDelivery): Promise<ISlackDeliveryResult> {
+        if (!this.config.ordered) {
+            return this.attempt(delivery);
+        }
+
+        // chain this delivery onto the last one with the same key.
+        const key = delivery.orderingKey;
+        const previous = this.lanes.get(key) || Promise.resolve();
+        const result = previous.then(() => this.attempt(delivery));
+        this.lanes.set(key, result);
+        result.then(() => {
+            if (this.lanes.get(key) === result) {
+                this.lanes.delete(key);
+            }
+        });
+        return result;
+    }
+
+    protected async attempt(delivery: ISlackDelivery): Promise<ISlackDeliveryResult> {
+        const maxAttempts = getMaxAttempts(this.config);
+        let error: SlackDeliveryError;
+
+        while (delivery.attempts < maxAttempts) {
+            const reason = this.check ? this.check(delivery) : undefined;
+            if (reason) {
+                error = new SlackDeliveryError(reason, true);
+                break;
+            }
+
+            delivery.attempts++;
+            try {
+                await axios.post(delivery.url, delivery.payload);
+                return { success: true, attempts: delivery.attempts };
+            } catch (e) {
+                error = e instanceof SlackDeliveryError ? e : classifyDeliveryError(e);
+            }
+
+            if (error.permanent || delivery.attempts >= maxAttempts) {
+                break;
+            }
+
+            const delay = error.retryAfterMs || getRetryDelay(this.config, delivery.attempts);
+            logger(`Delivery ${delivery.id} failed (${error.message}).  Retrying in ${delay}ms`);
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+
+        const letter: ISlackDeadLetter = {
+            ...delivery,
+            error: error.message,
+            permanent: error.permanent,
+            failedAt: Date.now()
+        };
+        try {
+            await this.deadLetters.add(letter);
+        } catch (e) {
+            logger(`Unable to dead-letter delivery ${delivery.id}: ${e.message}`);
+        }
+        logger(`Delivery ${delivery.id} to a ${delivery.kind} failed after ${delivery.attempts} attempt(s): ` +
+            error.message);
+        return { success: false, attempts: delivery.attempts, error, deadLetterId: letter.id };
+    }
+}
@@ -0,0 +1,80 @@
+/**
+ * Keeps track of keys that have been seen recently.  Used to make sure that an event that Slack delivers more than
+ * once is only handled once.  Implement this to share the keys between instances (using redis, for example).
+ */
+export interface ISlackDedupeStore {
+    /**
+     * Records the given key and returns true if it had not been seen within the TTL.  Returns false if it has
+     * (meaning this is a duplicate).
+     * @param key The key to record
+     * @param ttlMs How long to remember the key.
+     */
+    claim(key: string, ttlMs: number): Promise<boolean>;
+}
+
+/**
+ * The default store which keeps keys in memory.  This only works if there's a single instance handling events.
+ */
+export class MemoryDedupeStore implements ISlackDedupeStore {
+
+    protected expirations: Map<string, number> = new Map();
+    protected lastPruned = 0;
+
+    public async claim(key: string, ttlMs: number): Promise<boolean> {
+        const now = Date.now();
+        this.prune(now, ttlMs);
+
+        const expires = this.expirations.get(key);
+        if (expires !== undefined && expires > now) {
+            return false;
+        }
+
+        this.expirations.set(key, now + ttlMs);
+        return true;
+    }
+
+    protected prune(now: number, ttlMs: number) {
+        // no need to do this on every call.
+        if (now - this.lastPruned < Math.min(ttlMs, 60 * 1000)) {
+            return;
+        }
+        this.lastPruned = now;
+        this.expirations.forEach((expires, key) => {
+            if (expires <= now) {
+                this.expirations.delete(key);
+            }
+        });
+    }
+}
+
+/**
+ * What to do when Slack retries an event delivery.
+ *  - process: handle it unless the original delivery has already been handled (this is the default)
+ *  - ignore: acknowledge it but never handle it
+ *  - noRetry: like process but every response tells Slack not to retry (using the X-Slack-No-Retry header)
+ * https://api.slack.com/apis/connections/events-api#retries
+ */
+export type SlackEventRetryMode = "process" | "ignore" | "noRetry";
+
+export interface ISlackEventDeliveryStats {
+    received: number;
+    retries: number;
+    duplicates: number;
+    ignoredRetries: number;
+}
+
+/**
+ * Returns the key that identifies the given event delivery.  Slack sends the same event_id with every retry.  If
+ * there is no event_id (which shouldn't happen) then the key is built from the event itself.
+ * @param body The full event_callback body.
+ * @param event The inner event.
+ */
+export function getEventDedupeKey(body: Record<string, any>, event: Record<string, any>): string {
+    if (body && body.event_id) {
+        return body.event_id;
+    }
+    if (!event) {
+        return undefined;
+    }
+    return [event.type, event.event_ts || event.ts, event.channel, event.user].join(":");
+}
@@ -0,0 +1,255 @@
+import { ISlackAckResponse, logger, SlackConnection, SlackPayload } from ".";
+import { getInstallationQuery } from "./installationStore";
+import { ISlackMiddlewareContext, runMiddleware, SlackMiddleware } from "./middleware";
+import { SlackEventPayload } from "./payloads";
+
+export type SlackChannelType = "channel" | "group" | "im" | "mpim";
+
+export type SlackEventRouteFunction<E = SlackPayload> = (conn: SlackConnection, event: E,
+                                                         ctx: ISlackMiddlewareContext) => Promise<ISlackAckResponse | void>;
+
+/**
+ * A handler for an event type along with the conditions the event has to meet for it to be called.  Every route
+ * that matches is called, highest priority first.  The app's own messages never match.  The handler is given the
+ * payload type of the event (see ISlackEventMap).
+ *
+ *   conn.addEventRoute({
+ *       event: "message",
+ *       channelTypes: ["im"],
+ *       pattern: /^deploy (\S+)$/i,
+ *       handler: async (conn, event, ctx) => { ... ctx.state.match[1] ... }
+ *   });
+ */
+export interface ISlackEventRoute<K extends string = string> {
+    // The event type (message, app_mention, reaction_added, etc.)
+    event: K;
+
+    // The subtypes that match.  By default only events without a subtype (i.e. new messages rather than edits,
+    //  deletes, joins, etc.) match.  Use "*" to match any subtype (or none).
+    subtype?: string | string[];
+
+    // Only match events from these kinds of conversation (message events carry the channel_type)
+    channelTypes?: SlackChannelType[];
+
+    // Only match messages whose text matches.  A string matches if the text contains it as a whole word (ignoring
+    //  case).  The match is put in ctx.state.match.
+    pattern?: RegExp | string;
+
+    // Only match messages that contain at least one of these words (ignoring case)
+    keywords?: string[];
+
+    // Only match messages that @mention the app's bot user.
+    mentionsBot?: boolean;
+
+    // Messages from other bots are skipped unless this is set.
+    includeBots?: boolean;
+
+    // Higher priorities run first.  Defaults to 0.  Routes with the same priority run in the order they were added.
+    priority?: number;
+
+    // If this route matches, the routes after it are not run.
+    stop?: boolean;
+
+    handler: SlackEventRouteFunction<SlackEventPayload<K>>;
+    middleware?: SlackMiddleware[];
+}
+
+interface IRouteEntry {
+    route: ISlackEventRoute<any>;
+    order: number;
+}
+
+/**
+ * Sends each event to the routes that match it.  Events still arrive through the event adapter and go through the
+ * global middleware and the duplicate check first.  See ISlackEventRoute.
+ */
+export class SlackEventRouter {
+
+    protected routes: Map<string, IRouteEntry[]> = new Map();
+    protected botUserIds: Map<string, Promise<string>> = new Map();
+    protected added = 0;
+
+    public constructor(protected conn: SlackConnection) {
+    }
+
+    public addRoute(route: ISlackEventRoute<any>) {
+        if (!route.event || !route.handler) {
+            throw new Error("An event route needs an event type and a handler");
+        }
+
+        const entries = this.routes.get(route.event) || [];
+        entries.push({ route, order: this.added++ });
+        entries.sort((a, b) => ((b.route.priority || 0) - (a.route.priority || 0)) || (a.order - b.order));
+        this.routes.set(route.event, entries);
+    }
+
+    /**
+     * Removes a route that was added earlier.  Returns false if it wasn't there.
+     * @param route The same object that was given to addRoute.
+     */
+    public removeRoute(route: ISlackEventRoute<any>): boolean {
+        const entries = this.routes.get(route.event) || [];
+        const index = entries.findIndex((e) => e.route === route);
+        if (index === -1) {
+            return false;
+        }
+        entries.splice(index, 1);
+        if (entries.length === 0) {
+            this.routes.delete(route.event);
+        }
+        return true;
+    }
+
+    public hasRoutes(event: string): boolean {
+        return this.routes.has(event);
+    }
+
+    /**
+     * Runs every route that matches the event.  Errors from one route are reported and don't stop the others.
+     * @param event The inner event.
+     * @param body The event_callback that it came in.
+     * @param ctx The context that the global middleware was given.
+     */
+    public async dispatch(event: SlackPayload, body: SlackPayload, ctx: ISlackMiddlewareContext): Promise<void> {
+        const entries = this.routes.get(event.type);
+        if (!entries || await this.isOwnMessage(event, body)) {
+            return;
+        }
+
+        // copy the list since a handler could add or remove routes.
+        for (const { route } of entries.slice()) {
+            const match = await this.matches(route, event, body);
+            if (!match) {
+                continue;
+            }
+
+            ctx.state.match = match === true ? undefined : match;
+            try {
+                await runMiddleware(route.middleware || [], ctx, async () => {
+                    const result = await route.handler(this.conn, event, ctx);
+                    return result || undefined;
+                });
+            } catch (e) {
+                ctx.error = e;
+                this.conn.reportError(e, { source: "event", name: event.type, payload: event });
+            }
+
+            if (route.stop) {
+                break;
+            }
+        }
+    }
+
+    /**
+     * Returns false if the route doesn't match and otherwise either true or the result of the route's pattern.
+     */
+    protected async matches(route: ISlackEventRoute<any>, event: SlackPayload,
+                            body: SlackPayload): Promise<boolean | RegExpMatchArray> {
+        const subtypes = route.subtype === undefined ? [] : [].concat(route.subtype);
+        if (!subtypes.includes("*") && !(event.subtype ? subtypes.includes(event.subtype) : subtypes.length === 0)) {
+            return false;
+        }
+
+        if (route.channelTypes && !route.channelTypes.includes(event.channel_type)) {
+            return false;
+        }
+
+        if (!route.includeBots && isFromBot(event)) {
+            return false;
+        }
+
+        const text = getMessageText(event);
+        if (route.keywords) {
+            const words = text.toLowerCase().split(/\W+/);
+            if (!route.keywords.some((k) => words.includes(k.toLowerCase()))) {
+                return false;
+            }
+        }
+
+        if (route.mentionsBot) {
+            const botUserId = await this.findBotUserId(body);
+            if (!botUserId || text.indexOf(`<@${botUserId}`) === -1) {
+                return false;
+            }
+        }
+
+        if (route.pattern) {
+            const pattern = typeof route.pattern === "string" ?
+                new RegExp(`\\b${escapeRegExp(route.pattern)}\\b`, "i") : route.pattern;
+            return text.match(pattern) || false;
+        }
+        return true;
+    }
+
+    protected async isOwnMessage(event: SlackPayload, body: SlackPayload): Promise<boolean> {
+        const message = event.subtype === "message_changed" && event.message ? event.message : event;
+        const appId = this.conn.config.appId;
+        if (appId && (message.app_id === appId || (message.bot_profile && message.bot_profile.app_id === appId))) {
+            return true;
+        }
+        if (!message.user) {
+            return false;
+        }
+        return message.user === await this.findBotUserId(body);
+    }
+
+    /**
+     * The same as getBotUserId but resolves with undefined if the bot user can't be found (if auth.test fails, for
+     * example) so that only the routes that need it (mentionsBot) are affected.
+     */
+    protected async findBotUserId(body: SlackPayload): Promise<string> {
+        try {
+            return await this.getBotUserId(body);
+        } catch (e) {
+            logger(`Unable to find the bot user: ${e.message}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Finds our bot user in the workspace the event came from.  The event_callback usually says which it is.  If
+     * not, auth.test is asked (once per workspace)
+     */
+    protected getBotUserId(body: SlackPayload): Promise<string> {
+        const authorizations: SlackPayload[] = (body && body.authorizations) || [];
+        const bot = authorizations.find((a) => a.is_bot);
+        if (bot) {
+            return Promise.resolve(bot.user_id);
+        }
+
+        const { teamId, enterpriseId } = getInstallationQuery(body || {});
+        const key = `${enterpriseId || ""}:${teamId || ""}`;
+        let botUserId = this.botUserIds.get(key);
+        if (!botUserId) {
+            botUserId = this.conn.getClient(body || {})
+                .then((client) => client.auth.test())
+                .then((result: Record<string, any>) => result.user_id as string)
+                .catch((err) => {
+                    // try again next time.
+                    this.botUserIds.delete(key);
+                    throw err;
+                });
+            this.botUserIds.set(key, botUserId);
+        }
+        return botUserId;
+    }
+}
+
+function isFromBot(event: SlackPayload): boolean {
+    const message = event.subtype === "message_changed" && event.message ? event.message : event;
+    return !!message.bot_id || message.subtype === "bot_message";
+}
+
+/**
+ * Returns the text of a message event.  For edits, this is the text after the edit.
+ */
+export function getMessageText(event: SlackPayload): string {
+    if (event.subtype === "message_changed" && event.message) {
+        return event.message.text || "";
+    }
+    return event.text || "";
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
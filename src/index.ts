@@ -1,5 +1,3 @@
-import assert from "assert";
-
 import { SlackEventAdapter } from "@slack/events-api/dist/adapter";
 import SlackMessageAdapter, {
     ActionConstraints,
@@ -8,24 +6,147 @@ import SlackMessageAdapter, {
 } from "@slack/interactive-messages/dist/adapter";
 import { createEventAdapter } from "@slack/events-api";
 import { createMessageAdapter } from "@slack/interactive-messages";
-import { WebClient } from "@slack/web-api";
+import { View, ViewsUpdateArguments, WebClient } from "@slack/web-api";
 import { IncomingWebhook } from "@slack/webhook";
-import axios, { AxiosError, AxiosResponse } from "axios";
-import { Router, Application } from "express";
+import { Application, NextFunction, Request, RequestHandler, Response, Router } from "express";
 import { Connection, ConnectionConfig, GlobalConfig, findProperty } from "@nexus-switchboard/nexus-core";
 import { createCommandAdapter, SlackCommandAdapter } from "./slackCommandAdapter";
+import {
+    formatUsage,
+    ISlackArgumentSchema,
+    ISlackParsedArguments,
+    parseArguments,
+    SlackArgumentError
+} from "./commandParser";
+import { extractTextFromBlocks } from "./blockKit";
+import { buildHelpMessage, resolveSubCommand, validateSubCommandTree } from "./commandTree";
+import {
+    ISlackSocketModeConfig,
+    ISocketModeEnvelopeInfo,
+    SlackSocketModeClient,
+    SocketModeEnvelopeType
+} from "./socketModeClient";
+import {
+    getEventDedupeKey,
+    ISlackDedupeStore,
+    ISlackEventDeliveryStats,
+    MemoryDedupeStore,
+    SlackEventRetryMode
+} from "./eventDedupe";
+import { ISlackEventRoute, SlackEventRouter } from "./eventRouter";
+import { matchesInteraction } from "./interactionMatching";
+import {
+    ISlackLivingMessageOptions,
+    ISlackLivingMessageStore,
+    SlackLivingMessage,
+    SlackLivingMessages
+} from "./livingMessage";
+import { ISlackMetadataCacheConfig, METADATA_CACHE_EVENTS, SlackMetadataCache } from "./metadataCache";
+import { ISlackEventMap, ISlackPayloadValidationConfig, SlackEventPayload, SlackPayloadValidator } from "./payloads";
+import {
+    DEFAULT_METRICS_PATH,
+    ISlackObservabilityConfig,
+    ObservedWebClient,
+    SlackObservability
+} from "./observability";
+import {
+    collect,
+    ISlackHistoryOptions,
+    ISlackMessage,
+    ISlackPaginationOptions,
+    paginate,
+    toSlackTimestamp
+} from "./conversations";
+import { ISlackAccessControlConfig, ISlackPermissions, SlackAccessControl } from "./accessControl";
+import { ISlackDeliveryConfig, ISlackDeliveryResult, SlackDeliveryKind, SlackDeliveryQueue } from "./delivery";
+import {
+    createMiddlewareContext,
+    ISlackMiddlewareContext,
+    runMiddleware,
+    SlackMiddleware,
+    SlackMiddlewareType
+} from "./middleware";
+import { getInstallationQuery, ISlackInstallation } from "./installationStore";
+import { INSTALL_PATH, ISlackOAuthConfig, REDIRECT_PATH, SlackOAuthInstaller } from "./oauth";
+import { ISlackRateLimitConfig, ScheduledWebClient, SlackRequestScheduler } from "./rateLimiter";
+import {
+    ISlackRecorderConfig,
+    ISlackRecording,
+    parseRecording,
+    SlackRecordingKind,
+    SlackTrafficRecorder
+} from "./recorder";
+import { RESPONSE_URL_MAX_POSTS, ResponseUrlTracker } from "./responseUrl";
+import {
+    ISlackJobStore,
+    ISlackScheduledJob,
+    ISlackScheduleOptions,
+    SlackMessageScheduler
+} from "./scheduledMessages";
+import {
+    getAckTimeout,
+    resolveWithinDeadline,
+    toMessageResponse,
+    toOptionsResponse,
+    toViewSubmissionResponse
+} from "./acknowledgement";
+import {
+    decodePrivateMetadata,
+    encodePrivateMetadata,
+    ISlackViewHandler,
+    ISlackViewOptions,
+    parseViewState,
+    validateForm
+} from "./views";
+import {
+    ISlackWorkflowDefinition,
+    ISlackWorkflowStore,
+    getMetadataWorkflowId,
+    SlackWorkflowEngine,
+    SlackWorkflowTrigger,
+    WORKFLOW_ID_PATTERN
+} from "./workflow";
 
 import createDebug from "debug";
+import getRawBody from "raw-body";
 
 export const logger = createDebug("nexus:connection:slack");
 
+export * from "./accessControl";
+export * from "./blockKit";
+export * from "./commandParser";
+export * from "./conversations";
+export * from "./delivery";
+export * from "./eventDedupe";
+export * from "./eventRouter";
+export * from "./installationStore";
+export * from "./livingMessage";
+export * from "./metadataCache";
+export * from "./middleware";
+export * from "./observability";
+export * from "./payloads";
+export * from "./recorder";
+export { ISlackOAuthConfig } from "./oauth";
+export { ISlackRateLimitConfig, ISlackRateLimitMetrics, ScheduledWebClient, SlackRequestScheduler } from "./rateLimiter";
+export * from "./scheduledMessages";
+export { ISlackSocketModeConfig } from "./socketModeClient";
+export * from "./views";
+export * from "./workflow";
+
 interface ICommandInfo {
     command: string;
     subCommands: SlackSubCommandList;
+    defaultSubCommand?: string;
+    description?: string;
+    middleware?: SlackMiddleware[];
+    permissions?: ISlackPermissions;
 }
 
 type CommandMap = Record<string, ICommandInfo>;
 
+// what the message adapter would have been given for an interaction handler (see addInteraction)
+type SlackInteractionCallback = (payload: SlackPayload) => any;
+
 export type SlackMessage = {
 
     [index: string]: any
@@ -39,6 +160,7 @@ export interface ISlackAckResponse {
     response_type?: string;
     replace_original?: boolean;
     errors?: Record<string, any>;
+    view?: Record<string, any>;
     views?: any;
 }
 
@@ -56,6 +178,13 @@ export interface ISlackCommand {
     command: string;
     subCommandListeners: SlackSubCommandList;
     defaultSubCommand?: string;
+    description?: string;
+
+    // Run (after the global middleware) for every sub-command of this command.
+    middleware?: SlackMiddleware[];
+
+    // Who can use any of the sub-commands.  Checked before the command's middleware.
+    permissions?: ISlackPermissions;
 }
 
 export enum SlackInteractionType {
@@ -66,31 +195,98 @@ export enum SlackInteractionType {
     viewClosed = "viewClosed"
 }
 
-export interface ISlackInteractionHandler {
+/**
+ * Give the payload type to have the handler typed to match (see ISlackInteractionPayloadMap):
+ *
+ *   const approve: ISlackInteractionHandler<ISlackBlockActionsPayload> = {
+ *       type: SlackInteractionType.action,
+ *       matchingConstraints: { actionId: "approve" },
+ *       handler: async (conn, payload) => { ... payload.actions[0].value ... }
+ *   };
+ */
+export interface ISlackInteractionHandler<P = SlackPayload> {
     type: SlackInteractionType;
     matchingConstraints: string | RegExp | ActionConstraints | OptionsConstraints | ViewConstraints;
-    handler: SlackInteractionFunction;
+
+    // A check made on top of the constraints (for things they can't express).
+    matches?: (payload: P) => boolean;
+
+    handler: SlackInteractionFunction<P>;
+    middleware?: SlackMiddleware[];
+    permissions?: ISlackPermissions;
 }
 
 /**
  * COMMANDS
+ *
+ * Sub-commands that declare a schema are also given the parsed arguments.
  */
 export type SlackSubCommandFunction = (conn: SlackConnection,
                                        textWithoutAction: string,
-                                       slackParams: SlackPayload) => Promise<ISlackAckResponse>;
-export type SlackSubCommandList = Record<string, SlackSubCommandFunction>;
+                                       slackParams: SlackPayload,
+                                       args?: ISlackParsedArguments,
+                                       ctx?: ISlackMiddlewareContext) => Promise<ISlackAckResponse>;
+
+/**
+ * A sub-command can be given as just the handler function or as an object that allows for more options.  When
+ * `deferred` is set, Slack is acknowledged right away with the placeholder and the handler is run in the
+ * background.  Its result (or an error) is then posted to the request's response_url.  When `schema` is given, the
+ * text is parsed before the handler is called and the user is shown the usage if it doesn't match.
+ *
+ * Sub-commands can be nested by giving `subCommands` (e.g. `/ticket admin reassign`).  A sub-command with children
+ * does not need its own handler.  If it has one, it is called when none of the children match.  The description and
+ * usage are shown in the automatically generated `help` sub-command.
+ */
+export interface ISlackSubCommand {
+    handler?: SlackSubCommandFunction;
+    deferred?: boolean;
+    placeholder?: ISlackAckResponse | string;
+    schema?: ISlackArgumentSchema;
+    description?: string;
+    usage?: string;
+    subCommands?: SlackSubCommandList;
+    defaultSubCommand?: string;
+    middleware?: SlackMiddleware[];
+
+    // Checked after the permissions of the command (both have to allow the user)
+    permissions?: ISlackPermissions;
+}
+
+export type SlackSubCommandList = Record<string, SlackSubCommandFunction | ISlackSubCommand>;
 
 /*****
  * EVENTS
+ *
+ * Listeners for the events in ISlackEventMap are given the matching payload type.  Other events are untyped.
  */
-export type SlackEventFunction = (conn: SlackConnection, slackParams: SlackPayload) => Promise<ISlackAckResponse>;
+export type SlackEventFunction<E = SlackPayload> = (conn: SlackConnection, slackParams: E,
+                                                    ctx?: ISlackMiddlewareContext) => Promise<ISlackAckResponse>;
+
+export interface ISlackEventHandler<E = SlackPayload> {
+    handler: SlackEventFunction<E>;
+    middleware?: SlackMiddleware[];
+}
 
-export type SlackEventList = Record<string, SlackEventFunction>;
+export type SlackEventList = {
+    [K in keyof ISlackEventMap]?: SlackEventFunction<ISlackEventMap[K]> | ISlackEventHandler<ISlackEventMap[K]>;
+} & Record<string, SlackEventFunction<any> | ISlackEventHandler<any>>;
 
 /*****
  * INTERACTION
  */
-export type SlackInteractionFunction = (conn: SlackConnection, slackParams: SlackPayload) => Promise<ISlackAckResponse>;
+export type SlackInteractionFunction<P = SlackPayload> = (conn: SlackConnection, slackParams: P,
+                                                          ctx?: ISlackMiddlewareContext) => Promise<ISlackAckResponse>;
+
+/*****
+ * ERRORS
+ */
+export interface ISlackErrorContext {
+    source: "command" | "event" | "interaction" | "request";
+    name?: string;
+    payload?: SlackPayload;
+}
+
+export type SlackErrorHandler = (error: Error, context: ISlackErrorContext) => void;
 
 /**
  * These are all the configuration options necessary to integrate your App with slack.  These configuration
@@ -107,15 +303,132 @@ interface ISlackAppConfig {
 
     subApp?: Application;
     eventListeners?: SlackEventList;
-    interactionListeners?: ISlackInteractionHandler[];
+
+    // Handlers that are only called for the events that match their conditions (see ISlackEventRoute).  These are
+    //  called after any listener for the same event type.  More can be added with addEventRoute.
+    eventRoutes?: ISlackEventRoute<any>[];
+
+    interactionListeners?: ISlackInteractionHandler<any>[];
 
     commands?: ISlackCommand[];
 
     incomingWebhooks?: string[];
+
+    // The number of milliseconds to wait for an interaction handler before sending a default acknowledgement
+    // back to Slack.  This cannot be more than 3 seconds.
+    interactionAckTimeout?: number;
+
+    // The message sent back immediately when a deferred sub-command is received.  Individual sub-commands
+    //  can override this with their own placeholder.
+    deferredCommandPlaceholder?: ISlackAckResponse | string;
+
+    // If given, Socket Mode is used instead of the HTTP routes so there's no need for a public endpoint.  The
+    //  subApp is not used in this case.
+    socketMode?: ISlackSocketModeConfig;
+
+    // If given, the app can be installed into multiple workspaces using the /slack/install route.  The tokens
+    //  for each workspace are kept in the installation store and used by getClient.
+    oauth?: ISlackOAuthConfig;
+
+    // Called whenever a handler fails or a request is rejected so that failures can be reported elsewhere.
+    onError?: SlackErrorHandler;
+
+    // The number of seconds either side of now that a request's timestamp can be before it is rejected.
+    replayWindowSeconds?: number;
+
+    // Controls what happens when Slack retries an event delivery.  See SlackEventRetryMode.
+    eventRetryMode?: SlackEventRetryMode;
+
+    // Where the IDs of events that have been received are kept (and for how long) so that duplicate deliveries
+    //  are only handled once.  Defaults to an in-memory store and 10 minutes.
+    eventDedupeStore?: ISlackDedupeStore;
+    eventDedupeTtl?: number;
+
+    // Web API calls are queued so that they stay within Slack's rate limits (see SlackRequestScheduler).  Set
+    //  this to false to send them immediately instead.
+    rateLimiting?: ISlackRateLimitConfig | false;
+
+    // Handlers for the submission (and closing) of views by callback_id.  See ISlackViewHandler.
+    viewHandlers?: ISlackViewHandler<any, any>[];
+
+    // Multi-step workflows (see SlackWorkflowEngine) and where their state is kept.  Defaults to an in-memory store.
+    workflows?: ISlackWorkflowDefinition<any>[];
+    workflowStore?: ISlackWorkflowStore;
+
+    // Where messages that are scheduled locally are kept (see scheduleMessage).  Defaults to an in-memory store.
+    scheduledMessageStore?: ISlackJobStore;
+
+    // Where living messages are kept so that they can be loaded after a restart (see postLivingMessage).  Defaults
+    //  to an in-memory store.
+    livingMessageStore?: ISlackLivingMessageStore;
+
+    // How posts to incoming webhooks and response_urls are retried (see SlackDeliveryQueue).
+    delivery?: ISlackDeliveryConfig;
+
+    // Run before every command, event and interaction handler (see SlackMiddleware).  More can be added with use().
+    middleware?: SlackMiddleware[];
+
+    // How the permissions on commands and interactions are checked and where denials are reported.
+    accessControl?: ISlackAccessControlConfig;
+
+    // Caches users, channels and teams (see SlackMetadataCache).  Set this to false to turn the cache off.
+    metadataCache?: ISlackMetadataCacheConfig | false;
+
+    // Records every request from Slack and every call to Slack (see SlackObservability) and serves the metrics.
+    //  Set this to false to turn it off.
+    observability?: ISlackObservabilityConfig | false;
+
+    // Records the requests that Slack sends (see SlackTrafficRecorder) so that they can be replayed later.
+    recording?: ISlackRecorderConfig;
+
+    // Events and interactions are checked against their types (see SlackPayloadValidator) and any that don't
+    //  match are reported.  Set this to false to skip the checks.
+    payloadValidation?: ISlackPayloadValidationConfig | false;
+
+    // TEST MODE: lets recordings be replayed with replayRecording.  Replayed requests are not signed so never
+    //  turn this on in production.
+    testMode?: boolean;
+}
+
+export interface ISlackDisconnectOptions {
+    // Stop taking new requests (they get a 503 that Slack won't retry) and wait for the handlers that are already
+    //  running before releasing everything.
+    drain?: boolean;
+
+    // How long to wait for running handlers when draining (in milliseconds).  Defaults to 10 seconds.
+    timeout?: number;
+}
+
+export interface ISlackReplayOptions {
+    // How long to wait for handlers that run after the request has been acknowledged (in milliseconds).  Defaults
+    //  to 5 seconds.
+    timeout?: number;
+}
+
+export interface ISlackReplayResult {
+    kind: SlackRecordingKind;
+
+    // What would have been sent back to Slack.
+    response: any;
+
+    // False if handlers were still running when the timeout passed.
+    completed: boolean;
 }
 
 export type SlackWebApiResponse = Record<string, any>;
 
+const DEFAULT_DEFERRED_PLACEHOLDER = ":hourglass_flowing_sand: Working on it...";
+
+// Slack retries a failed delivery up to three times within about five minutes.
+const DEFAULT_EVENT_DEDUPE_TTL = 10 * 60 * 1000;
+
+// The number of view hashes remembered for updateView.
+const MAX_VIEW_HASHES = 1000;
+
+const DEFAULT_DRAIN_TIMEOUT = 10 * 1000;
+
+const DEFAULT_REPLAY_TIMEOUT = 5 * 1000;
+
 /**
  * The slack connection class implements the base Connection and is the Nexus way to establish a foundational
  * integration.  The Slack Connection specifically offers convenience functions in addition to the base "connect"
@@ -136,51 +449,161 @@ export class SlackConnection extends Connection {
     public commands: CommandMap;
     public apiAsApp: WebClient;
     public apiAsBot: WebClient;
+    public responseUrls: ResponseUrlTracker = new ResponseUrlTracker();
+    public socketModeClient: SlackSocketModeClient;
+    public installer: SlackOAuthInstaller;
+    public eventStats: ISlackEventDeliveryStats;
+    public scheduler: SlackRequestScheduler;
+    public workflows: SlackWorkflowEngine;
+    public scheduledMessages: SlackMessageScheduler;
+    public deliveries: SlackDeliveryQueue;
+    public accessControl: SlackAccessControl;
+    public eventRouter: SlackEventRouter;
+    public metadata: SlackMetadataCache;
+    public observability: SlackObservability;
+    public recorder: SlackTrafficRecorder;
+    public livingMessages: SlackLivingMessages;
+    public payloadValidator: SlackPayloadValidator;
+    protected eventDedupeStore: ISlackDedupeStore;
+    protected clientsByToken: Record<string, WebClient>;
+    protected viewHashes: Map<string, string>;
+    protected globalMiddleware: SlackMiddleware[];
+    protected eventListeners: SlackEventList;
+    protected eventAdapterListeners: Map<string, (...args: any[]) => void>;
+    protected interactionCallbacks: Map<ISlackInteractionHandler<any>, SlackInteractionCallback>;
+    protected router: Router;
+    protected routerInstalled: boolean;
+    protected mountedRoutes: Set<string>;
+    protected inFlight: Set<Promise<void>>;
+    protected draining: boolean;
 
     public connect(): SlackConnection {
 
-        this.commands = {};
+        // connecting again without disconnecting first keeps what's already there.
+        if (!this.commands) {
+            this.commands = {};
+        }
+        this.draining = false;
+
+        // the routes are installed on a router of their own which is let go when disconnecting (see release) and
+        //  replaced when connecting again.  The subApp hands requests to whichever router is current.
+        if (this.config.subApp && !this.router) {
+            if (!this.routerInstalled) {
+                this.routerInstalled = true;
+                this.config.subApp.use((req, res, next) => this.router ? this.router(req, res, next) : next());
+            }
+            this.router = Router();
+            this.mountedRoutes = new Set();
+
+            // every route below is behind this so that new requests can be turned away while disconnecting.
+            if (!this.config.socketMode) {
+                this.router.use("/slack", (req, res, next) => this.gateRequest(req, res, next));
+            }
+        }
+
+        if (!this.globalMiddleware) {
+            this.globalMiddleware = [...(this.config.middleware || [])];
+        }
+
+        if (!this.observability && this.config.observability !== false) {
+            this.observability = new SlackObservability(this, this.config.observability || {});
+        }
+        const metricsPath = this.config.observability ? this.config.observability.metricsPath : undefined;
+        if (this.observability && metricsPath !== false) {
+            this.mountRoute(metricsPath || DEFAULT_METRICS_PATH, (_req, res) => {
+                res.type("text/plain; version=0.0.4").send(this.observability.renderMetrics());
+            }, "get");
+        }
+
+        if (!this.recorder && this.config.recording) {
+            this.recorder = new SlackTrafficRecorder(this.config.signingSecret, this.config.recording);
+        }
+        if (this.config.testMode) {
+            logger("TEST MODE is on.  Recordings can be replayed without a signature.");
+        }
+
+        if (!this.metadata && this.config.metadataCache !== false) {
+            this.metadata = new SlackMetadataCache(this, this.config.metadataCache || {});
+        }
+
+        if (!this.payloadValidator && this.config.payloadValidation !== false) {
+            this.payloadValidator = new SlackPayloadValidator(this.config.payloadValidation || {});
+        }
+
+        if (!this.accessControl) {
+            this.accessControl = new SlackAccessControl((payload) => this.getClient(payload),
+                this.config.accessControl);
+        }
+
+        if (!this.deliveries) {
+            this.deliveries = new SlackDeliveryQueue(this.config.delivery, (delivery) =>
+                delivery.kind === "responseUrl" ? this.checkResponseUrl(delivery.url) : undefined);
+        }
+
+        if (!this.scheduler && this.config.rateLimiting !== false) {
+            this.scheduler = new SlackRequestScheduler(this.config.rateLimiting || {});
+        }
 
         // create an api client that uses the *bot* oauth token.  This is required
         // for some endpoints.
         if (!this.apiAsBot && this.config.botUserOAuthToken) {
-            this.apiAsBot = new WebClient(this.config.botUserOAuthToken);
+            this.apiAsBot = this.createWebClient(this.config.botUserOAuthToken);
         }
 
         // create an api client that can be used with the "User" OAuth Token -
         // this is confusing in the docs because it often just called the "token"
         if (!this.apiAsApp && this.config.clientOAuthToken) {
-            this.apiAsApp = new WebClient(this.config.clientOAuthToken);
+            this.apiAsApp = this.createWebClient(this.config.clientOAuthToken);
         }
 
-        // Setup the event adapter if any event listeners have been given.
-        if (!this.eventAdapter && this.config.eventListeners) {
-            this.eventAdapter = createEventAdapter(this.config.signingSecret);
-            for (const name of Object.keys(this.config.eventListeners)) {
+        // Setup the event adapter if any event listeners or routes have been given.
+        if (!this.eventAdapter && (this.config.eventListeners || this.config.eventRoutes)) {
+            this.setupEventAdapter();
+            for (const name of Object.keys(this.eventListeners)) {
                 this.addEvent(name);
             }
-
-            // now register the route with the configured router object.
-            this.config.subApp.use("/slack/events", this.eventAdapter.expressMiddleware());
+            for (const route of this.config.eventRoutes || []) {
+                this.addEventRoute(route);
+            }
         }
 
-        if (!this.messageAdapter && this.config.interactionListeners) {
-            this.messageAdapter = createMessageAdapter(this.config.signingSecret);
+        if (!this.workflows && this.config.workflows) {
+            this.workflows = new SlackWorkflowEngine(this, this.config.workflowStore);
+            for (const definition of this.config.workflows) {
+                this.workflows.register(definition);
+            }
+            this.workflows.startTimer();
+        }
 
-            for (const h of this.config.interactionListeners) {
+        if (!this.messageAdapter &&
+            (this.config.interactionListeners || this.config.viewHandlers || this.config.workflows)) {
+            this.setupMessageAdapter();
+            for (const h of this.config.interactionListeners || []) {
                 this.addInteraction(h);
             }
-
-            // now register the route with the configured router object.
-            this.config.subApp.use("/slack/interactions", this.messageAdapter.expressMiddleware());
+            for (const h of this.config.viewHandlers || []) {
+                this.addViewHandler(h);
+            }
+            if (this.workflows) {
+                this.addWorkflowInteractions();
+            }
         }
 
         if (!this.commandsAdapter && this.config.commands) {
-            this.commandsAdapter = createCommandAdapter(this.config.signingSecret);
+            this.commandsAdapter = createCommandAdapter(this.config.signingSecret, {
+                replayWindowSeconds: this.config.replayWindowSeconds,
+                onError: (err) => this.reportError(err, { source: "request" }),
+                onVerified: (rawBody, headers) => {
+                    if (this.recorder) {
+                        this.recorder.record("command", rawBody, headers, true);
+                    }
+                }
+            });
 
             // now add all the command handlers as given in the config
             for (const cmd of this.config.commands) {
-                this.addCommand(this.config.subApp, cmd.command, cmd.subCommandListeners, cmd.defaultSubCommand);
+                this.addCommand(this.router, cmd.command, cmd.subCommandListeners, cmd.defaultSubCommand,
+                    cmd.description, cmd.middleware, cmd.permissions);
             }
         }
 
@@ -191,16 +614,101 @@ export class SlackConnection extends Connection {
             }
         }
 
+        if (!this.installer && this.config.oauth) {
+            this.installer = new SlackOAuthInstaller(this.config.clientId, this.config.clientSecret, this.config.oauth);
+        }
+        if (this.installer) {
+            this.mountRoute(INSTALL_PATH, (req, res) => this.installer.handleInstall(req, res), "get");
+            this.mountRoute(REDIRECT_PATH, (req, res) => this.installer.handleRedirect(req, res), "get");
+        }
+
+        if (!this.livingMessages) {
+            this.livingMessages = new SlackLivingMessages(this, this.config.livingMessageStore);
+        }
+
+        if (!this.scheduledMessages) {
+            this.scheduledMessages = new SlackMessageScheduler(this, this.config.scheduledMessageStore);
+            this.scheduledMessages.start().catch((err) =>
+                logger("Unable to start the scheduled message timer: " + err.message));
+        }
+
+        // in socket mode, everything that would have come in through the routes above comes over
+        //  a websocket instead.
+        if (!this.socketModeClient && this.config.socketMode) {
+            this.socketModeClient = new SlackSocketModeClient(this.config.socketMode,
+                (type, payload, info) => this.dispatchSocketModeEnvelope(type, payload, info));
+            this.socketModeClient.start().catch((err) =>
+                logger("Unable to connect to Slack using Socket Mode: " + err.message));
+        }
+
         return this;
     }
 
+    /**
+     * Returns the installation for the workspace that the given payload came from.  This will be undefined if
+     * OAuth has not been configured or the app has not been installed in that workspace.
+     * @param payload A command, event or interaction payload.
+     */
+    public async getInstallation(payload: SlackPayload): Promise<ISlackInstallation> {
+        if (!this.installer) {
+            return undefined;
+        }
+
+        const query = getInstallationQuery(payload);
+        if (!query.teamId && !query.enterpriseId) {
+            return undefined;
+        }
+
+        return this.installer.installationStore.fetchInstallation(query);
+    }
+
+    /**
+     * Returns a client that can be used to make API calls in the workspace that the given payload came from.  If
+     * there is no installation for that workspace (or OAuth is not being used) then the clients created from the
+     * tokens in the config are returned instead.
+     * @param payload A command, event or interaction payload.
+     * @param asUser If true, the user token is used instead of the bot token.
+     */
+    public async getClient(payload: SlackPayload, asUser: boolean = false): Promise<WebClient> {
+        const installation = await this.getInstallation(payload);
+        const token = installation ? (asUser ? installation.userToken : installation.botToken) : undefined;
+        if (!token) {
+            return asUser ? this.apiAsApp : this.apiAsBot;
+        }
+
+        if (!this.clientsByToken) {
+            this.clientsByToken = {};
+        }
+        if (!(token in this.clientsByToken)) {
+            this.clientsByToken[token] = this.createWebClient(token, installation.teamId || installation.enterpriseId);
+        }
+        return this.clientsByToken[token];
+    }
+
+    /**
+     * Creates an API client for the given token.  Unless rate limiting has been turned off, every call made with
+     * the client (whether through a named method or apiCall) is queued by the connection's scheduler.
+     * @param token The bot or user token.
+     * @param team The team the token belongs to.  Calls for different teams are queued separately.
+     */
+    public createWebClient(token: string, team?: string): WebClient {
+        if (this.observability) {
+            return new ObservedWebClient(token, this.observability, this.scheduler, team);
+        }
+        if (!this.scheduler) {
+            return new WebClient(token);
+        }
+        return new ScheduledWebClient(token, this.scheduler, team);
+    }
+
     /**
      * Incoming webhooks are special URLs that have been registered with a slack app that allow you to post
-     * to pre-determined channels.
+     * to pre-determined channels.  Failed posts are retried and end up in the dead-letter store if they can't be
+     * delivered (see SlackDeliveryQueue).
      * @param slackChannel The slackChannel url to poosot to.
      * @param payload The payload that you would pass to the IncomingWebhook.send method.
      */
-    public async sendToIncomingWebhook(slackChannel: string, payload: Record<string, any>) {
+    public async sendToIncomingWebhook(slackChannel: string, payload: Record<string, any>): Promise<ISlackMessageResponse> {
         if (!this.incomingWebhooks || !(slackChannel in this.incomingWebhooks)) {
             if (!this.incomingWebhooks) {
                 this.incomingWebhooks = {};
@@ -208,22 +716,30 @@ export class SlackConnection extends Connection {
             this.incomingWebhooks[slackChannel] = new IncomingWebhook((slackChannel));
         }
 
-        try {
-            await this.incomingWebhooks[slackChannel].send(payload);
-        } catch (e) {
-            logger("Slack IncomingWebhook post failed with " + e.message);
+        const result = await this.deliver("webhook", slackChannel, payload);
+        if (!result.success) {
+            logger("Slack IncomingWebhook post failed with " + result.error.message);
         }
+        return {
+            success: result.success,
+            message: result.success ? "Successfully posted to the incoming webhook" :
+                `Post to the incoming webhook failed after ${result.attempts} attempt(s): ${result.error.message}`,
+            error: result.error
+        };
     }
 
     /**
      * Will search a given payload for any items called "text" or "pretext" returning
-     * an array of all the text that is part of it.
+     * an array of all the text that is part of it.  Block Kit blocks are searched for
+     * readable text as well (see extractTextFromBlocks).
      * @param payload The payload to search.
      */
     public extractTextFromPayload(payload: SlackPayload): string[] {
         let text: string[] = [];
         Object.keys(payload).forEach((k: string) => {
-            if (["pretext", "text"].indexOf(k) > -1) {
+            if (k === "blocks" && Array.isArray(payload[k])) {
+                text = text.concat(extractTextFromBlocks(payload[k]));
+            } else if (["pretext", "text"].indexOf(k) > -1 && typeof payload[k] === "string") {
                 text.push(payload[k]);
             } else if (payload[k] === Object(payload[k])) {
                 text = text.concat(this.extractTextFromPayload(payload[k]));
@@ -235,23 +751,80 @@ export class SlackConnection extends Connection {
     }
 
     /**
-     * Gets all messages that are part of the channel thread.  Response documentation available here:
-     * https://api.slack.com/methods/channels.replies
+     * Gets all messages that are part of the channel thread (the parent message first).  Response documentation
+     * available here: https://api.slack.com/methods/conversations.replies
+     * @param channel The channel the thread took place in
+     * @param threadTs The timestamp of the thread.
+     */
+    public async getChannelThread(channel: string, threadTs: string): Promise<ISlackMessage[]> {
+        try {
+            return await collect(this.iterateThreadReplies(channel, threadTs));
+        } catch (e) {
+            throw new Error("Unable to get the channel thread.  Failed with this error: " + e.message);
+        }
+    }
+
+    /**
+     * Returns every message in the thread that the given message is part of.  The message can be the parent of the
+     * thread or any of its replies (see getParentThread).  If the message isn't part of a thread then only the
+     * message itself is returned.
+     * @param msg The message (or an event or payload that contains the message's channel and ts)
+     * @param options Page size and maximum number of messages.
+     */
+    public async getFullThread(msg: SlackMessage, options: ISlackPaginationOptions = {}): Promise<ISlackMessage[]> {
+        const channel = findProperty(msg, "channel");
+        const threadTs = await this.getParentThread(msg) || findProperty(msg, "ts");
+        if (!channel || !threadTs) {
+            return [];
+        }
+        return collect(this.iterateThreadReplies(channel, threadTs, options));
+    }
+
+    /**
+     * Iterates over the messages in a thread (starting with the parent), fetching more pages as needed.
+     * https://api.slack.com/methods/conversations.replies
+     *
+     *   for await (const reply of conn.iterateThreadReplies(channel, threadTs)) { ... }
+     *
      * @param channel The channel the thread took place in
      * @param threadTs The timestamp of the thread.
+     * @param options Page size, maximum number of messages and the time range.
      */
-    public async getChannelThread(channel: string, threadTs: string): Promise<SlackMessage[]> {
-        const threadMessages = await this.apiAsApp.conversations.replies({
+    public iterateThreadReplies(channel: string, threadTs: string,
+                                options: ISlackHistoryOptions = {}): AsyncIterableIterator<ISlackMessage> {
+        return paginate<ISlackMessage>(this.apiAsApp, "conversations.replies", {
+            channel,
             ts: threadTs,
+            oldest: toSlackTimestamp(options.oldest),
+            latest: toSlackTimestamp(options.latest),
+            inclusive: options.inclusive
+        }, "messages", options);
+    }
+
+    /**
+     * Iterates over the messages in a channel, newest first, fetching more pages as needed.  Use the oldest and
+     * latest options to limit it to a range of time.  Thread replies are not included.
+     * https://api.slack.com/methods/conversations.history
+     * @param channel The channel to read.
+     * @param options Page size, maximum number of messages and the time range.
+     */
+    public iterateChannelHistory(channel: string, options: ISlackHistoryOptions = {}): AsyncIterableIterator<ISlackMessage> {
+        return paginate<ISlackMessage>(this.apiAsApp, "conversations.history", {
             channel,
-            limit: 10
-        }) as SlackPayload;
+            oldest: toSlackTimestamp(options.oldest),
+            latest: toSlackTimestamp(options.latest),
+            inclusive: options.inclusive
+        }, "messages", options);
+    }
 
-        if (threadMessages && threadMessages.ok) {
-            return threadMessages.messages;
-        } else {
-            throw new Error("Unable to get the channel thread.  Failed with this error: " + threadMessages.error);
-        }
+    /**
+     * Iterates over the IDs of the users in a channel, fetching more pages as needed.
+     * https://api.slack.com/methods/conversations.members
+     * @param channel The channel to list the members of.
+     * @param options Page size and maximum number of members.
+     */
+    public iterateChannelMembers(channel: string, options: ISlackPaginationOptions = {}): AsyncIterableIterator<string> {
+        return paginate<string>(this.apiAsApp, "conversations.members", { channel }, "members", options);
     }
 
     /**
@@ -271,14 +844,20 @@ export class SlackConnection extends Connection {
 
             if (channel && ts) {
                 const fullMessage = await this.getMessageFromChannelAndTs(channel, ts);
-                return findProperty(fullMessage, "thread_ts");
+                return fullMessage ? fullMessage.thread_ts : undefined;
             }
         }
 
         return undefined;
     }
 
-    public async getMessageFromChannelAndTs(channel: string, ts: string): Promise<SlackMessage> {
+    /**
+     * Gets a single message.  Thread replies aren't part of the channel history so if the message isn't found
+     * there, the replies to it are checked instead (Slack returns the reply itself when given a reply's ts).
+     * @param channel The channel the message is in.
+     * @param ts The timestamp of the message.
+     */
+    public async getMessageFromChannelAndTs(channel: string, ts: string): Promise<ISlackMessage> {
         // the reaction event doesn't have the message details.
         const history = await this.apiAsApp.conversations.history({
             latest: ts,
@@ -287,12 +866,19 @@ export class SlackConnection extends Connection {
             inclusive: true
         });
 
-        const messages = history ? history.messages as Record<string, any>[] : undefined;
+        const messages = history ? history.messages as ISlackMessage[] : undefined;
+        if (messages && messages.length > 0 && messages[0].ts === ts) {
+            return messages[0];
+        }
 
-        if (!messages || messages.length === 0) {
+        try {
+            const replies = await this.apiAsApp.conversations.replies({ channel, ts, limit: 1 });
+            const replyMessages = replies ? replies.messages as ISlackMessage[] : undefined;
+            return replyMessages ? replyMessages.find((m) => m.ts === ts) : undefined;
+        } catch (e) {
+            // thread_not_found means there's no message with that ts.
+            logger(`Unable to find message ${ts} in ${channel}: ${e.message}`);
             return undefined;
-        } else {
-            return messages[0];
         }
     }
 
@@ -307,7 +893,9 @@ export class SlackConnection extends Connection {
      * https://api.slack.com/interactivity/handling#responses
      *
      * This is a thin wrapper around the message response.  Given the original message data, it will confirm
-     * that the response URL is there then post to the URL with the given data.
+     * that the response URL is there then post to the URL with the given data.  Posts that would exceed Slack's
+     * limits (see getResponseUrlPostsRemaining) are not sent and return an unsuccessful response instead.  Posts
+     * that fail are retried and end up in the dead-letter store if they can't be delivered (see SlackDeliveryQueue).
      *
      * @param slackRequestData The data received during the original request
      * @param messageResponseData The data to send with the message response.  This data will be used to construct
@@ -320,160 +908,1146 @@ export class SlackConnection extends Connection {
             throw new Error("The given slack message does not have a response URL");
         }
 
-        return axios.post(responseUrl, messageResponseData)
-            .then((_resp: AxiosResponse) => {
-                return {
-                    success: true,
-                    message: `Successfully posted message response`,
-                    error: undefined
-                };
-            })
-            .catch((err: AxiosError) => {
-                return {
-                    success: false,
-                    message: `Post to slack for command response failed with error code 
-                            ${err.code}: ${err.message}`,
-                    error: err
-                };
-            });
+        const channel = slackRequestData.channel_id || (slackRequestData.channel && slackRequestData.channel.id);
+        const result = await this.deliver("responseUrl", responseUrl, messageResponseData, channel);
+        return {
+            success: result.success,
+            message: result.success ? "Successfully posted message response" :
+                `Post to slack for command response failed after ${result.attempts} attempt(s): ${result.error.message}`,
+            error: result.error
+        };
     }
 
     /**
-     * Adds a new command to the list of commands that can be handled by this adapter.  It will
-     * use the given router as its base for adding new routes.
-     * @param router
-     * @param command
-     * @param subCommands
-     * @param defaultSubCommand
+     * Returns the number of times that the response_url in the given request can still be posted to.  This will
+     * be zero if it has been more than 30 minutes since the request was received.
+     * @param slackRequestData The data received during the original request
      */
-    public addCommand(router: Router, command: string,
-                      subCommands: SlackSubCommandList, defaultSubCommand?: string): boolean {
-
-        if (command in this.commands) {
-            throw new Error("You cannot add the same command twice to a Command Adapter");
-        }
-
-        this.commands[command] = { command, subCommands };
-
-        const subCommandNames = Object.keys(subCommands);
-        if (subCommandNames.length === 0) {
-            throw new Error("You have to specify at least one sub-command even if there's only one.  It will be " +
-                "used as the default sub-command so the user will never have to enter it.");
-        }
-        if (defaultSubCommand && !(defaultSubCommand in subCommands)) {
-            throw new Error("You have specified a default sub-command that is not in the list of sub-commands");
-        }
-
-        if (!defaultSubCommand && subCommandNames.length === 1) {
-            defaultSubCommand = subCommandNames[0];
+    public getResponseUrlPostsRemaining(slackRequestData: Record<string, any>): number {
+        const responseUrl = slackRequestData.response_url;
+        if (!responseUrl) {
+            return 0;
         }
+        return this.responseUrls.remaining(responseUrl);
+    }
 
-        const commandRoute = `/slack/commands/${command}`;
-
-        // install the middleware that will validate incoming slack signatures.
-        router.post(commandRoute, this.commandsAdapter.expressMiddleware(), async (req, res) => {
-            if (req.body.text === undefined) {
-                // this is not a proper slack request so pretend there's nothing here.
-                return res.json({
-                    code: 400,
-                    message: "Invalid slack request"
-                });
-            }
-
-            const parts = req.body.text.split(" ");
-            let actionStr = parts.length === 0 ? "" : parts[0].toLowerCase();
-            let textAfterSubCommand = "";
-            if (actionStr && !(actionStr in subCommands)) {
-                // in this case there's something after the command but it's not one of the subcommands
-                //  so treat it as if there's no subcommand..
-                actionStr = "";
-                textAfterSubCommand = parts.join(" ");
-                if (defaultSubCommand) {
-                    actionStr = defaultSubCommand;
-                }
-
-            } else if (!actionStr) {
-                // in this case there's nothing following the command so use the default.
-                if (defaultSubCommand) {
-                    actionStr = defaultSubCommand;
-                }
-            } else if (actionStr && (actionStr in subCommands)) {
-                // in this case there is a valid subcommand.  So the only
-                //  thing we have to do is grab the text  after the subcommand to
-                //  pass into the subcommand handler.
-                textAfterSubCommand = parts.length > 1 ? parts.slice(1) : "";
-            }
-
-            if (!actionStr) {
-                return res.json({
-                    text: `:x: *You must provide one of the following actions: 
-                                ${Object.keys(subCommands).join(",")}*`
-                });
-            }
-
-            assert(actionStr in subCommands, "Received Slack command event but requested action not defined in module config");
-            const actionFunc = subCommands[actionStr];
+    /**
+     * Posts a message at a later time.  Slack holds on to the message (using chat.scheduleMessage) unless it has a
+     * condition, is more than 120 days away or is due within the next minute, in which case it is kept in the
+     * scheduled message store and sent from here.
+     *
+     *   // ping the assignee in 2 hours if nobody has replied to the thread
+     *   await conn.scheduleMessage(channel, { text: `<@${assignee}> any update?`, thread_ts: threadTs },
+     *       Date.now() + 2 * 60 * 60 * 1000,
+     *       { condition: { type: "noRepliesSince", channel, threadTs, since: latestTs } });
+     *
+     * @param channel The channel to post to.
+     * @param message The message (as it would be given to chat.postMessage)
+     * @param postAt When to post it.
+     * @param options A condition to check just before sending.
+     */
+    public scheduleMessage(channel: string, message: Record<string, any>, postAt: Date | number,
+                           options: ISlackScheduleOptions = {}): Promise<ISlackScheduledJob> {
+        return this.scheduledMessages.schedule(channel, message, postAt, options);
+    }
 
-            // we call the command and exclude the first word in the body of the text (if a command was given).
-            // NOTE: This call MUST return within 3 seconds or Slack will assume we're not responding.
-            const result = await actionFunc(this, textAfterSubCommand, req.body);
+    /**
+     * Returns the scheduled messages that have not been sent yet (soonest first)
+     */
+    public listScheduledMessages(): Promise<ISlackScheduledJob[]> {
+        return this.scheduledMessages.list();
+    }
 
-            return res.json(result.body).status(result.code);
-        });
+    /**
+     * Cancels a scheduled message.  Returns false if there is no such message.
+     * @param id The ID of the job returned by scheduleMessage.
+     */
+    public cancelScheduledMessage(id: string): Promise<boolean> {
+        return this.scheduledMessages.cancel(id);
+    }
 
-        return true;
+    /**
+     * Posts a message that can be kept up to date as work progresses (see SlackLivingMessage).
+     *
+     *   const status = await conn.postLivingMessage(channel, "Deploying...", { id: `deploy-${deployId}` });
+     *   status.update({ text: "Deploying... 50%" });
+     *   await status.reply("Migrations finished");
+     *   await status.react("white_check_mark");
+     *
+     * @param channel The channel (or user) to post to.
+     * @param message The message (text, blocks, etc.)
+     * @param options An ID that it can be loaded with later, a thread to post in, etc.
+     */
+    public postLivingMessage(channel: string, message: Record<string, any> | string,
+                             options?: ISlackLivingMessageOptions): Promise<SlackLivingMessage> {
+        return this.livingMessages.post(channel, message, options);
     }
 
-    public disconnect(): boolean {
-        return true;
+    /**
+     * Returns the handle for a living message that was posted earlier (even before a restart if the store is
+     * persistent) or undefined if there is no such message.
+     * @param id The ID of the message.
+     */
+    public loadLivingMessage(id: string): Promise<SlackLivingMessage> {
+        return this.livingMessages.load(id);
     }
 
-    private addEvent(name: string) {
+    /**
+     * Adds (or replaces) the listener for an event type.  This can be done at any time after connecting.
+     * @param name The event type.
+     * @param listener The handler (with optional middleware)
+     */
+    public addEventListener<K extends string>(name: K, listener: SlackEventFunction<SlackEventPayload<K>> |
+                                                  ISlackEventHandler<SlackEventPayload<K>>): SlackConnection {
         if (!this.eventAdapter) {
-            throw new Error("Trying to add an event without calling connect first");
+            this.setupEventAdapter();
         }
+        (this.eventListeners as Record<string, SlackEventFunction<any> | ISlackEventHandler<any>>)[name] = listener;
+        this.addEvent(name);
+        return this;
+    }
 
-        this.eventAdapter.on(name, (eventPayload) => {
-            this.config.eventListeners[name](this, eventPayload);
-        });
+    /**
+     * Removes the listener for an event type.  Returns false if there wasn't one.
+     * @param name The event type.
+     */
+    public removeEventListener(name: string): boolean {
+        if (!this.eventListeners || !(name in this.eventListeners)) {
+            return false;
+        }
+        delete this.eventListeners[name];
+        if (!this.eventRouter || !this.eventRouter.hasRoutes(name)) {
+            this.removeEvent(name);
+        }
+        return true;
     }
 
-    private addInteraction(handler: ISlackInteractionHandler) {
+    /**
+     * Adds an interaction handler.  This can be done at any time after connecting.
+     * @param handler The handler and what it matches.
+     */
+    public addInteractionHandler<P = SlackPayload>(handler: ISlackInteractionHandler<P>): SlackConnection {
         if (!this.messageAdapter) {
-            throw new Error("Trying to add an interaction handler without calling connect first");
+            this.setupMessageAdapter();
         }
+        this.addInteraction(handler);
+        return this;
+    }
 
-        if (handler.type === SlackInteractionType.action) {
-            this.messageAdapter.action(handler.matchingConstraints, async (payload, _respond) => {
-                handler.handler(this, payload).catch((err) => logger("actions handler failed: " + err.toString()));
-            });
-        } else if (handler.type === SlackInteractionType.option) {
-            this.messageAdapter.options(handler.matchingConstraints as OptionsConstraints,
-                async (payload) => {
-                    handler.handler(this, payload).catch((err) => logger("options handler failed: " + err.toString()));
-                });
-        } else if (handler.type === SlackInteractionType.shortcut) {
-            this.messageAdapter.shortcut(handler.matchingConstraints as OptionsConstraints,
-                async (payload) => {
-                    handler.handler(this, payload).catch((err) => logger("shortcut handler failed: " + err.toString()));
-                });
-        } else if (handler.type === SlackInteractionType.viewClosed) {
-            this.messageAdapter.viewClosed(handler.matchingConstraints as ViewConstraints,
-                async (payload) => {
-                    handler.handler(this, payload).catch((err) =>
-                        logger("viewClosed handler failed: " + err.toString()));
-                });
+    /**
+     * Removes an interaction handler.  Returns false if it wasn't there.
+     * @param handler The same object that was added (or given in the config)
+     */
+    public removeInteractionHandler(handler: ISlackInteractionHandler<any>): boolean {
+        return this.interactionCallbacks ? this.interactionCallbacks.delete(handler) : false;
+    }
+
+    /**
+     * Adds a handler for the events that match the route's conditions.  Events from the app itself never match.
+     * @param route The event type, conditions and handler (see ISlackEventRoute)
+     */
+    public addEventRoute<K extends string>(route: ISlackEventRoute<K>): SlackConnection {
+        if (!this.eventAdapter) {
+            this.setupEventAdapter();
+        }
+        if (!this.eventRouter) {
+            this.eventRouter = new SlackEventRouter(this);
+        }
+
+        this.eventRouter.addRoute(route);
+        this.addEvent(route.event);
+        return this;
+    }
+
+    /**
+     * Removes a route that was added with addEventRoute (or given in the config).  Returns false if it wasn't there.
+     * @param route The same object that was added.
+     */
+    public removeEventRoute(route: ISlackEventRoute<any>): boolean {
+        return this.eventRouter ? this.eventRouter.removeRoute(route) : false;
+    }
+
+    /**
+     * Adds middleware that runs before every command, event and interaction handler (after any that were given in
+     * the config).
+     * @param middleware The middleware to add.
+     */
+    public use(middleware: SlackMiddleware): SlackConnection {
+        if (!this.globalMiddleware) {
+            this.globalMiddleware = [];
+        }
+        this.globalMiddleware.push(middleware);
+        return this;
+    }
+
+    /**
+     * Opens a modal in response to an interaction or command.
+     * https://api.slack.com/methods/views.open
+     * @param triggerId The trigger_id from the payload (valid for 3 seconds)
+     * @param view The modal to open (see ModalBuilder)
+     * @param options Metadata to store in the view and the workspace to open it in.
+     */
+    public async openView<M = any>(triggerId: string, view: Record<string, any>,
+                                   options: ISlackViewOptions<M> = {}): Promise<Record<string, any>> {
+        const client = await this.getClient(options.teamId ? { team_id: options.teamId } : {});
+        const result = await client.views.open({
+            trigger_id: triggerId,
+            view: this.prepareView(view, options)
+        });
+        return this.rememberViewHash(result.view as Record<string, any>);
+    }
+
+    /**
+     * Pushes a modal on top of the one the interaction came from.  There can be at most three views in the stack.
+     * https://api.slack.com/methods/views.push
+     * @param triggerId The trigger_id from the payload (valid for 3 seconds)
+     * @param view The modal to push (see ModalBuilder)
+     * @param options Metadata to store in the view and the workspace to open it in.
+     */
+    public async pushView<M = any>(triggerId: string, view: Record<string, any>,
+                                   options: ISlackViewOptions<M> = {}): Promise<Record<string, any>> {
+        const client = await this.getClient(options.teamId ? { team_id: options.teamId } : {});
+        const result = await client.views.push({
+            trigger_id: triggerId,
+            view: this.prepareView(view, options)
+        });
+        return this.rememberViewHash(result.view as Record<string, any>);
+    }
+
+    /**
+     * Replaces an open view.  The hash of the view being replaced is sent along so that Slack rejects the update
+     * (with a hash_conflict error) if the view has changed since we last saw it.  Unless a hash is given, the hash
+     * from the view object or the last one we saw (from a response or interaction payload) is used.
+     * https://api.slack.com/methods/views.update
+     * @param existing The ID of the view or the view itself (e.g. payload.view)
+     * @param view The new view.
+     * @param options Metadata to store in the view, the hash to check against and the workspace.
+     */
+    public async updateView<M = any>(existing: string | Record<string, any>, view: Record<string, any>,
+                                     options: ISlackViewOptions<M> = {}): Promise<Record<string, any>> {
+        const viewId = typeof existing === "string" ? existing : existing.id;
+        const hash = options.hash || (typeof existing === "string" ? undefined : existing.hash) ||
+            (this.viewHashes ? this.viewHashes.get(viewId) : undefined);
+
+        const teamId = options.teamId || (typeof existing === "string" ? undefined : existing.team_id);
+
+        const args: ViewsUpdateArguments = { view_id: viewId, view: this.prepareView(view, options) };
+        if (hash) {
+            args.hash = hash;
+        }
+        const client = await this.getClient(teamId ? { team_id: teamId } : {});
+        const result = await client.views.update(args);
+        return this.rememberViewHash(result.view as Record<string, any>);
+    }
+
+    /**
+     * Adds a handler for the views with the given callback_id.  This can be done in the config as well (see
+     * viewHandlers).
+     * @param handler The handler to add.
+     */
+    public addViewHandler<F = any, M = any>(handler: ISlackViewHandler<F, M>) {
+        if (handler.onSubmit || handler.validate) {
+            this.addInteraction({
+                type: SlackInteractionType.viewSubmission,
+                matchingConstraints: { callbackId: handler.callbackId },
+                handler: async (conn, payload) => {
+                    this.rememberViewHash(payload.view);
+                    const form = parseViewState<F>(payload);
+                    if (handler.validate) {
+                        const errors = validateForm(payload.view, form, handler.validate);
+                        if (errors) {
+                            return errors;
+                        }
+                    }
+                    if (!handler.onSubmit) {
+                        return undefined;
+                    }
+                    const ack = await handler.onSubmit(conn, {
+                        form,
+                        metadata: decodePrivateMetadata<M>(payload),
+                        view: payload.view,
+                        user: payload.user,
+                        payload
+                    });
+                    return ack || undefined;
+                }
+            });
+        }
+
+        if (handler.onClose) {
+            this.addInteraction({
+                type: SlackInteractionType.viewClosed,
+                matchingConstraints: { callbackId: handler.callbackId },
+                handler: async (conn, payload) => {
+                    await handler.onClose(conn, {
+                        form: parseViewState<F>(payload),
+                        metadata: decodePrivateMetadata<M>(payload),
+                        view: payload.view,
+                        user: payload.user,
+                        payload
+                    });
+                    return undefined;
+                }
+            });
+        }
+    }
+
+    /**
+     * Adds a new command to the list of commands that can be handled by this adapter.  It will
+     * use the given router as its base for adding new routes.
+     * @param router
+     * @param command
+     * @param subCommands
+     * @param defaultSubCommand
+     * @param description Shown at the top of the generated help.
+     * @param middleware Run for every sub-command of this command.
+     * @param permissions Who can use the command.
+     */
+    public addCommand(router: Router, command: string,
+                      subCommands: SlackSubCommandList, defaultSubCommand?: string, description?: string,
+                      middleware?: SlackMiddleware[], permissions?: ISlackPermissions): boolean {
+
+        if (command in this.commands) {
+            throw new Error("You cannot add the same command twice to a Command Adapter");
+        }
+
+        const subCommandNames = Object.keys(subCommands);
+        if (subCommandNames.length === 0) {
+            throw new Error("You have to specify at least one sub-command even if there's only one.  It will be " +
+                "used as the default sub-command so the user will never have to enter it.");
+        }
+        if (defaultSubCommand && !(defaultSubCommand in subCommands)) {
+            throw new Error("You have specified a default sub-command that is not in the list of sub-commands");
+        }
+
+        validateSubCommandTree(subCommands);
+
+        if (!defaultSubCommand && subCommandNames.length === 1) {
+            defaultSubCommand = subCommandNames[0];
+        }
+
+        this.commands[command] = { command, subCommands, defaultSubCommand, description, middleware, permissions };
+
+        // in socket mode there's no route to install.  Commands arrive over the socket instead.
+        if (!router || this.config.socketMode) {
+            return true;
+        }
+
+        // the route stays installed when the command is removed (it will say the command isn't supported) so it's
+        //  only installed once.
+        const commandRoute = `/slack/commands/${command}`;
+        if (router === this.config.subApp) {
+            router = this.router;
+        }
+        if (router === this.router) {
+            if (this.mountedRoutes.has(commandRoute)) {
+                return true;
+            }
+            this.mountedRoutes.add(commandRoute);
+        }
+
+        // install the middleware that will validate incoming slack signatures.
+        router.post(commandRoute, (req, res, next) => {
+            if (!this.commandsAdapter) {
+                return next();
+            }
+            return this.commandsAdapter.expressMiddleware()(req, res, next);
+        }, async (req, res) => {
+            try {
+                const result = await this.dispatchCommand(command, req.body);
+                return res.status(result.code || 200).json(result.body);
+            } catch (err) {
+                this.reportError(err, { source: "command", name: `/${command}`, payload: req.body });
+                return res.status(200).json(this.getCommandErrorMessage(command, err));
+            }
+        });
+
+        return true;
+    }
+
+    /**
+     * TEST MODE ONLY: sends a recording through the handlers as if Slack had just sent it.  There is no signature
+     * to check so this only works when the connection was created with testMode.  Resolves once the handlers have
+     * finished (or the timeout has passed).
+     * @param recording The recording (from the recorder's store)
+     * @param options How long to wait for the handlers.
+     */
+    public async replayRecording(recording: ISlackRecording, options: ISlackReplayOptions = {}): Promise<ISlackReplayResult> {
+        if (!this.config.testMode) {
+            throw new Error("Recordings can only be replayed in test mode since they skip the signature check");
+        }
+
+        const payload = parseRecording(recording);
+        let response: any;
+        if (recording.kind === "command") {
+            response = await this.dispatchCommand((payload.command || "").replace(/^\//, ""), payload);
+        } else if (recording.kind === "event") {
+            if (payload.event) {
+                await this.dispatchEvent(payload.event.type, payload.event, payload);
+            }
+        } else if (recording.kind === "interaction") {
+            if (!this.messageAdapter) {
+                throw new Error("There are no interaction handlers to replay the recording with");
+            }
+            const result = await this.messageAdapter.dispatch(payload);
+            response = result ? result.content : undefined;
+        }
+
+        const completed = await this.waitForInFlight(options.timeout === undefined ?
+            DEFAULT_REPLAY_TIMEOUT : options.timeout);
+        return { kind: recording.kind, response, completed };
+    }
+
+    /**
+     * Removes a command.  Returns false if there was no such command.
+     * @param command The name of the command (without the slash)
+     */
+    public removeCommand(command: string): boolean {
+        if (!(command in this.commands)) {
+            return false;
+        }
+        delete this.commands[command];
+        return true;
+    }
+
+    /**
+     * Sends the error to the configured error handler (if any) and logs it.  Problems with the error handler
+     * itself are logged and otherwise ignored.
+     * @param error The error that occurred.
+     * @param context Where the error occurred.
+     */
+    public reportError(error: Error, context: ISlackErrorContext) {
+        logger(`${context.source}${context.name ? " " + context.name : ""} failed: ` +
+            (error ? error.toString() : "unknown error"));
+
+        if (this.config.onError) {
+            try {
+                this.config.onError(error, context);
+            } catch (e) {
+                logger("the onError handler failed: " + e.toString());
+            }
+        }
+    }
+
+    /**
+     * Returns the message shown to the user when a sub-command fails.
+     * @param name The sub-command (including any parent sub-commands)
+     * @param error The error that was thrown.
+     */
+    public getCommandErrorMessage(name: string, error: Error): Record<string, any> {
+        return {
+            response_type: "ephemeral",
+            text: `:x: *The \`${name}\` command failed*: ${error && error.message ? error.message : "unknown error"}`
+        };
+    }
+
+    /**
+     * Finds and runs the sub-command for the given slash command request.  This is used for requests that come
+     * in over HTTP and over the socket in Socket Mode.  The result is the acknowledgement to send back to Slack.
+     * @param command The name of the command (without the slash)
+     * @param body The parsed slash command payload.
+     */
+    public async dispatchCommand(command: string, body: SlackPayload): Promise<ISlackAckResponse> {
+        if (!(command in this.commands)) {
+            return { code: 404, body: { text: `:x: The command \`/${command}\` is not supported` } };
+        }
+
+        const { subCommands, defaultSubCommand, description, middleware, permissions } = this.commands[command];
+
+        if (body.text === undefined) {
+            // this is not a proper slack request so pretend there's nothing here.
+            return {
+                body: {
+                    code: 400,
+                    message: "Invalid slack request"
+                }
+            };
+        }
+
+        if (body.response_url) {
+            this.responseUrls.register(body.response_url);
+        }
+
+        const resolution = resolveSubCommand(subCommands, defaultSubCommand, body.text);
+
+        if (resolution.help) {
+            return { body: buildHelpMessage(command, description, subCommands, resolution.helpPath) };
+        }
+
+        if (resolution.unknown) {
+            const suggestions = resolution.suggestions.map((name) => "`" + name + "`").join(" or ");
+            return {
+                body: {
+                    response_type: "ephemeral",
+                    text: `:x: \`${resolution.unknown}\` is not a sub-command of ` +
+                        `\`${["/" + command].concat(resolution.path).join(" ")}\`.  Did you mean ${suggestions}?`
+                }
+            };
+        }
+
+        if (!resolution.subCommand) {
+            // there's nothing to run at the point the user got to so show them what they can do from here.
+            return { body: buildHelpMessage(command, description, subCommands, resolution.path) };
+        }
+
+        const subCommand = resolution.subCommand;
+        const actionStr = resolution.path.join(" ");
+        const actionFunc = subCommand.handler;
+        const textAfterSubCommand = resolution.text;
+
+        // if the sub-command has declared what it expects then validate it now so that the user
+        //  gets the usage right away.
+        let args: ISlackParsedArguments;
+        if (subCommand.schema) {
+            try {
+                args = parseArguments(textAfterSubCommand, subCommand.schema);
+            } catch (e) {
+                if (!(e instanceof SlackArgumentError)) {
+                    throw e;
+                }
+                return {
+                    body: {
+                        response_type: "ephemeral",
+                        text: `:x: ${e.message}\n*Usage:* ` + formatUsage(`/${command} ${actionStr}`, subCommand.schema)
+                    }
+                };
+            }
+        }
+
+        const ctx = createMiddlewareContext("command", ["/" + command].concat(resolution.path).join(" "), body);
+        let handled = false;
+        const response = await this.runWithMiddleware(ctx, [this.getPermissionMiddleware(permissions), middleware,
+            this.getPermissionMiddleware(subCommand.permissions), subCommand.middleware], async () => {
+            handled = true;
+            if (subCommand.deferred) {
+                // acknowledge right away and let the handler take as long as it needs.  The result is
+                //  posted to the response_url when it's done.
+                this.track(this.runDeferredSubCommand(actionStr, actionFunc, textAfterSubCommand, body, args, ctx));
+                return { body: toMessageResponse(this.getDeferredPlaceholder(subCommand)) };
+            }
+
+            // we call the command and exclude the first word in the body of the text (if a command was given).
+            // NOTE: This call MUST return within 3 seconds or Slack will assume we're not responding.
+            try {
+                const result = await actionFunc(this, textAfterSubCommand, body, args, ctx);
+                return result || {};
+            } catch (err) {
+                // Slack shows its own unhelpful message for anything other than a 200 so tell the user what happened.
+                ctx.error = err;
+                this.reportError(err, { source: "command", name: `/${command} ${actionStr}`, payload: body });
+                return { code: 200, body: this.getCommandErrorMessage(actionStr, err) };
+            }
+        });
+
+        // middleware that stopped the command can give a message the same way an interaction handler would.
+        if (!handled && response && !response.body) {
+            return { code: response.code, body: toMessageResponse(response) };
+        }
+        return response || {};
+    }
+
+    /**
+     * Stops taking requests and releases the adapters, handlers and timers.  With `drain`, handlers that are already
+     * running are given time to finish first (use shutdown to find out when that's done).  The connection can be
+     * connected again afterwards.
+     * @param options Whether to drain and for how long.
+     */
+    public disconnect(options: ISlackDisconnectOptions = {}): boolean {
+        this.shutdown(options).catch((err) => logger("Unable to disconnect cleanly: " + err.message));
+        return true;
+    }
+
+    /**
+     * The same as disconnect but resolves once everything has been released.  Resolves with false if handlers were
+     * still running when the drain timeout passed.
+     * @param options Whether to drain and for how long.
+     */
+    public async shutdown(options: ISlackDisconnectOptions = {}): Promise<boolean> {
+        this.draining = true;
+
+        if (this.socketModeClient) {
+            this.socketModeClient.stop();
+            this.socketModeClient = undefined;
+        }
+        if (this.workflows) {
+            this.workflows.stopTimer();
+        }
+        if (this.scheduledMessages) {
+            this.scheduledMessages.stop();
+        }
+
+        let drained = true;
+        if (options.drain) {
+            if (this.livingMessages) {
+                await this.livingMessages.flushAll();
+            }
+            drained = await this.waitForInFlight(options.timeout === undefined ? DEFAULT_DRAIN_TIMEOUT : options.timeout);
+        }
+
+        this.release();
+        return drained;
+    }
+
+    /**
+     * Sends an envelope received in Socket Mode to the same handlers that would have received it over HTTP.  The
+     * result is the payload of the acknowledgement.
+     * @param type The type of envelope
+     * @param payload The body of the request that would have been sent over HTTP.
+     * @param info Details about the envelope.
+     */
+    private async dispatchSocketModeEnvelope(type: SocketModeEnvelopeType, payload: SlackPayload,
+                                             info: ISocketModeEnvelopeInfo): Promise<any> {
+        if (type === "events_api") {
+            if (this.eventAdapter && payload.type === "event_callback" && payload.event) {
+                // give the listeners the same headers they would have seen over HTTP.
+                const headers: Record<string, string> = {};
+                if (info.retryAttempt) {
+                    headers["x-slack-retry-num"] = String(info.retryAttempt);
+                    headers["x-slack-retry-reason"] = info.retryReason;
+                }
+                this.eventAdapter.emit(payload.event.type, payload.event, payload, headers);
+            }
+            return undefined;
+        }
+
+        if (type === "interactive") {
+            const result = this.messageAdapter ? await this.messageAdapter.dispatch(payload) : undefined;
+            return result ? result.content : undefined;
+        }
+
+        if (type === "slash_commands") {
+            const command = (payload.command || "").replace(/^\//, "");
+            const result = await this.dispatchCommand(command, payload);
+            return result.body;
+        }
+
+        logger(`Received an unsupported Socket Mode envelope of type ${type}`);
+        return undefined;
+    }
+
+    /**
+     * Returns the message that should be sent immediately when a deferred sub-command is received.
+     * @param subCommand The sub-command that was requested.
+     */
+    private getDeferredPlaceholder(subCommand: ISlackSubCommand): ISlackAckResponse {
+        const placeholder = subCommand.placeholder || this.config.deferredCommandPlaceholder ||
+            DEFAULT_DEFERRED_PLACEHOLDER;
+        if (typeof placeholder === "string") {
+            return { text: placeholder, response_type: "ephemeral" };
+        }
+        return placeholder;
+    }
+
+    /**
+     * Runs a deferred sub-command handler and posts whatever it returns to the response_url.  If the handler
+     * fails then the error is posted instead so the user isn't left waiting.
+     */
+    private async runDeferredSubCommand(name: string, handler: SlackSubCommandFunction,
+                                        textWithoutAction: string, slackParams: SlackPayload,
+                                        args: ISlackParsedArguments, ctx: ISlackMiddlewareContext) {
+        let message: Record<string, any>;
+        try {
+            const result = await handler(this, textWithoutAction, slackParams, args, ctx);
+            message = toMessageResponse(result);
+        } catch (err) {
+            ctx.error = err;
+            this.reportError(err, { source: "command", name, payload: slackParams });
+            message = this.getCommandErrorMessage(name, err);
+        }
+
+        if (!message) {
+            return;
+        }
+
+        if (!slackParams.response_url) {
+            logger(`deferred sub-command ${name} completed but there is no response_url to post the result to`);
+            return;
+        }
+
+        const response = await this.sendMessageResponse(slackParams, message);
+        if (!response.success) {
+            logger(`unable to post the result of deferred sub-command ${name}: ${response.message}`);
+        }
+    }
+
+    private setupEventAdapter() {
+        // the body and headers are needed to spot duplicate deliveries and retries.
+        this.eventAdapter = createEventAdapter(this.config.signingSecret, {
+            includeBody: true,
+            includeHeaders: true
+        });
+        this.eventListeners = { ...(this.config.eventListeners || {}) };
+        this.eventAdapterListeners = new Map();
+
+        // the adapter emits an error for every request it rejects (a bad signature, for example).  Without a
+        //  listener, emitting it throws and the request is never answered.
+        this.eventAdapter.on("error", (err) => this.reportError(err, { source: "request", name: "event" }));
+
+        // now register the route with our router.  It looks up the adapter for every request since the adapter is
+        //  replaced if we're disconnected and connected again.
+        this.mountRequestRoute("/slack/events", (req, res, next) => {
+            if (!this.eventAdapter) {
+                return next();
+            }
+            if (this.config.eventRetryMode === "noRetry") {
+                res.setHeader("X-Slack-No-Retry", "1");
+            }
+            return this.recordRequest("event", req, () => this.eventAdapter.expressMiddleware()(req, res, next), next);
+        });
+
+        // keep the metadata cache up to date with whichever of these events the app is subscribed to.
+        if (this.metadata) {
+            for (const name of METADATA_CACHE_EVENTS) {
+                this.eventAdapter.on(name, (event, body) => this.metadata.handleEvent(event, body));
+            }
+        }
+    }
+
+    private setupMessageAdapter() {
+        // we manage the ack deadline ourselves (see addInteraction) so give the adapter as much
+        //  time as Slack allows and never let it fall back to the response_url on its own.
+        this.messageAdapter = createMessageAdapter(this.config.signingSecret, {
+            syncResponseTimeout: 3000,
+            lateResponseFallbackEnabled: false
+        });
+        this.interactionCallbacks = new Map();
+
+        // the adapter has no way to remove a callback so it's given just this one, which picks the handler.  Shortcut
+        //  callbacks are the only kind the adapter doesn't filter by payload type.
+        this.messageAdapter.shortcut({}, (payload: SlackPayload) => this.dispatchInteraction(payload));
+
+        // now register the route with our router.
+        this.mountRequestRoute("/slack/interactions", (req, res, next) => {
+            if (!this.messageAdapter) {
+                return next();
+            }
+            return this.recordRequest("interaction", req,
+                () => this.messageAdapter.expressMiddleware()(req, res, next), next);
+        });
+    }
+
+    /**
+     * Installs a route for requests from Slack (unless we're in socket mode, where they come over the socket instead)
+     */
+    private mountRequestRoute(path: string, handler: RequestHandler) {
+        if (!this.config.socketMode) {
+            this.mountRoute(path, handler);
+        }
+    }
+
+    /**
+     * Installs a route on our router (unless it's already there or there is no subApp)
+     */
+    private mountRoute(path: string, handler: RequestHandler, method: "use" | "get" = "use") {
+        if (!this.router || this.mountedRoutes.has(path)) {
+            return;
+        }
+        this.mountedRoutes.add(path);
+        this.router[method](path, handler);
+    }
+
+    /**
+     * Records the request (if recording is on) before handing it to the adapter.  The body has to be read here so
+     * it's given to the adapter as the rawBody.  Recording never fails the request: problems are logged and the
+     * request is handled anyway.
+     */
+    private recordRequest(kind: SlackRecordingKind, req: Request & { rawBody?: Buffer }, handle: () => void,
+                          next: NextFunction) {
+        if (!this.recorder || !this.recorder.isRecording(kind)) {
+            return handle();
+        }
+
+        getRawBody(req).then((rawBody) => {
+            req.rawBody = rawBody;
+            try {
+                this.recorder.record(kind, rawBody.toString(), req.headers)
+                    .catch((err) => logger(`Unable to record a ${kind} request: ${err.message}`));
+            } catch (err) {
+                logger(`Unable to record a ${kind} request: ${err.message}`);
+            }
+
+            try {
+                handle();
+            } catch (err) {
+                next(err);
+            }
+        }, next);
+    }
+
+    /**
+     * Turns requests away while disconnecting (with a header that asks Slack not to retry them) and keeps track of
+     * the rest until they've been answered.
+     */
+    private gateRequest(_req: Request, res: Response, next: NextFunction) {
+        if (this.draining) {
+            res.setHeader("X-Slack-No-Retry", "1");
+            res.status(503).send("This app is not accepting requests");
+            return;
+        }
+        this.track(new Promise<void>((resolve) => {
+            res.on("finish", resolve);
+            res.on("close", resolve);
+        }));
+        next();
+    }
+
+    /**
+     * Keeps track of a running handler so that disconnecting can wait for it.
+     */
+    private track<T>(promise: Promise<T>): Promise<T> {
+        if (!this.inFlight) {
+            this.inFlight = new Set();
+        }
+        const settled = promise.then(() => undefined, () => undefined);
+        this.inFlight.add(settled);
+        settled.then(() => this.inFlight.delete(settled));
+        return promise;
+    }
+
+    /**
+     * Resolves with true once nothing is running or with false if the timeout passes first.
+     */
+    private async waitForInFlight(timeout: number): Promise<boolean> {
+        const deadline = Date.now() + timeout;
+        while (this.inFlight && this.inFlight.size > 0) {
+            const remaining = deadline - Date.now();
+            if (remaining <= 0) {
+                logger(`Disconnecting with ${this.inFlight.size} handler(s) still running`);
+                return false;
+            }
+
+            let timer: NodeJS.Timeout;
+            await Promise.race([
+                Promise.all(Array.from(this.inFlight)),
+                new Promise((resolve) => timer = setTimeout(resolve, remaining))
+            ]);
+            clearTimeout(timer);
+        }
+        return true;
+    }
+
+    /**
+     * Lets go of the routes, the adapters and everything registered with them.  Requests are passed on to the rest
+     * of the subApp until we're connected again.
+     */
+    private release() {
+        this.router = undefined;
+        this.mountedRoutes = undefined;
+        this.draining = false;
+
+        if (this.scheduler) {
+            this.scheduler.stop();
+        }
+        this.livingMessages = undefined;
+        this.metadata = undefined;
+
+        if (this.eventAdapter) {
+            this.eventAdapter.removeAllListeners();
+            this.eventAdapter = undefined;
+        }
+        this.eventListeners = undefined;
+        this.eventAdapterListeners = undefined;
+        this.eventRouter = undefined;
+
+        this.messageAdapter = undefined;
+        this.interactionCallbacks = undefined;
+
+        this.commandsAdapter = undefined;
+        this.commands = {};
+
+        this.workflows = undefined;
+        this.scheduledMessages = undefined;
+    }
+
+    private addEvent(name: string) {
+        if (!this.eventAdapter) {
+            throw new Error("Trying to add an event without calling connect first");
+        }
+        if (this.eventAdapterListeners.has(name)) {
+            return;
+        }
+
+        const listener = (eventPayload: SlackPayload, body: SlackPayload, headers: Record<string, any>) => {
+            this.track(this.shouldHandleEvent(eventPayload, body, headers)
+                .then((handle) => handle ? this.dispatchEvent(name, eventPayload, body) : undefined)
+                .catch((err) => this.reportError(err, { source: "event", name, payload: eventPayload })));
+        };
+        this.eventAdapterListeners.set(name, listener);
+        this.eventAdapter.on(name, listener);
+    }
+
+    private removeEvent(name: string) {
+        const listener = this.eventAdapterListeners ? this.eventAdapterListeners.get(name) : undefined;
+        if (listener) {
+            this.eventAdapter.removeListener(name, listener);
+            this.eventAdapterListeners.delete(name);
+        }
+    }
+
+    /**
+     * Gives the event to the listener for its type (if there is one) and then to the matching routes.
+     */
+    private async dispatchEvent(name: string, eventPayload: SlackPayload, body: SlackPayload) {
+        if (this.payloadValidator) {
+            this.payloadValidator.check("event", eventPayload);
+        }
+
+        const listener = (this.eventListeners || {})[name];
+        const hasRoutes = this.eventRouter && this.eventRouter.hasRoutes(name);
+        if (!listener && !hasRoutes) {
+            return;
+        }
+
+        // the global middleware runs once for the delivery, around both the listener and the routes.
+        const ctx = createMiddlewareContext("event", name, eventPayload, body);
+        try {
+            await this.runWithMiddleware(ctx, [], async () => {
+                let result: ISlackAckResponse;
+                let listenerError: Error;
+                if (listener) {
+                    const { handler, middleware } = typeof listener === "function" ?
+                        { handler: listener, middleware: [] } : listener;
+                    try {
+                        result = await runMiddleware(middleware || [], ctx, () => handler(this, eventPayload, ctx));
+                    } catch (err) {
+                        // the routes still get the event.  The error is passed on to the middleware afterwards.
+                        listenerError = err;
+                    }
+                }
+
+                if (hasRoutes) {
+                    await this.eventRouter.dispatch(eventPayload, body, ctx);
+                }
+                if (listenerError) {
+                    throw listenerError;
+                }
+                return result;
+            });
+        } catch (err) {
+            this.reportError(err, { source: "event", name, payload: eventPayload });
+        }
+    }
+
+    /**
+     * Decides whether an event delivery should be passed on to the listener.  Retries are dropped if the retry
+     * mode is "ignore" and any delivery whose event ID has been seen recently is dropped as a duplicate.
+     * @param event The inner event
+     * @param body The full event_callback body
+     * @param headers The headers of the request.
+     */
+    private async shouldHandleEvent(event: SlackPayload, body: SlackPayload,
+                                    headers: Record<string, any>): Promise<boolean> {
+        if (!this.eventStats) {
+            this.eventStats = { received: 0, retries: 0, duplicates: 0, ignoredRetries: 0 };
+        }
+        if (!this.eventDedupeStore) {
+            this.eventDedupeStore = this.config.eventDedupeStore || new MemoryDedupeStore();
+        }
+
+        const stats = this.eventStats;
+        stats.received++;
+
+        const retryNum = headers ? headers["x-slack-retry-num"] : undefined;
+        if (retryNum) {
+            stats.retries++;
+            logger(`event ${body ? body.event_id : ""} is retry ${retryNum} ` +
+                `(${headers["x-slack-retry-reason"]}).  ${stats.retries} retries out of ${stats.received} deliveries`);
+
+            if (this.config.eventRetryMode === "ignore") {
+                stats.ignoredRetries++;
+                return false;
+            }
+        }
+
+        const key = getEventDedupeKey(body, event);
+        if (!key) {
+            return true;
+        }
+
+        const isNew = await this.eventDedupeStore.claim(key, this.config.eventDedupeTtl || DEFAULT_EVENT_DEDUPE_TTL);
+        if (!isNew) {
+            stats.duplicates++;
+            logger(`ignoring duplicate delivery of event ${key}.  ${stats.duplicates} duplicates out of ` +
+                `${stats.received} deliveries`);
+        }
+        return isNew;
+    }
+
+    /**
+     * Sends every action and view that has a flow ID in it to the workflow engine.
+     */
+    private addWorkflowInteractions() {
+        const routes: [SlackInteractionType, SlackWorkflowTrigger, Record<string, RegExp>][] = [
+            [SlackInteractionType.action, "action", { actionId: WORKFLOW_ID_PATTERN }],
+            [SlackInteractionType.action, "action", { blockId: WORKFLOW_ID_PATTERN }],
+            [SlackInteractionType.viewSubmission, "viewSubmission", { callbackId: WORKFLOW_ID_PATTERN }],
+            [SlackInteractionType.viewClosed, "viewClosed", { callbackId: WORKFLOW_ID_PATTERN }]
+        ];
+        for (const [type, trigger, matchingConstraints] of routes) {
+            this.addInteraction({
+                type,
+                matchingConstraints,
+                handler: async (_conn, payload) => this.workflows.handleInteraction(trigger, payload)
+            });
+        }
+
+        // a modal can identify its flow through its private_metadata alone (see SlackWorkflowContext.metadata) and
+        //  so can the actions in it.
+        const metadataRoutes: [SlackInteractionType, SlackWorkflowTrigger][] = [
+            [SlackInteractionType.action, "action"],
+            [SlackInteractionType.viewSubmission, "viewSubmission"],
+            [SlackInteractionType.viewClosed, "viewClosed"]
+        ];
+        for (const [type, trigger] of metadataRoutes) {
+            this.addInteraction({
+                type,
+                matchingConstraints: {},
+                matches: (payload) => !!getMetadataWorkflowId(payload),
+                handler: async (_conn, payload) => this.workflows.handleInteraction(trigger, payload)
+            });
+        }
+    }
+
+    /**
+     * Called before every attempt to post to a response_url.  Posts that would exceed Slack's limits are refused
+     * (and not retried).  Every attempt counts as a post since we can't know whether Slack counted a failed one.
+     * @param responseUrl The URL about to be posted to.
+     */
+    private checkResponseUrl(responseUrl: string): string {
+        if (this.responseUrls.remaining(responseUrl) === 0) {
+            const reason = this.responseUrls.expired(responseUrl) ?
+                "it is more than 30 minutes old" : `it has already been used ${RESPONSE_URL_MAX_POSTS} times`;
+            return `The response URL can no longer be used because ${reason}`;
+        }
+        this.responseUrls.recordPost(responseUrl);
+        return undefined;
+    }
+
+    /**
+     * Runs a handler behind the global middleware and the given handler-specific middleware.
+     */
+    private runHandler(type: SlackMiddlewareType, name: string, payload: SlackPayload,
+                       middleware: SlackMiddleware[][],
+                       handler: (ctx: ISlackMiddlewareContext) => Promise<ISlackAckResponse>): Promise<ISlackAckResponse> {
+        const ctx = createMiddlewareContext(type, name, payload);
+        return this.runWithMiddleware(ctx, middleware, () => handler(ctx));
+    }
+
+    private runWithMiddleware(ctx: ISlackMiddlewareContext, middleware: SlackMiddleware[][],
+                              handler: () => Promise<ISlackAckResponse>): Promise<ISlackAckResponse> {
+        const chain = (this.globalMiddleware || []).concat(...middleware.map((m) => m || []));
+        const run = () => runMiddleware(chain, ctx, handler);
+        return this.track(this.observability ? this.observability.observeInbound(ctx.type, ctx, run) : run());
+    }
+
+    /**
+     * Posts to a webhook or response_url through the delivery queue (recording the delivery if observability is on)
+     */
+    private deliver(kind: SlackDeliveryKind, url: string, payload: Record<string, any>,
+                    orderingKey?: string): Promise<ISlackDeliveryResult> {
+        const deliver = () => this.deliveries.deliver(kind, url, payload, orderingKey);
+        if (!this.observability) {
+            return deliver();
+        }
+        return this.observability.observeOutbound(kind, kind, deliver, (result) => result.success ? undefined : result.error);
+    }
+
+    private getPermissionMiddleware(permissions: ISlackPermissions): SlackMiddleware[] {
+        return permissions && this.accessControl ? [this.accessControl.middleware(permissions)] : [];
+    }
+
+    private prepareView<M>(view: Record<string, any>, options: ISlackViewOptions<M>): View {
+        const prepared: Record<string, any> = options.metadata === undefined ? view :
+            { ...view, private_metadata: encodePrivateMetadata(options.metadata) };
+        return prepared as View;
+    }
+
+    /**
+     * Keeps the latest hash of each view we've seen so that updateView can use it.  Only the most recently seen
+     * views are kept.
+     */
+    private rememberViewHash(view: Record<string, any>): Record<string, any> {
+        if (view && view.id && view.hash) {
+            if (!this.viewHashes) {
+                this.viewHashes = new Map();
+            }
+            this.viewHashes.delete(view.id);
+            this.viewHashes.set(view.id, view.hash);
+            if (this.viewHashes.size > MAX_VIEW_HASHES) {
+                this.viewHashes.delete(this.viewHashes.keys().next().value);
+            }
+        }
+        return view;
+    }
+
+    /**
+     * Gives the interaction to the callback of the first handler that matches it (see addInteraction)
+     */
+    private dispatchInteraction(payload: SlackPayload): any {
+        for (const [handler, callback] of Array.from(this.interactionCallbacks)) {
+            if (matchesInteraction(handler, payload)) {
+                return callback(payload);
+            }
+        }
+        logger(`No interaction handler matches this ${payload.type} interaction`);
+        return undefined;
+    }
+
+    private addInteraction(handler: ISlackInteractionHandler<any>) {
+        if (!this.messageAdapter) {
+            throw new Error("Trying to add an interaction handler without calling connect first");
+        }
+
+        const timeout = getAckTimeout(this.config.interactionAckTimeout);
+        const run = (payload: SlackPayload) => {
+            if (this.payloadValidator) {
+                this.payloadValidator.check("interaction", payload);
+            }
+            return this.runHandler("interaction", handler.type, payload,
+                [this.getPermissionMiddleware(handler.permissions), handler.middleware],
+                (ctx) => handler.handler(this, payload, ctx));
+        };
+
+        let callback: SlackInteractionCallback;
+        if (handler.type === SlackInteractionType.action) {
+            // block actions are acknowledged immediately.  Anything the handler sends back is
+            //  posted to the response_url (which is valid for 30 minutes) once it's ready.
+            callback = (payload) => {
+                this.rememberViewHash(payload.view);
+                run(payload)
+                    .then(async (ack) => {
+                        const message = toMessageResponse(ack);
+                        if (message && payload.response_url) {
+                            const response = await this.sendMessageResponse(payload, message);
+                            if (!response.success) {
+                                logger("unable to post the result of an actions handler: " + response.message);
+                            }
+                        } else if (message) {
+                            logger("actions handler returned a message but there is no response_url to send it to");
+                        }
+                    })
+                    .catch((err) => logger("actions handler failed: " + err.toString()));
+                return undefined;
+            };
+        } else if (handler.type === SlackInteractionType.option) {
+            callback = (payload) => resolveWithinDeadline("options handler", run(payload), timeout, undefined)
+                .then((ack) => toOptionsResponse(ack));
+        } else if (handler.type === SlackInteractionType.shortcut) {
+            callback = (payload) => {
+                run(payload).catch((err) => logger("shortcut handler failed: " + err.toString()));
+                return undefined;
+            };
+        } else if (handler.type === SlackInteractionType.viewClosed) {
+            callback = (payload) => {
+                run(payload).catch((err) => logger("viewClosed handler failed: " + err.toString()));
+            };
         } else if (handler.type === SlackInteractionType.viewSubmission) {
-            this.messageAdapter.viewSubmission(handler.matchingConstraints as ViewConstraints,
-                (payload) => {
-                    handler.handler(this, payload)
-                        .then((ack) => {
-                            logger(ack);
-                            return ack;
-                        })
-                        .catch((err) => logger("viewSubmission handler failed: " + err.toString()));
-                });
+            // if the handler is too slow, the default is to send an empty response which closes the view.
+            callback = (payload) => resolveWithinDeadline("viewSubmission handler", run(payload), timeout, undefined)
+                .then((ack) => toViewSubmissionResponse(ack));
         }
+
+        this.interactionCallbacks.set(handler, callback);
     }
 
 }
@@ -0,0 +1,180 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Everything we keep about a single installation of the app into a workspace (or an entire enterprise grid
+ * organization if it was installed org-wide).
+ */
+export interface ISlackInstallation {
+    teamId?: string;
+    teamName?: string;
+    enterpriseId?: string;
+    enterpriseName?: string;
+    isEnterpriseInstall?: boolean;
+    appId?: string;
+
+    botUserId?: string;
+    botToken?: string;
+    botScopes?: string[];
+
+    userId?: string;
+    userToken?: string;
+    userScopes?: string[];
+
+    incomingWebhook?: {
+        url: string;
+        channel?: string;
+        channelId?: string;
+        configurationUrl?: string;
+    };
+
+    installedAt: number;
+}
+
+/**
+ * Identifies the installation that should be used for a request.  When both are given, the team installation is
+ * preferred and the enterprise (org-wide) installation is used as a fallback.
+ */
+export interface ISlackInstallationQuery {
+    teamId?: string;
+    enterpriseId?: string;
+}
+
+/**
+ * Implement this to keep installations somewhere other than the built-in stores (a database, for example).
+ */
+export interface ISlackInstallationStore {
+    storeInstallation(installation: ISlackInstallation): Promise<void>;
+    fetchInstallation(query: ISlackInstallationQuery): Promise<ISlackInstallation>;
+    deleteInstallation(query: ISlackInstallationQuery): Promise<void>;
+}
+
+/**
+ * Finds the team and enterprise IDs in a command, event or interaction payload.  These are in different places
+ * depending on the type of payload.
+ * @param payload The payload received from Slack.
+ */
+export function getInstallationQuery(payload: Record<string, any>): ISlackInstallationQuery {
+    if (!payload) {
+        return {};
+    }
+
+    let teamId: string = payload.team_id;
+    if (!teamId && payload.team) {
+        teamId = typeof payload.team === "string" ? payload.team : payload.team.id;
+    }
+    if (!teamId && payload.user && typeof payload.user === "object") {
+        teamId = payload.user.team_id;
+    }
+
+    let enterpriseId: string = payload.enterprise_id;
+    if (!enterpriseId && payload.enterprise) {
+        enterpriseId = typeof payload.enterprise === "string" ? payload.enterprise : payload.enterprise.id;
+    }
+
+    return { teamId, enterpriseId };
+}
+
+/**
+ * Returns the keys that could hold the installation for the given query in the order they should be checked.
+ * @param query The team and/or enterprise to look for.
+ */
+export function getInstallationKeys(query: ISlackInstallationQuery): string[] {
+    const keys: string[] = [];
+    if (query.teamId) {
+        keys.push(`T-${query.teamId}`);
+    }
+    if (query.enterpriseId) {
+        keys.push(`E-${query.enterpriseId}`);
+    }
+    return keys;
+}
+
+/**
+ * Returns the key that the given installation is stored under.  Org-wide installs are stored by enterprise and
+ * everything else is stored by team.
+ * @param installation The installation to get the key for.
+ */
+export function getInstallationKey(installation: ISlackInstallation): string {
+    if (installation.isEnterpriseInstall && installation.enterpriseId) {
+        return `E-${installation.enterpriseId}`;
+    }
+    if (installation.teamId) {
+        return `T-${installation.teamId}`;
+    }
+    throw new Error("An installation must have a team or enterprise ID");
+}
+
+/**
+ * Keeps installations in memory.  This is the default store and is only suitable for development since
+ * everything is lost when the process restarts.
+ */
+export class MemoryInstallationStore implements ISlackInstallationStore {
+
+    protected installations: Record<string, ISlackInstallation> = {};
+
+    public async storeInstallation(installation: ISlackInstallation): Promise<void> {
+        this.installations[getInstallationKey(installation)] = installation;
+    }
+
+    public async fetchInstallation(query: ISlackInstallationQuery): Promise<ISlackInstallation> {
+        const key = getInstallationKeys(query).find((k) => k in this.installations);
+        return key ? this.installations[key] : undefined;
+    }
+
+    public async deleteInstallation(query: ISlackInstallationQuery): Promise<void> {
+        for (const key of getInstallationKeys(query)) {
+            delete this.installations[key];
+        }
+    }
+}
+
+/**
+ * Keeps each installation in its own JSON file in the given directory.  The directory is created if it
+ * doesn't exist.  The files contain tokens so make sure the directory is not readable by anyone else.
+ */
+export class FileInstallationStore implements ISlackInstallationStore {
+
+    protected directory: string;
+
+    public constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    public async storeInstallation(installation: ISlackInstallation): Promise<void> {
+        await fs.promises.mkdir(this.directory, { recursive: true, mode: 0o700 });
+        const file = this.getFilePath(getInstallationKey(installation));
+        await fs.promises.writeFile(file, JSON.stringify(installation, undefined, 2), { mode: 0o600 });
+    }
+
+    public async fetchInstallation(query: ISlackInstallationQuery): Promise<ISlackInstallation> {
+        for (const key of getInstallationKeys(query)) {
+            try {
+                const contents = await fs.promises.readFile(this.getFilePath(key), "utf8");
+                return JSON.parse(contents);
+            } catch (e) {
+                if (e.code !== "ENOENT") {
+                    throw e;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    public async deleteInstallation(query: ISlackInstallationQuery): Promise<void> {
+        for (const key of getInstallationKeys(query)) {
+            try {
+                await fs.promises.unlink(this.getFilePath(key));
+            } catch (e) {
+                if (e.code !== "ENOENT") {
+                    throw e;
+                }
+            }
+        }
+    }
+
+    protected getFilePath(key: string): string {
+        // keys are built from Slack IDs but make sure nothing can escape the directory anyway.
+        return path.join(this.directory, key.replace(/[^A-Za-z0-9_-]/g, "_") + ".json");
+    }
+}
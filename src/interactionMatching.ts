@@ -0,0 +1,93 @@
+import { ISlackInteractionHandler, SlackInteractionType, SlackPayload } from ".";
+
+/**
+ * Returns true if the handler should be given the payload.  The connection gives the message adapter a single
+ * callback and picks the handler itself (so that handlers can be removed) using the same rules the adapter uses to
+ * match its own callbacks.
+ * @param handler The handler and its constraints.
+ * @param payload The interaction payload received from Slack.
+ */
+export function matchesInteraction(handler: ISlackInteractionHandler<any>, payload: SlackPayload): boolean {
+    const constraints: Record<string, any> = isConstraintObject(handler.matchingConstraints) ?
+        handler.matchingConstraints : { callbackId: handler.matchingConstraints };
+    const isView = handler.type === SlackInteractionType.viewSubmission ||
+        handler.type === SlackInteractionType.viewClosed;
+
+    // view interactions keep their callback ID in the view.
+    const callbackId = isView && payload.view ? payload.view.callback_id : payload.callback_id;
+    if (!matches(constraints.callbackId, callbackId) || (handler.matches && !handler.matches(payload))) {
+        return false;
+    }
+
+    if (handler.type === SlackInteractionType.action) {
+        return matchesAction(constraints, payload);
+    }
+    if (handler.type === SlackInteractionType.option) {
+        return matchesOptions(constraints, payload);
+    }
+    if (isView) {
+        return matchesView(handler.type, constraints, payload);
+    }
+    return true;
+}
+
+function matchesAction(constraints: Record<string, any>, payload: SlackPayload): boolean {
+    // dialog submissions and message actions don't have any actions.
+    if (!(payload.actions || payload.submission || payload.message)) {
+        return false;
+    }
+    const action = payload.actions ? payload.actions[0] : {};
+    if (!matches(constraints.blockId, action.block_id) || !matches(constraints.actionId, action.action_id)) {
+        return false;
+    }
+
+    // selects don't say what type they are.
+    const type = action.type || payload.type || (action.selected_options && "select");
+    if (constraints.type && constraints.type !== type) {
+        return false;
+    }
+    return !("unfurl" in constraints) || !!constraints.unfurl === !!payload.is_app_unfurl;
+}
+
+function matchesOptions(constraints: Record<string, any>, payload: SlackPayload): boolean {
+    // block suggestions are the only options requests without a name.
+    if (!("name" in payload || payload.type === "block_suggestion")) {
+        return false;
+    }
+    if (!matches(constraints.blockId, payload.block_id) || !matches(constraints.actionId, payload.action_id)) {
+        return false;
+    }
+
+    const within: Record<string, string> = {
+        interactive_message: "interactive_message",
+        block_actions: "block_suggestion",
+        dialog: "dialog_suggestion"
+    };
+    return !constraints.within || payload.type === within[constraints.within];
+}
+
+function matchesView(type: SlackInteractionType, constraints: Record<string, any>, payload: SlackPayload): boolean {
+    const payloadType = type === SlackInteractionType.viewSubmission ? "view_submission" : "view_closed";
+    if ((payload.type && payload.type !== payloadType) || !payload.view) {
+        return false;
+    }
+    if (constraints.viewId && payload.view.id !== constraints.viewId) {
+        return false;
+    }
+    return matches(constraints.externalId, payload.view.external_id);
+}
+
+/**
+ * Returns true if the constraint isn't given or the value is equal to it (for strings) or matches it (for regular
+ * expressions).
+ */
+function matches(constraint: string | RegExp, value: string): boolean {
+    if (!constraint) {
+        return true;
+    }
+    return constraint instanceof RegExp ? constraint.test(value) : constraint === value;
+}
+
+function isConstraintObject(constraints: any): constraints is Record<string, any> {
+    return !!constraints && typeof constraints === "object" && !(constraints instanceof RegExp);
+}
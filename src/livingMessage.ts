@@ -0,0 +1,507 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { WebClient } from "@slack/web-api";
+import { SlackConnection } from ".";
+
+/**
+ * Everything needed to pick a living message up again after a restart.
+ */
+export interface ISlackLivingMessageState {
+    id: string;
+    channel: string;
+    ts: string;
+
+    // Set if the message was posted as a reply in a thread.
+    threadTs?: string;
+
+    // The workspace it was posted in (when the app is installed in more than one)
+    teamId?: string;
+
+    // What the message currently says (text, blocks, attachments)
+    message: Record<string, any>;
+
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface ISlackLivingMessageOptions {
+    // Your own ID for the message (e.g. "deploy-1234") so that it can be loaded later.  Defaults to a random ID.
+    id?: string;
+
+    // Post the message as a reply in this thread.
+    threadTs?: string;
+
+    teamId?: string;
+
+    // How long to wait for more updates before editing the message (in milliseconds).  Defaults to 1 second.
+    debounceMs?: number;
+}
+
+/**
+ * Implement this to keep living messages somewhere other than the built-in stores.
+ */
+export interface ISlackLivingMessageStore {
+    save(state: ISlackLivingMessageState): Promise<void>;
+    get(id: string): Promise<ISlackLivingMessageState>;
+    delete(id: string): Promise<void>;
+    list(): Promise<ISlackLivingMessageState[]>;
+}
+
+/**
+ * Keeps living messages in memory.  They can't be loaded again after a restart.
+ */
+export class MemoryLivingMessageStore implements ISlackLivingMessageStore {
+
+    protected states: Map<string, ISlackLivingMessageState> = new Map();
+
+    public async save(state: ISlackLivingMessageState): Promise<void> {
+        this.states.set(state.id, { ...state });
+    }
+
+    public async get(id: string): Promise<ISlackLivingMessageState> {
+        const state = this.states.get(id);
+        return state ? { ...state } : undefined;
+    }
+
+    public async delete(id: string): Promise<void> {
+        this.states.delete(id);
+    }
+
+    public async list(): Promise<ISlackLivingMessageState[]> {
+        return Array.from(this.states.values()).map((s) => ({ ...s }));
+    }
+}
+
+/**
+ * Keeps each living message in its own JSON file in the given directory.
+ */
+export class FileLivingMessageStore implements ISlackLivingMessageStore {
+
+    protected directory: string;
+
+    public constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    public async save(state: ISlackLivingMessageState): Promise<void> {
+        await fs.promises.mkdir(this.directory, { recursive: true, mode: 0o700 });
+        await fs.promises.writeFile(this.getFilePath(state.id), JSON.stringify(state, undefined, 2), { mode: 0o600 });
+    }
+
+    public async get(id: string): Promise<ISlackLivingMessageState> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.getFilePath(id), "utf8"));
+        } catch (e) {
+            if (e.code === "ENOENT") {
+                return undefined;
+            }
+            throw e;
+        }
+    }
+
+    public async delete(id: string): Promise<void> {
+        try {
+            await fs.promises.unlink(this.getFilePath(id));
+        } catch (e) {
+            if (e.code !== "ENOENT") {
+                throw e;
+            }
+        }
+    }
+
+    public async list(): Promise<ISlackLivingMessageState[]> {
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(this.directory);
+        } catch (e) {
+            if (e.code === "ENOENT") {
+                return [];
+            }
+            throw e;
+        }
+
+        const states: ISlackLivingMessageState[] = [];
+        for (const file of files.filter((f) => f.endsWith(".json"))) {
+            const state = await this.get(file.substring(0, file.length - ".json".length));
+            if (state) {
+                states.push(state);
+            }
+        }
+        return states;
+    }
+
+    protected getFilePath(id: string): string {
+        return path.join(this.directory, id.replace(/[^A-Za-z0-9_-]/g, "_") + ".json");
+    }
+}
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+// The number of handles kept once they have nothing left to send.  The least recently used ones are let go first
+//  (and loaded from the store again if they're needed).
+const MAX_IDLE_HANDLES = 500;
+
+interface IWaiter {
+    resolve: () => void;
+    reject: (err: Error) => void;
+}
+
+/**
+ * A handle on a message that is kept up to date as work progresses.  Updates are coalesced: the message is edited at
+ * most once per debounce period with the latest content, and edits are sent one at a time so they can't arrive out
+ * of order.  If the message has been deleted it is posted again, and if it can no longer be edited the new version
+ * is posted in its thread instead (and that reply is what gets edited from then on).
+ */
+export class SlackLivingMessage {
+
+    protected pending: Record<string, any>;
+    protected waiters: IWaiter[] = [];
+    protected timer: NodeJS.Timeout;
+    protected sending: Promise<void>;
+    protected deleted = false;
+
+    public constructor(protected manager: SlackLivingMessages, protected state: ISlackLivingMessageState,
+                       protected debounceMs: number) {
+    }
+
+    public get id(): string {
+        return this.state.id;
+    }
+
+    public get channel(): string {
+        return this.state.channel;
+    }
+
+    public get ts(): string {
+        return this.state.ts;
+    }
+
+    /**
+     * True if there is no update waiting to be sent or being sent.
+     */
+    public get idle(): boolean {
+        return !this.pending && !this.timer && !this.sending;
+    }
+
+    /**
+     * What the message will say once any pending update has been sent.
+     */
+    public get message(): Record<string, any> {
+        return this.pending || this.state.message;
+    }
+
+    /**
+     * Changes some of the message (e.g. just the blocks) and resolves once the edit has been made.
+     * @param changes The fields to change.
+     */
+    public update(changes: Record<string, any>): Promise<void> {
+        return this.schedule({ ...this.message, ...changes });
+    }
+
+    /**
+     * Replaces the whole message and resolves once the edit has been made.
+     * @param message The new message.
+     */
+    public replace(message: Record<string, any>): Promise<void> {
+        return this.schedule({ ...message });
+    }
+
+    /**
+     * Sends any pending update right away.
+     */
+    public async flush(): Promise<void> {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+
+        // wait for the edit that is being sent (if any) so that edits are made in order.
+        while (this.sending) {
+            await this.sending.catch(() => undefined);
+        }
+        if (!this.pending) {
+            return;
+        }
+
+        const message = this.pending;
+        const waiters = this.waiters;
+        this.pending = undefined;
+        this.waiters = [];
+
+        this.sending = this.send(message);
+        try {
+            await this.sending;
+            waiters.forEach((w) => w.resolve());
+        } catch (e) {
+            waiters.forEach((w) => w.reject(e));
+            throw e;
+        } finally {
+            this.sending = undefined;
+            this.manager.trim();
+        }
+    }
+
+    /**
+     * Posts a reply in the message's thread.  Resolves with the ts of the reply.
+     * @param message The reply (text, blocks, etc.)
+     */
+    public async reply(message: Record<string, any> | string): Promise<string> {
+        const reply = typeof message === "string" ? { text: message } : message;
+        const client = await this.manager.getClient(this.state);
+        const result = await client.chat.postMessage({
+            ...reply,
+            channel: this.state.channel,
+            thread_ts: this.state.threadTs || this.state.ts,
+            text: reply.text || ""
+        }) as Record<string, any>;
+        return result.ts;
+    }
+
+    /**
+     * Adds a reaction to the message.  Reactions that are already there are ignored.
+     * @param name The name of the emoji (without colons)
+     */
+    public async react(name: string): Promise<void> {
+        const client = await this.manager.getClient(this.state);
+        try {
+            await client.reactions.add({ channel: this.state.channel, timestamp: this.state.ts, name });
+        } catch (e) {
+            if (getSlackError(e) !== "already_reacted") {
+                throw e;
+            }
+        }
+    }
+
+    /**
+     * Removes a reaction from the message.  Reactions that aren't there are ignored.
+     * @param name The name of the emoji (without colons)
+     */
+    public async unreact(name: string): Promise<void> {
+        const client = await this.manager.getClient(this.state);
+        try {
+            await client.reactions.remove({ channel: this.state.channel, timestamp: this.state.ts, name });
+        } catch (e) {
+            if (getSlackError(e) !== "no_reaction") {
+                throw e;
+            }
+        }
+    }
+
+    /**
+     * Deletes the message from Slack and forgets about it.  Pending updates are dropped.
+     */
+    public async delete(): Promise<void> {
+        this.deleted = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+        this.pending = undefined;
+        this.waiters.forEach((w) => w.resolve());
+        this.waiters = [];
+
+        // an edit that's already on its way has to land first (it won't be saved to the store now)
+        while (this.sending) {
+            await this.sending.catch(() => undefined);
+        }
+
+        const client = await this.manager.getClient(this.state);
+        try {
+            await client.chat.delete({ channel: this.state.channel, ts: this.state.ts });
+        } catch (e) {
+            if (getSlackError(e) !== "message_not_found") {
+                throw e;
+            }
+        }
+        await this.manager.forget(this.state.id);
+    }
+
+    public toJSON(): ISlackLivingMessageState {
+        return { ...this.state };
+    }
+
+    protected schedule(message: Record<string, any>): Promise<void> {
+        if (this.deleted) {
+            return Promise.reject(new Error(`Living message ${this.state.id} has been deleted`));
+        }
+        this.manager.touch(this);
+        this.pending = message;
+        const done = new Promise<void>((resolve, reject) => this.waiters.push({ resolve, reject }));
+        if (!this.timer) {
+            this.timer = setTimeout(() => {
+                this.timer = undefined;
+                // the error goes to whoever is waiting on the update.
+                this.flush().catch(() => undefined);
+            }, this.debounceMs);
+        }
+        return done;
+    }
+
+    protected async send(message: Record<string, any>) {
+        const client = await this.manager.getClient(this.state);
+        const text = message.text || "";
+        try {
+            await client.chat.update({ ...message, channel: this.state.channel, ts: this.state.ts, text });
+        } catch (e) {
+            const error = getSlackError(e);
+            if (error === "message_not_found") {
+                // someone deleted it so post it again (in the same thread if it was in one).
+                const result = await client.chat.postMessage({ ...message, channel: this.state.channel,
+                    thread_ts: this.state.threadTs, text }) as Record<string, any>;
+                this.state.ts = result.ts;
+            } else if (error === "cant_update_message" || error === "edit_window_closed") {
+                // it can't be edited any more so post the new version in its thread instead and keep the reply up
+                //  to date from now on.
+                const threadTs = this.state.threadTs || this.state.ts;
+                const result = await client.chat.postMessage({ ...message, channel: this.state.channel,
+                    thread_ts: threadTs, text }) as Record<string, any>;
+                this.state.ts = result.ts;
+                this.state.threadTs = threadTs;
+            } else {
+                throw e;
+            }
+        }
+
+        this.state.message = message;
+        this.state.updatedAt = Date.now();
+        if (!this.deleted) {
+            await this.manager.persist(this.state);
+        }
+    }
+}
+
+/**
+ * Posts living messages and loads them again (from the store) after a restart.
+ */
+export class SlackLivingMessages {
+
+    protected handles: Map<string, SlackLivingMessage> = new Map();
+
+    public constructor(protected conn: SlackConnection,
+                       protected store: ISlackLivingMessageStore = new MemoryLivingMessageStore()) {
+    }
+
+    /**
+     * Posts a message and returns the handle for it.
+     * @param channel The channel (or user) to post to.
+     * @param message The message (text, blocks, etc.)
+     * @param options An ID for the message, a thread to post in, etc.
+     */
+    public async post(channel: string, message: Record<string, any> | string,
+                      options: ISlackLivingMessageOptions = {}): Promise<SlackLivingMessage> {
+        const content = typeof message === "string" ? { text: message } : { ...message };
+        const client = await this.conn.getClient(options.teamId ? { team_id: options.teamId } : {});
+        const result = await client.chat.postMessage({
+            ...content,
+            channel,
+            thread_ts: options.threadTs,
+            text: content.text || ""
+        }) as Record<string, any>;
+
+        const now = Date.now();
+        const state: ISlackLivingMessageState = {
+            id: options.id || crypto.randomBytes(8).toString("hex"),
+            // posting to a user gives back the ID of the DM.
+            channel: result.channel || channel,
+            ts: result.ts,
+            threadTs: options.threadTs,
+            teamId: options.teamId,
+            message: content,
+            createdAt: now,
+            updatedAt: now
+        };
+        await this.store.save(state);
+
+        const handle = new SlackLivingMessage(this, state, this.getDebounce(options));
+        this.touch(handle);
+        return handle;
+    }
+
+    /**
+     * Returns the handle for a message that was posted earlier (possibly before a restart) or undefined if there is
+     * no such message.
+     * @param id The ID of the message.
+     * @param debounceMs How long to wait for more updates before editing the message.
+     */
+    public async load(id: string, debounceMs?: number): Promise<SlackLivingMessage> {
+        const handle = this.handles.get(id);
+        if (handle) {
+            this.touch(handle);
+            return handle;
+        }
+
+        const state = await this.store.get(id);
+        if (!state) {
+            return undefined;
+        }
+
+        // someone else could have loaded it while we were waiting on the store.
+        if (!this.handles.has(id)) {
+            this.touch(new SlackLivingMessage(this, state, this.getDebounce({ debounceMs })));
+        }
+        return this.handles.get(id);
+    }
+
+    public list(): Promise<ISlackLivingMessageState[]> {
+        return this.store.list();
+    }
+
+    /**
+     * Sends the pending updates of every message that's been loaded.
+     */
+    public async flushAll(): Promise<void> {
+        await Promise.all(Array.from(this.handles.values()).map((h) => h.flush().catch(() => undefined)));
+    }
+
+    public getClient(state: ISlackLivingMessageState): Promise<WebClient> {
+        return this.conn.getClient(state.teamId ? { team_id: state.teamId } : {});
+    }
+
+    public persist(state: ISlackLivingMessageState): Promise<void> {
+        return this.store.save(state);
+    }
+
+    /**
+     * Marks the handle as the most recently used (and keeps it if it had been let go)
+     */
+    public touch(handle: SlackLivingMessage) {
+        const current = this.handles.get(handle.id);
+        if (current && current !== handle) {
+            return;
+        }
+        this.handles.delete(handle.id);
+        this.handles.set(handle.id, handle);
+        this.trim();
+    }
+
+    /**
+     * Lets go of the least recently used handles that have nothing to send once there are too many.
+     */
+    public trim() {
+        if (this.handles.size <= MAX_IDLE_HANDLES) {
+            return;
+        }
+        for (const [id, handle] of Array.from(this.handles)) {
+            if (this.handles.size <= MAX_IDLE_HANDLES) {
+                break;
+            }
+            if (handle.idle) {
+                this.handles.delete(id);
+            }
+        }
+    }
+
+    public async forget(id: string): Promise<void> {
+        this.handles.delete(id);
+        await this.store.delete(id);
+    }
+
+    protected getDebounce(options: ISlackLivingMessageOptions): number {
+        return options.debounceMs === undefined ? DEFAULT_DEBOUNCE_MS : options.debounceMs;
+    }
+}
+
+function getSlackError(err: any): string {
+    return err && err.data ? err.data.error : undefined;
+}
@@ -0,0 +1,300 @@
+import { WebClient } from "@slack/web-api";
+import { SlackConnection, SlackPayload } from ".";
+import { paginate } from "./conversations";
+import { getInstallationQuery } from "./installationStore";
+
+export interface ISlackUserInfo {
+    id: string;
+    name?: string;
+    real_name?: string;
+    profile?: Record<string, any>;
+    [key: string]: any;
+}
+
+export interface ISlackChannelInfo {
+    id: string;
+    name?: string;
+    [key: string]: any;
+}
+
+export interface ISlackTeamInfo {
+    id: string;
+    name?: string;
+    domain?: string;
+    [key: string]: any;
+}
+
+export interface ISlackMetadataCacheConfig {
+    // How long entries are kept (in milliseconds).  Defaults to 1 hour.
+    ttl?: number;
+
+    // The most entries kept.  The oldest are dropped first.  Defaults to 10000.
+    maxEntries?: number;
+}
+
+export interface ISlackMetadataCacheStats {
+    hits: number;
+    misses: number;
+    size: number;
+}
+
+export interface ISlackWarmUpOptions {
+    users?: boolean;
+    channels?: boolean;
+
+    // The workspace to warm up (when the app is installed in more than one)
+    teamId?: string;
+}
+
+// The events that change what's cached.  They only arrive if the app is subscribed to them.
+export const METADATA_CACHE_EVENTS = [
+    "user_change",
+    "team_join",
+    "channel_rename",
+    "channel_archive",
+    "channel_unarchive",
+    "channel_deleted",
+    "group_rename",
+    "group_archive",
+    "group_unarchive",
+    "member_joined_channel",
+    "member_left_channel",
+    "team_rename",
+    "team_domain_change"
+];
+
+const DEFAULT_TTL = 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 10000;
+
+type EntryKind = "user" | "channel" | "team";
+
+interface ICacheEntry {
+    value: Record<string, any>;
+    expires: number;
+}
+
+/**
+ * Keeps the results of users.info, conversations.info and team.info so that handlers don't have to call them for
+ * every payload.  Users can also be found by email and channels by name.  Entries expire after the TTL and are
+ * dropped (or replaced) when an event says they've changed.  Everything is kept per workspace.
+ */
+export class SlackMetadataCache {
+
+    protected config: ISlackMetadataCacheConfig;
+    protected entries: Map<string, ICacheEntry> = new Map();
+    protected emails: Map<string, string> = new Map();
+    protected channelNames: Map<string, string> = new Map();
+    protected inFlight: Map<string, Promise<Record<string, any>>> = new Map();
+    protected stats = { hits: 0, misses: 0 };
+
+    public constructor(protected conn: SlackConnection, config: ISlackMetadataCacheConfig = {}) {
+        this.config = config;
+    }
+
+    public getUser(userId: string, teamId?: string): Promise<ISlackUserInfo> {
+        return this.lookup(teamId, "user", userId, async (client) => {
+            const result = await client.users.info({ user: userId }) as Record<string, any>;
+            return result.user;
+        }) as Promise<ISlackUserInfo>;
+    }
+
+    public async getUserByEmail(email: string, teamId?: string): Promise<ISlackUserInfo> {
+        const address = email.toLowerCase();
+        const userId = this.emails.get(this.getKey(teamId, "email", address));
+        if (userId) {
+            const user = await this.getUser(userId, teamId);
+            if (user && getEmail(user) === address) {
+                return user;
+            }
+        }
+
+        const client = await this.getClient(teamId);
+        const result = await client.users.lookupByEmail({ email }) as Record<string, any>;
+        this.stats.misses++;
+        return this.set(teamId, "user", result.user) as ISlackUserInfo;
+    }
+
+    public getChannel(channelId: string, teamId?: string): Promise<ISlackChannelInfo> {
+        return this.lookup(teamId, "channel", channelId, async (client) => {
+            const result = await client.conversations.info({ channel: channelId }) as Record<string, any>;
+            return result.channel;
+        }) as Promise<ISlackChannelInfo>;
+    }
+
+    /**
+     * Finds a public or private channel (that the bot can see) by its name.  If it isn't cached, the channels are
+     * listed (and cached) until it is found.  Resolves with undefined if there is no such channel.
+     * @param name The name with or without the leading #.
+     * @param teamId The workspace to look in.
+     */
+    public async getChannelByName(name: string, teamId?: string): Promise<ISlackChannelInfo> {
+        const channelName = name.replace(/^#/, "").toLowerCase();
+        const channelId = this.channelNames.get(this.getKey(teamId, "name", channelName));
+        if (channelId) {
+            const channel = await this.getChannel(channelId, teamId);
+            if (channel && (channel.name || "").toLowerCase() === channelName) {
+                return channel;
+            }
+        }
+
+        this.stats.misses++;
+        const client = await this.getClient(teamId);
+        for await (const channel of paginate<ISlackChannelInfo>(client, "conversations.list",
+            { types: "public_channel,private_channel", exclude_archived: true }, "channels")) {
+            this.set(teamId, "channel", channel);
+            if ((channel.name || "").toLowerCase() === channelName) {
+                return channel;
+            }
+        }
+        return undefined;
+    }
+
+    public getTeam(teamId?: string): Promise<ISlackTeamInfo> {
+        return this.lookup(teamId, "team", this.getTeamEntryId(teamId), async (client) => {
+            const result = await client.team.info(teamId ? { team: teamId } : {}) as Record<string, any>;
+            return result.team;
+        }) as Promise<ISlackTeamInfo>;
+    }
+
+    /**
+     * Fills the cache with every user and/or channel in the workspace (using users.list and conversations.list) so
+     * that the first lookups don't have to wait.
+     * @param options What to load.  Defaults to both users and channels.
+     */
+    public async warmUp(options: ISlackWarmUpOptions = {}): Promise<void> {
+        const client = await this.getClient(options.teamId);
+        if (options.users !== false) {
+            for await (const user of paginate<ISlackUserInfo>(client, "users.list", {}, "members")) {
+                this.set(options.teamId, "user", user);
+            }
+        }
+        if (options.channels !== false) {
+            for await (const channel of paginate<ISlackChannelInfo>(client, "conversations.list",
+                { types: "public_channel,private_channel", exclude_archived: true }, "channels")) {
+                this.set(options.teamId, "channel", channel);
+            }
+        }
+    }
+
+    public invalidateUser(userId: string, teamId?: string) {
+        this.entries.delete(this.getKey(teamId, "user", userId));
+    }
+
+    public invalidateChannel(channelId: string, teamId?: string) {
+        this.entries.delete(this.getKey(teamId, "channel", channelId));
+    }
+
+    public invalidateTeam(teamId?: string) {
+        this.entries.delete(this.getKey(teamId, "team", this.getTeamEntryId(teamId)));
+    }
+
+    public clear() {
+        this.entries.clear();
+        this.emails.clear();
+        this.channelNames.clear();
+    }
+
+    public getStats(): ISlackMetadataCacheStats {
+        return { ...this.stats, size: this.entries.size };
+    }
+
+    /**
+     * Updates the cache from one of the METADATA_CACHE_EVENTS.
+     * @param event The inner event.
+     * @param body The event_callback that it came in (which says which workspace it's from)
+     */
+    public handleEvent(event: SlackPayload, body?: SlackPayload) {
+        const teamId = this.getTeamIdForEvent(body);
+        switch (event.type) {
+            case "user_change":
+            case "team_join":
+                if (event.user && typeof event.user === "object") {
+                    this.set(teamId, "user", event.user);
+                }
+                break;
+            case "channel_rename":
+            case "group_rename":
+            case "channel_archive":
+            case "channel_unarchive":
+            case "channel_deleted":
+            case "group_archive":
+            case "group_unarchive":
+            case "member_joined_channel":
+            case "member_left_channel":
+                this.invalidateChannel(typeof event.channel === "object" ? event.channel.id : event.channel, teamId);
+                break;
+            case "team_rename":
+            case "team_domain_change":
+                this.invalidateTeam(teamId);
+                break;
+        }
+    }
+
+    protected async lookup(teamId: string, kind: EntryKind, id: string,
+                           load: (client: WebClient) => Promise<Record<string, any>>): Promise<Record<string, any>> {
+        const key = this.getKey(teamId, kind, id);
+        const entry = this.entries.get(key);
+        if (entry && entry.expires > Date.now()) {
+            this.stats.hits++;
+            return entry.value;
+        }
+
+        this.stats.misses++;
+
+        // callers asking for the same thing at the same time share one call.
+        let pending = this.inFlight.get(key);
+        if (!pending) {
+            pending = this.getClient(teamId)
+                .then((client) => load(client))
+                .then((value) => value ? this.set(teamId, kind, value, id) : value)
+                .finally(() => this.inFlight.delete(key));
+            this.inFlight.set(key, pending);
+        }
+        return pending;
+    }
+
+    protected set(teamId: string, kind: EntryKind, value: Record<string, any>, id?: string): Record<string, any> {
+        const key = this.getKey(teamId, kind, id === undefined ? value.id : id);
+        this.entries.delete(key);
+        this.entries.set(key, { value, expires: Date.now() + this.getTtl() });
+
+        if (kind === "user" && getEmail(value)) {
+            this.emails.set(this.getKey(teamId, "email", getEmail(value)), value.id);
+        } else if (kind === "channel" && value.name) {
+            this.channelNames.set(this.getKey(teamId, "name", value.name.toLowerCase()), value.id);
+        }
+
+        const maxEntries = this.config.maxEntries || DEFAULT_MAX_ENTRIES;
+        while (this.entries.size > maxEntries) {
+            this.entries.delete(this.entries.keys().next().value);
+        }
+        return value;
+    }
+
+    protected getClient(teamId: string): Promise<WebClient> {
+        return this.conn.getClient(teamId ? { team_id: teamId } : {});
+    }
+
+    protected getTeamIdForEvent(body: SlackPayload): string {
+        return getInstallationQuery(body).teamId;
+    }
+
+    protected getKey(teamId: string, kind: string, id: string): string {
+        // with a single workspace, entries are kept the same way whether or not the team was given.
+        const team = this.conn.installer ? teamId || "" : "";
+        return `${team}:${kind}:${id}`;
+    }
+
+    protected getTeamEntryId(teamId: string): string {
+        return this.conn.installer ? teamId || "" : "";
+    }
+
+    protected getTtl(): number {
+        return this.config.ttl === undefined ? DEFAULT_TTL : this.config.ttl;
+    }
+}
+
+function getEmail(user: Record<string, any>): string {
+    const email = user.profile ? user.profile.email : undefined;
+    return email ? email.toLowerCase() : undefined;
+}
@@ -0,0 +1,121 @@
+import { ISlackAckResponse, SlackPayload } from ".";
+import { getInstallationQuery } from "./installationStore";
+import { createCorrelationId } from "./observability";
+
+export type SlackMiddlewareType = "command" | "event" | "interaction";
+
+/**
+ * What middleware (and, through the last parameter, handlers) are given.  The fields at the top are pulled out of
+ * the payload so that middleware doesn't need to know where each type of payload keeps them.  Anything added to
+ * `state` is available to the middleware and handler that run after.
+ */
+export interface ISlackMiddlewareContext {
+    type: SlackMiddlewareType;
+
+    // The command (with the sub-command path), event type or interaction type.
+    name: string;
+
+    teamId: string;
+    enterpriseId: string;
+    userId: string;
+    channelId: string;
+    payload: SlackPayload;
+
+    // Follows the request through its middleware, handler and any calls to Slack that they make.
+    correlationId: string;
+
+    state: Record<string, any>;
+
+    // Set if the handler failed (even if the failure was turned into a message for the user)
+    error?: Error;
+
+    // Set by ack (or by the handler once it has run)
+    response?: ISlackAckResponse;
+
+    /**
+     * Sets the response that is sent back to Slack.  Middleware that calls this and doesn't call next stops the
+     * handler from running.
+     */
+    ack(response?: ISlackAckResponse): void;
+}
+
+/**
+ * Middleware in the style of Koa: do something, call `await next()` to run the rest of the chain (ending with the
+ * handler) and then optionally do something else.  Not calling next short-circuits the chain.
+ *
+ *   const timing: SlackMiddleware = async (ctx, next) => {
+ *       const start = Date.now();
+ *       await next();
+ *       logger(`${ctx.type} ${ctx.name} took ${Date.now() - start}ms`);
+ *   };
+ */
+export type SlackMiddleware = (ctx: ISlackMiddlewareContext, next: () => Promise<void>) => Promise<void>;
+
+/**
+ * Builds the context for the given payload.
+ * @param type What kind of payload it is.
+ * @param name The command, event type or interaction type.
+ * @param payload The payload received from Slack.
+ * @param envelope The event_callback that an event came in (which is where the team is)
+ */
+export function createMiddlewareContext(type: SlackMiddlewareType, name: string, payload: SlackPayload,
+                                        envelope?: SlackPayload): ISlackMiddlewareContext {
+    const fromPayload = getInstallationQuery(payload);
+    const fromEnvelope = getInstallationQuery(envelope);
+    const teamId = fromPayload.teamId || fromEnvelope.teamId;
+    const enterpriseId = fromPayload.enterpriseId || fromEnvelope.enterpriseId;
+    const ctx: ISlackMiddlewareContext = {
+        type,
+        name,
+        teamId,
+        enterpriseId,
+        userId: getId(payload, "user_id", "user"),
+        channelId: getId(payload, "channel_id", "channel") || getId(payload.item || {}, "channel_id", "channel"),
+        payload,
+        correlationId: createCorrelationId(),
+        state: {},
+        ack: (response?: ISlackAckResponse) => {
+            ctx.response = response || {};
+        }
+    };
+    return ctx;
+}
+
+/**
+ * Runs the middleware in order and then the handler (if none of the middleware short-circuited).  Resolves with
+ * the response: whatever was given to ack or returned by the handler.
+ * @param middleware The middleware to run.
+ * @param ctx The context to give each one.
+ * @param handler The handler at the end of the chain.
+ */
+export async function runMiddleware(middleware: SlackMiddleware[], ctx: ISlackMiddlewareContext,
+                                    handler: () => Promise<ISlackAckResponse | void>): Promise<ISlackAckResponse> {
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<void> => {
+        if (index <= lastIndex) {
+            throw new Error("next() was called more than once by the same middleware");
+        }
+        lastIndex = index;
+
+        if (index === middleware.length) {
+            const result = await handler();
+            if (result) {
+                ctx.response = result;
+            }
+            return;
+        }
+        await middleware[index](ctx, () => dispatch(index + 1));
+    };
+
+    await dispatch(0);
+    return ctx.response;
+}
+
+function getId(payload: SlackPayload, idField: string, field: string): string {
+    if (payload[idField]) {
+        return payload[idField];
+    }
+    const value = payload[field];
+    return value && typeof value === "object" ? value.id : value;
+}
@@ -0,0 +1,261 @@
+import * as crypto from "crypto";
+import * as querystring from "querystring";
+import { WebClient } from "@slack/web-api";
+import { OAuthV2AccessArguments } from "@slack/web-api/dist/methods";
+import { Request, Response } from "express";
+import { logger } from ".";
+import { ISlackInstallation, ISlackInstallationStore, MemoryInstallationStore } from "./installationStore";
+
+/**
+ * Configuration for installing the app into multiple workspaces using OAuth v2.  The client ID and secret
+ * come from the main app config.
+ * https://api.slack.com/authentication/oauth-v2
+ */
+export interface ISlackOAuthConfig {
+    scopes: string[];
+    userScopes?: string[];
+
+    // Must match one of the redirect URLs configured for the app.  If not given, Slack uses the first one.
+    redirectUri?: string;
+
+    // Used to sign the state parameter.  Defaults to the client secret.
+    stateSecret?: string;
+
+    // The number of milliseconds the user has to complete the install.  Defaults to 10 minutes.
+    stateExpiration?: number;
+
+    // Where installations are kept.  Defaults to an in-memory store.
+    installationStore?: ISlackInstallationStore;
+
+    // If given, the user is redirected here after the install instead of being shown a simple page.
+    successUrl?: string;
+    failureUrl?: string;
+}
+
+export const INSTALL_PATH = "/slack/install";
+export const REDIRECT_PATH = "/slack/oauth_redirect";
+
+const AUTHORIZE_URL = "https://slack.com/oauth/v2/authorize";
+const STATE_COOKIE = "slack-app-oauth-state";
+const DEFAULT_STATE_EXPIRATION = 10 * 60 * 1000;
+
+/**
+ * Handles the two halves of the OAuth install flow.  The install route redirects the user to Slack with a signed
+ * state parameter that is also set in a cookie.  The redirect route checks that the state that comes back matches
+ * the cookie (so the request must have come from the same browser that started the install), exchanges the code
+ * for tokens and saves the resulting installation.
+ */
+export class SlackOAuthInstaller {
+
+    public readonly installationStore: ISlackInstallationStore;
+    protected config: ISlackOAuthConfig;
+    protected clientId: string;
+    protected clientSecret: string;
+    protected client: WebClient;
+
+    public constructor(clientId: string, clientSecret: string, config: ISlackOAuthConfig) {
+        if (!clientId || !clientSecret) {
+            throw new Error("A client ID and client secret are required to install the app using OAuth");
+        }
+        this.clientId = clientId;
+        this.clientSecret = clientSecret;
+        this.config = config;
+        this.installationStore = config.installationStore || new MemoryInstallationStore();
+        this.client = new WebClient();
+    }
+
+    /**
+     * Creates a new state parameter.  It is made up of a random nonce and an expiration time signed with the
+     * state secret.
+     */
+    public generateState(): string {
+        const expires = Date.now() + (this.config.stateExpiration || DEFAULT_STATE_EXPIRATION);
+        const data = `${crypto.randomBytes(16).toString("hex")}.${expires}`;
+        return `${data}.${this.sign(data)}`;
+    }
+
+    /**
+     * Returns true if the given state was created by us and has not expired.
+     * @param state The state parameter to check.
+     */
+    public verifyState(state: string): boolean {
+        if (!state) {
+            return false;
+        }
+
+        const parts = state.split(".");
+        if (parts.length !== 3) {
+            return false;
+        }
+
+        const data = `${parts[0]}.${parts[1]}`;
+        const expected = Buffer.from(this.sign(data));
+        const actual = Buffer.from(parts[2]);
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+            return false;
+        }
+
+        return parseInt(parts[1], 10) > Date.now();
+    }
+
+    /**
+     * Returns the URL that the user should be sent to in order to approve the install.
+     * @param state The state parameter to include.
+     */
+    public getAuthorizeUrl(state: string): string {
+        const params: Record<string, string> = {
+            client_id: this.clientId,
+            scope: (this.config.scopes || []).join(","),
+            state
+        };
+        if (this.config.userScopes && this.config.userScopes.length > 0) {
+            params.user_scope = this.config.userScopes.join(",");
+        }
+        if (this.config.redirectUri) {
+            params.redirect_uri = this.config.redirectUri;
+        }
+        return `${AUTHORIZE_URL}?${querystring.stringify(params)}`;
+    }
+
+    /**
+     * Express handler for the install route.
+     */
+    public handleInstall(req: Request, res: Response) {
+        const state = this.generateState();
+        const maxAge = Math.floor((this.config.stateExpiration || DEFAULT_STATE_EXPIRATION) / 1000);
+        res.setHeader("Set-Cookie", `${STATE_COOKIE}=${state}; Path=${getRedirectPath(req)}; Max-Age=${maxAge}; ` +
+            "HttpOnly; Secure; SameSite=Lax");
+        res.redirect(this.getAuthorizeUrl(state));
+    }
+
+    /**
+     * Express handler for the redirect route.
+     */
+    public async handleRedirect(req: Request, res: Response) {
+        // the cookie has served its purpose whether or not this works.
+        res.setHeader("Set-Cookie",
+            `${STATE_COOKIE}=; Path=${getRedirectPath(req)}; Max-Age=0; HttpOnly; Secure; SameSite=Lax`);
+
+        const query = req.query as Record<string, string>;
+        if (query.error) {
+            return this.fail(res, `The install was not completed: ${query.error}`);
+        }
+
+        const state = query.state;
+        const cookieState = getCookie(req, STATE_COOKIE);
+        if (!state || state !== cookieState || !this.verifyState(state)) {
+            return this.fail(res, "The install link is invalid or has expired.  Please try again.", 400);
+        }
+
+        if (!query.code) {
+            return this.fail(res, "The install did not include an authorization code", 400);
+        }
+
+        try {
+            const installation = await this.exchangeCode(query.code);
+            await this.installationStore.storeInstallation(installation);
+            logger(`installed in team ${installation.teamId} (enterprise ${installation.enterpriseId})`);
+        } catch (e) {
+            logger("OAuth install failed: " + e.toString());
+            return this.fail(res, "The install failed.  Please try again.", 500);
+        }
+
+        if (this.config.successUrl) {
+            return res.redirect(this.config.successUrl);
+        }
+        return res.status(200).send("<html><body><h1>Success!</h1><p>The app has been installed.</p></body></html>");
+    }
+
+    /**
+     * Exchanges the temporary code for tokens and converts the response into an installation.
+     * @param code The code that Slack sent to the redirect route.
+     */
+    protected async exchangeCode(code: string): Promise<ISlackInstallation> {
+        const args: OAuthV2AccessArguments = {
+            client_id: this.clientId,
+            client_secret: this.clientSecret,
+            code
+        };
+        if (this.config.redirectUri) {
+            args.redirect_uri = this.config.redirectUri;
+        }
+
+        const result = await this.client.oauth.v2.access(args) as Record<string, any>;
+        if (!result.ok) {
+            throw new Error(`oauth.v2.access failed with ${result.error}`);
+        }
+
+        const installation: ISlackInstallation = {
+            teamId: result.team ? result.team.id : undefined,
+            teamName: result.team ? result.team.name : undefined,
+            enterpriseId: result.enterprise ? result.enterprise.id : undefined,
+            enterpriseName: result.enterprise ? result.enterprise.name : undefined,
+            isEnterpriseInstall: !!result.is_enterprise_install,
+            appId: result.app_id,
+            botUserId: result.bot_user_id,
+            botToken: result.access_token,
+            botScopes: result.scope ? result.scope.split(",") : [],
+            installedAt: Date.now()
+        };
+
+        if (result.authed_user) {
+            installation.userId = result.authed_user.id;
+            installation.userToken = result.authed_user.access_token;
+            installation.userScopes = result.authed_user.scope ? result.authed_user.scope.split(",") : [];
+        }
+
+        if (result.incoming_webhook) {
+            installation.incomingWebhook = {
+                url: result.incoming_webhook.url,
+                channel: result.incoming_webhook.channel,
+                channelId: result.incoming_webhook.channel_id,
+                configurationUrl: result.incoming_webhook.configuration_url
+            };
+        }
+
+        return installation;
+    }
+
+    protected fail(res: Response, message: string, status: number = 200) {
+        if (this.config.failureUrl) {
+            return res.redirect(this.config.failureUrl);
+        }
+        return res.status(status).send(`<html><body><h1>Oops!</h1><p>${escapeHtml(message)}</p></body></html>`);
+    }
+
+    protected sign(data: string): string {
+        return crypto.createHmac("sha256", this.config.stateSecret || this.clientSecret).update(data).digest("hex");
+    }
+}
+
+/**
+ * Returns the path of the redirect route as the browser sees it.  The subApp is usually mounted under a prefix (e.g.
+ * /nexus/<module>) which the cookie's path has to include for the browser to send it back.
+ * @param req A request to either of the OAuth routes.
+ */
+function getRedirectPath(req: Request): string {
+    return (req.baseUrl || "") + REDIRECT_PATH;
+}
+
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Reads a single cookie from the request without needing cookie parsing middleware.
+ * @param req The incoming request.
+ * @param name The name of the cookie.
+ */
+function getCookie(req: Request, name: string): string {
+    const header = req.headers.cookie;
+    if (!header) {
+        return undefined;
+    }
+    for (const pair of header.split(";")) {
+        const eq = pair.indexOf("=");
+        if (eq > -1 && pair.substring(0, eq).trim() === name) {
+            return decodeURIComponent(pair.substring(eq + 1).trim());
+        }
+    }
+    return undefined;
+}
@@ -0,0 +1,301 @@
+import { AsyncLocalStorage } from "async_hooks";
+import * as crypto from "crypto";
+import { WebAPICallOptions, WebAPICallResult, WebClientOptions } from "@slack/web-api";
+import { logger, SlackConnection } from ".";
+import { ISlackMiddlewareContext } from "./middleware";
+import { ScheduledWebClient, SlackRequestScheduler } from "./rateLimiter";
+
+export type SlackTrafficDirection = "inbound" | "outbound";
+export type SlackTrafficKind = "command" | "event" | "interaction" | "webApi" | "webhook" | "responseUrl";
+export type SlackTrafficOutcome = "success" | "error";
+
+/**
+ * What is recorded for every command, event and interaction that is handled and every call we make to Slack.
+ * Outbound calls made while a handler is running share its correlation ID.
+ */
+export interface ISlackTrafficRecord {
+    direction: SlackTrafficDirection;
+    kind: SlackTrafficKind;
+
+    // The command (with the sub-command path), event type, interaction type or Web API method.
+    name: string;
+
+    correlationId: string;
+    teamId?: string;
+    userId?: string;
+    channelId?: string;
+
+    startedAt: number;
+    latencyMs: number;
+    outcome: SlackTrafficOutcome;
+    error?: string;
+}
+
+export type SlackObservabilityHook = (record: ISlackTrafficRecord) => void;
+
+export interface ISlackObservabilityConfig {
+    // Called with every record.
+    hooks?: SlackObservabilityHook[];
+
+    // Write every record to the debug log as JSON.
+    log?: boolean;
+
+    // Where the metrics are served (in the Prometheus text format) on the subApp.  Defaults to /metrics.  Set this to
+    //  false to leave the route out.
+    metricsPath?: string | false;
+}
+
+interface ICorrelation {
+    correlationId: string;
+    teamId?: string;
+    userId?: string;
+    channelId?: string;
+}
+
+interface IHistogram {
+    labels: Record<string, string>;
+    buckets: number[];
+    sum: number;
+    count: number;
+}
+
+// in seconds.
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export const DEFAULT_METRICS_PATH = "/metrics";
+
+/**
+ * Creates a new correlation ID.
+ */
+export function createCorrelationId(): string {
+    return crypto.randomBytes(8).toString("hex");
+}
+
+/**
+ * Records inbound and outbound traffic, passes the records to the hooks and keeps the counts and latencies that are
+ * served on the metrics route.
+ */
+export class SlackObservability {
+
+    protected hooks: SlackObservabilityHook[];
+    protected storage: AsyncLocalStorage<ICorrelation> = new AsyncLocalStorage();
+    protected counters: Map<string, { name: string, labels: Record<string, string>, value: number }> = new Map();
+    protected histograms: Map<string, IHistogram> = new Map();
+
+    public constructor(protected conn: SlackConnection, protected config: ISlackObservabilityConfig = {}) {
+        this.hooks = [...(config.hooks || [])];
+    }
+
+    public addHook(hook: SlackObservabilityHook) {
+        this.hooks.push(hook);
+    }
+
+    /**
+     * Returns the correlation ID of the handler that is currently running (if any)
+     */
+    public getCorrelationId(): string {
+        const correlation = this.storage.getStore();
+        return correlation ? correlation.correlationId : undefined;
+    }
+
+    /**
+     * Runs a handler and records it.  Anything the handler calls (including other Slack calls) is given the
+     * handler's correlation ID.
+     * @param kind What's being handled.
+     * @param ctx The middleware context of the request.
+     * @param handler Runs the middleware and the handler.
+     */
+    public observeInbound<T>(kind: SlackTrafficKind, ctx: ISlackMiddlewareContext, handler: () => Promise<T>): Promise<T> {
+        const correlation: ICorrelation = {
+            correlationId: ctx.correlationId,
+            teamId: ctx.teamId,
+            userId: ctx.userId,
+            channelId: ctx.channelId
+        };
+        return new Promise<T>((resolve, reject) => this.storage.run(correlation, () => {
+            this.observe({ direction: "inbound", kind, name: ctx.name, ...correlation }, handler, () => ctx.error)
+                .then(resolve, reject);
+        }));
+    }
+
+    /**
+     * Makes a call to Slack and records it.
+     * @param kind What's being called.
+     * @param name The Web API method (or the kind again for webhooks and response_urls)
+     * @param call Makes the call.
+     * @param getError Returns the error for calls that resolve even when they fail.
+     * @param teamId The team the call is for (if known)
+     */
+    public observeOutbound<T>(kind: SlackTrafficKind, name: string, call: () => Promise<T>,
+                              getError?: (result: T) => Error, teamId?: string): Promise<T> {
+        const correlation = this.storage.getStore() || { correlationId: createCorrelationId() };
+        return this.observe({
+            direction: "outbound",
+            kind,
+            name,
+            ...correlation,
+            teamId: teamId || correlation.teamId
+        }, call, getError);
+    }
+
+    /**
+     * Sends a record to the hooks and adds it to the metrics.
+     */
+    public record(record: ISlackTrafficRecord) {
+        this.updateMetrics(record);
+
+        if (this.config.log) {
+            logger(JSON.stringify(record));
+        }
+        for (const hook of this.hooks) {
+            try {
+                hook(record);
+            } catch (e) {
+                logger("An observability hook failed: " + e.message);
+            }
+        }
+    }
+
+    /**
+     * Returns the metrics in the Prometheus text format.
+     */
+    public renderMetrics(): string {
+        const lines: string[] = [];
+
+        const counters = Array.from(this.counters.values());
+        for (const [name, help] of [
+            ["slack_inbound_total", "Commands, events and interactions handled"],
+            ["slack_outbound_total", "Web API, webhook and response_url calls made"]
+        ]) {
+            lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+            for (const counter of counters.filter((c) => c.name === name)) {
+                lines.push(`${name}${formatLabels(counter.labels)} ${counter.value}`);
+            }
+        }
+
+        for (const direction of ["inbound", "outbound"]) {
+            const name = `slack_${direction}_latency_seconds`;
+            lines.push(`# HELP ${name} How long ${direction} traffic took`, `# TYPE ${name} histogram`);
+            for (const [key, histogram] of this.histograms) {
+                if (!key.startsWith(direction + ":")) {
+                    continue;
+                }
+                LATENCY_BUCKETS.forEach((le, i) => lines.push(
+                    `${name}_bucket${formatLabels({ ...histogram.labels, le: String(le) })} ${histogram.buckets[i]}`));
+                lines.push(`${name}_bucket${formatLabels({ ...histogram.labels, le: "+Inf" })} ${histogram.count}`);
+                lines.push(`${name}_sum${formatLabels(histogram.labels)} ${histogram.sum}`);
+                lines.push(`${name}_count${formatLabels(histogram.labels)} ${histogram.count}`);
+            }
+        }
+
+        const stats = this.conn.eventStats;
+        if (stats) {
+            lines.push("# HELP slack_event_deliveries_total Event deliveries received from Slack",
+                "# TYPE slack_event_deliveries_total counter");
+            for (const result of ["received", "retries", "duplicates", "ignoredRetries"]) {
+                lines.push(`slack_event_deliveries_total${formatLabels({ result })} ${(stats as any)[result]}`);
+            }
+        }
+
+        if (this.conn.payloadValidator) {
+            lines.push("# HELP slack_schema_drift_total Payloads that didn't match their types",
+                "# TYPE slack_schema_drift_total counter");
+            for (const drift of this.conn.payloadValidator.getStats()) {
+                lines.push(`slack_schema_drift_total${formatLabels({ source: drift.source, type: drift.type })} ` +
+                    drift.count);
+            }
+        }
+
+        if (this.conn.scheduler) {
+            const metrics = this.conn.scheduler.getMetrics();
+            lines.push("# HELP slack_rate_limit_queued Web API calls waiting to be sent",
+                "# TYPE slack_rate_limit_queued gauge",
+                `slack_rate_limit_queued ${metrics.queued}`,
+                "# HELP slack_rate_limited_total Web API calls that Slack rate limited",
+                "# TYPE slack_rate_limited_total counter",
+                `slack_rate_limited_total ${metrics.rateLimited}`);
+        }
+
+        return lines.join("\n") + "\n";
+    }
+
+    protected async observe<T>(fields: Pick<ISlackTrafficRecord, "direction" | "kind" | "name" | "correlationId" |
+                                   "teamId" | "userId" | "channelId">,
+                               fn: () => Promise<T>, getError?: (result: T) => Error): Promise<T> {
+        const startedAt = Date.now();
+        const start = process.hrtime();
+        const finish = (error: Error) => {
+            const [seconds, nanoseconds] = process.hrtime(start);
+            this.record({
+                ...fields,
+                startedAt,
+                latencyMs: Math.round((seconds * 1e3 + nanoseconds / 1e6) * 1000) / 1000,
+                outcome: error ? "error" : "success",
+                error: error ? error.message : undefined
+            });
+        };
+
+        let result: T;
+        try {
+            result = await fn();
+        } catch (e) {
+            finish(e);
+            throw e;
+        }
+        finish(getError ? getError(result) : undefined);
+        return result;
+    }
+
+    protected updateMetrics(record: ISlackTrafficRecord) {
+        const labels = { kind: record.kind, name: record.name };
+
+        const counterName = `slack_${record.direction}_total`;
+        const counterLabels = { ...labels, outcome: record.outcome };
+        const counterKey = counterName + formatLabels(counterLabels);
+        const counter = this.counters.get(counterKey) || { name: counterName, labels: counterLabels, value: 0 };
+        counter.value++;
+        this.counters.set(counterKey, counter);
+
+        const histogramKey = `${record.direction}:${formatLabels(labels)}`;
+        let histogram = this.histograms.get(histogramKey);
+        if (!histogram) {
+            histogram = { labels, buckets: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+            this.histograms.set(histogramKey, histogram);
+        }
+        const seconds = record.latencyMs / 1000;
+        LATENCY_BUCKETS.forEach((le, i) => {
+            if (seconds <= le) {
+                histogram.buckets[i]++;
+            }
+        });
+        histogram.sum += seconds;
+        histogram.count++;
+    }
+}
+
+/**
+ * A Web API client that records every call it makes (and queues them with the scheduler if one is given)
+ */
+export class ObservedWebClient extends ScheduledWebClient {
+
+    protected observability: SlackObservability;
+    protected observedTeam: string;
+
+    public constructor(token: string, observability: SlackObservability, scheduler: SlackRequestScheduler,
+                       teamKey?: string, options: WebClientOptions = {}) {
+        super(token, scheduler, teamKey, options);
+        this.observability = observability;
+        this.observedTeam = teamKey;
+    }
+
+    public apiCall(method: string, options?: WebAPICallOptions): Promise<WebAPICallResult> {
+        return this.observability.observeOutbound("webApi", method, () => super.apiCall(method, options),
+            undefined, this.observedTeam);
+    }
+}
+
+function formatLabels(labels: Record<string, string>): string {
+    const pairs = Object.keys(labels).map((key) =>
+        `${key}="${String(labels[key]).replace(/\\/g, "\\\\").replace(/"/g, "\\\"").replace(/\n/g, "\\n")}"`);
+    return `{${pairs.join(",")}}`;
+}
@@ -0,0 +1,587 @@
+import { logger, SlackPayload } from ".";
+import { SlackChannelType } from "./eventRouter";
+
+/*****
+ * EVENTS
+ *
+ * The fields that Slack documents for the common Events API events.  Slack adds fields over time so every payload
+ * also allows for fields that aren't listed here.
+ */
+
+/**
+ * A message as it appears inside another payload (the edited message in message_changed, the message a shortcut
+ * was used on, etc.)
+ */
+export interface ISlackPayloadMessage {
+    type: "message";
+    subtype?: string;
+    ts: string;
+    user?: string;
+    bot_id?: string;
+    app_id?: string;
+    text?: string;
+    thread_ts?: string;
+    blocks?: SlackPayload[];
+    edited?: { user: string, ts: string };
+    [key: string]: any;
+}
+
+interface ISlackMessageEventBase {
+    type: "message";
+    channel: string;
+    channel_type?: SlackChannelType;
+    ts: string;
+    event_ts?: string;
+    thread_ts?: string;
+    team?: string;
+    [key: string]: any;
+}
+
+/**
+ * A new message from a user (the only kind of message without a subtype)
+ */
+export interface ISlackUserMessageEvent extends ISlackMessageEventBase {
+    subtype?: never;
+    user: string;
+    text: string;
+    blocks?: SlackPayload[];
+    client_msg_id?: string;
+    parent_user_id?: string;
+}
+
+export interface ISlackBotMessageEvent extends ISlackMessageEventBase {
+    subtype: "bot_message";
+    bot_id: string;
+    text?: string;
+    username?: string;
+    app_id?: string;
+}
+
+export interface ISlackFileShareMessageEvent extends ISlackMessageEventBase {
+    subtype: "file_share";
+    user: string;
+    text?: string;
+    files: SlackPayload[];
+}
+
+export interface ISlackMessageChangedEvent extends ISlackMessageEventBase {
+    subtype: "message_changed";
+    message: ISlackPayloadMessage;
+    previous_message?: ISlackPayloadMessage;
+    hidden?: boolean;
+}
+
+export interface ISlackMessageDeletedEvent extends ISlackMessageEventBase {
+    subtype: "message_deleted";
+    deleted_ts: string;
+    previous_message?: ISlackPayloadMessage;
+    hidden?: boolean;
+}
+
+/**
+ * A thread reply that was also sent to the channel.
+ */
+export interface ISlackThreadBroadcastEvent extends ISlackMessageEventBase {
+    subtype: "thread_broadcast";
+    user: string;
+    text: string;
+    thread_ts: string;
+    root?: ISlackPayloadMessage;
+}
+
+export interface ISlackChannelJoinEvent extends ISlackMessageEventBase {
+    subtype: "channel_join";
+    user: string;
+    text?: string;
+    inviter?: string;
+}
+
+export interface ISlackChannelLeaveEvent extends ISlackMessageEventBase {
+    subtype: "channel_leave";
+    user: string;
+    text?: string;
+}
+
+/**
+ * Check the subtype to narrow this to one kind of message (or use isUserMessage for messages without one):
+ *
+ *   if (isUserMessage(event)) { ... event.user ... } else if (event.subtype === "message_changed") { ... }
+ */
+export type SlackMessageEvent = ISlackUserMessageEvent | ISlackBotMessageEvent | ISlackFileShareMessageEvent |
+    ISlackMessageChangedEvent | ISlackMessageDeletedEvent | ISlackThreadBroadcastEvent | ISlackChannelJoinEvent |
+    ISlackChannelLeaveEvent;
+
+export interface ISlackAppMentionEvent {
+    type: "app_mention";
+    user: string;
+    text: string;
+    ts: string;
+    channel: string;
+    event_ts: string;
+    thread_ts?: string;
+    team?: string;
+    blocks?: SlackPayload[];
+    [key: string]: any;
+}
+
+export type SlackReactionItem =
+    { type: "message", channel: string, ts: string } |
+    { type: "file", file: string } |
+    { type: "file_comment", file: string, file_comment: string };
+
+interface ISlackReactionEventBase {
+    user: string;
+    reaction: string;
+    item_user?: string;
+    item: SlackReactionItem;
+    event_ts: string;
+    [key: string]: any;
+}
+
+export interface ISlackReactionAddedEvent extends ISlackReactionEventBase {
+    type: "reaction_added";
+}
+
+export interface ISlackReactionRemovedEvent extends ISlackReactionEventBase {
+    type: "reaction_removed";
+}
+
+interface ISlackMemberChannelEventBase {
+    user: string;
+    channel: string;
+
+    // "C" for public channels and "G" for private ones.
+    channel_type: string;
+
+    team: string;
+    event_ts?: string;
+    [key: string]: any;
+}
+
+export interface ISlackMemberJoinedChannelEvent extends ISlackMemberChannelEventBase {
+    type: "member_joined_channel";
+    inviter?: string;
+}
+
+export interface ISlackMemberLeftChannelEvent extends ISlackMemberChannelEventBase {
+    type: "member_left_channel";
+}
+
+export interface ISlackAppHomeOpenedEvent {
+    type: "app_home_opened";
+    user: string;
+    channel: string;
+    tab: "home" | "messages";
+    event_ts: string;
+
+    // The Home tab as it was last published (only when the home tab is opened)
+    view?: ISlackPayloadView;
+    [key: string]: any;
+}
+
+/**
+ * The events that have types here, by event type.  Listeners and routes for these events are given the matching
+ * type (see SlackEventPayload).
+ */
+export interface ISlackEventMap {
+    message: SlackMessageEvent;
+    app_mention: ISlackAppMentionEvent;
+    reaction_added: ISlackReactionAddedEvent;
+    reaction_removed: ISlackReactionRemovedEvent;
+    member_joined_channel: ISlackMemberJoinedChannelEvent;
+    member_left_channel: ISlackMemberLeftChannelEvent;
+    app_home_opened: ISlackAppHomeOpenedEvent;
+}
+
+export type SlackEvent = ISlackEventMap[keyof ISlackEventMap];
+
+/**
+ * The payload given to handlers of the named event.  Events that don't have types here are untyped.
+ */
+export type SlackEventPayload<K extends string> = K extends keyof ISlackEventMap ? ISlackEventMap[K] : SlackPayload;
+
+/*****
+ * INTERACTIONS
+ */
+
+export interface ISlackPayloadView {
+    id: string;
+    type: string;
+    callback_id: string;
+    team_id?: string;
+    app_id?: string;
+    hash?: string;
+    private_metadata?: string;
+    external_id?: string;
+    root_view_id?: string;
+    previous_view_id?: string;
+    blocks?: SlackPayload[];
+
+    // The values of the inputs by block_id and then action_id.
+    state?: { values: Record<string, Record<string, SlackPayload>> };
+    [key: string]: any;
+}
+
+/**
+ * One of the actions in a block_actions payload.  Which of the selected_* fields is set depends on the element.
+ */
+export interface ISlackBlockAction {
+    type: string;
+    action_id: string;
+    block_id: string;
+    action_ts: string;
+    value?: string;
+    selected_option?: { text: SlackPayload, value: string };
+    selected_options?: { text: SlackPayload, value: string }[];
+    selected_user?: string;
+    selected_users?: string[];
+    selected_channel?: string;
+    selected_conversation?: string;
+    selected_date?: string;
+    selected_time?: string;
+    [key: string]: any;
+}
+
+interface ISlackInteractionBase {
+    api_app_id?: string;
+    team: { id: string, domain?: string, enterprise_id?: string };
+    user: { id: string, username?: string, name?: string, team_id?: string };
+    enterprise?: { id: string, name?: string };
+    is_enterprise_install?: boolean;
+    [key: string]: any;
+}
+
+export interface ISlackBlockActionsPayload extends ISlackInteractionBase {
+    type: "block_actions";
+    trigger_id: string;
+    actions: ISlackBlockAction[];
+
+    // Where the actions happened (a message or a view)
+    container: SlackPayload;
+
+    channel?: { id: string, name?: string };
+    message?: ISlackPayloadMessage;
+    view?: ISlackPayloadView;
+    response_url?: string;
+}
+
+export interface ISlackBlockSuggestionPayload extends ISlackInteractionBase {
+    type: "block_suggestion";
+    action_id: string;
+    block_id: string;
+    value: string;
+    container?: SlackPayload;
+    view?: ISlackPayloadView;
+}
+
+export interface ISlackViewSubmissionPayload extends ISlackInteractionBase {
+    type: "view_submission";
+    trigger_id?: string;
+    view: ISlackPayloadView;
+    response_urls?: { block_id: string, action_id: string, channel_id: string, response_url: string }[];
+}
+
+export interface ISlackViewClosedPayload extends ISlackInteractionBase {
+    type: "view_closed";
+    view: ISlackPayloadView;
+    is_cleared: boolean;
+}
+
+/**
+ * A global shortcut (from the shortcuts menu or search)
+ */
+export interface ISlackShortcutPayload extends ISlackInteractionBase {
+    type: "shortcut";
+    callback_id: string;
+    trigger_id: string;
+    action_ts?: string;
+}
+
+/**
+ * A message shortcut (from a message's menu)
+ */
+export interface ISlackMessageActionPayload extends ISlackInteractionBase {
+    type: "message_action";
+    callback_id: string;
+    trigger_id: string;
+    response_url: string;
+    message_ts: string;
+    message: ISlackPayloadMessage;
+    channel: { id: string, name?: string };
+}
+
+export interface ISlackInteractionPayloadMap {
+    block_actions: ISlackBlockActionsPayload;
+    block_suggestion: ISlackBlockSuggestionPayload;
+    view_submission: ISlackViewSubmissionPayload;
+    view_closed: ISlackViewClosedPayload;
+    shortcut: ISlackShortcutPayload;
+    message_action: ISlackMessageActionPayload;
+}
+
+export type SlackInteractionPayload = ISlackInteractionPayloadMap[keyof ISlackInteractionPayloadMap];
+
+/*****
+ * VALIDATION
+ */
+
+export type SlackPayloadSource = "event" | "interaction";
+
+/**
+ * A payload that didn't have the shape that its type says it should.  The payload is still handled.
+ */
+export interface ISlackSchemaDrift {
+    source: SlackPayloadSource;
+    type: string;
+    subtype?: string;
+    problems: string[];
+    payload: SlackPayload;
+}
+
+export type SlackSchemaDriftHandler = (drift: ISlackSchemaDrift) => void;
+
+export interface ISlackPayloadValidationConfig {
+    // Called for every payload that doesn't match its type.  Each different problem is also logged (once).
+    onDrift?: SlackSchemaDriftHandler;
+}
+
+type FieldType = "string" | "number" | "boolean" | "object" | "array";
+
+// The fields (dotted for nested fields) that are checked and the type they should have.  Fields ending in "?" are
+//  only checked if they're there.
+type PayloadSchema = Record<string, FieldType>;
+
+const REACTION_SCHEMA: PayloadSchema = {
+    "user": "string",
+    "reaction": "string",
+    "item": "object",
+    "item.type": "string"
+};
+
+const MEMBER_CHANNEL_SCHEMA: PayloadSchema = {
+    "user": "string",
+    "channel": "string"
+};
+
+// Messages are keyed by "message/<subtype>".  Messages with a subtype that isn't listed are checked against
+//  "message/*".
+const EVENT_SCHEMAS: Record<string, PayloadSchema> = {
+    "message": { "channel": "string", "ts": "string", "user": "string", "text": "string" },
+    "message/bot_message": { "channel": "string", "ts": "string", "bot_id": "string" },
+    "message/file_share": { "channel": "string", "ts": "string", "files": "array" },
+    "message/message_changed": { "channel": "string", "ts": "string", "message": "object", "message.ts": "string" },
+    "message/message_deleted": { "channel": "string", "ts": "string", "deleted_ts": "string" },
+    "message/thread_broadcast": { "channel": "string", "ts": "string", "user": "string", "thread_ts": "string" },
+    "message/channel_join": { "channel": "string", "ts": "string", "user": "string" },
+    "message/channel_leave": { "channel": "string", "ts": "string", "user": "string" },
+    "message/*": { "channel": "string", "ts": "string" },
+    "app_mention": { "user": "string", "text": "string", "ts": "string", "channel": "string" },
+    "reaction_added": REACTION_SCHEMA,
+    "reaction_removed": REACTION_SCHEMA,
+    "member_joined_channel": MEMBER_CHANNEL_SCHEMA,
+    "member_left_channel": MEMBER_CHANNEL_SCHEMA,
+    "app_home_opened": { "user": "string", "channel": "string", "tab": "string", "view?": "object" }
+};
+
+const INTERACTION_SCHEMAS: Record<string, PayloadSchema> = {
+    "block_actions": {
+        "user": "object",
+        "user.id": "string",
+        "actions": "array",
+        "trigger_id": "string",
+        "view?": "object",
+        "message?": "object"
+    },
+    "block_suggestion": { "user": "object", "user.id": "string", "action_id": "string", "value": "string" },
+    "view_submission": {
+        "user": "object",
+        "user.id": "string",
+        "view": "object",
+        "view.id": "string",
+        "view.callback_id": "string",
+        "view.state?": "object"
+    },
+    "view_closed": { "user": "object", "user.id": "string", "view": "object", "view.id": "string" },
+    "shortcut": { "user": "object", "user.id": "string", "callback_id": "string", "trigger_id": "string" },
+    "message_action": {
+        "user": "object",
+        "user.id": "string",
+        "callback_id": "string",
+        "trigger_id": "string",
+        "message": "object",
+        "message.ts": "string",
+        "channel": "object",
+        "channel.id": "string"
+    }
+};
+
+/**
+ * Checks an event against its type.  Returns the problems found (an empty list if there are none or if the event
+ * type has no schema)
+ * @param event The inner event.
+ */
+export function validateEvent(event: SlackPayload): string[] {
+    if (!event || typeof event.type !== "string") {
+        return ["the event has no type"];
+    }
+
+    let schema = EVENT_SCHEMAS[event.type];
+    if (event.type === "message" && event.subtype) {
+        schema = EVENT_SCHEMAS[`message/${event.subtype}`] || EVENT_SCHEMAS["message/*"];
+    }
+    return schema ? checkSchema(event, schema) : [];
+}
+
+/**
+ * Checks an interaction payload against its type.  Returns the problems found (an empty list if there are none or
+ * if the interaction type has no schema)
+ * @param payload The interaction payload.
+ */
+export function validateInteraction(payload: SlackPayload): string[] {
+    if (!payload || typeof payload.type !== "string") {
+        return ["the payload has no type"];
+    }
+
+    const schema = INTERACTION_SCHEMAS[payload.type];
+    return schema ? checkSchema(payload, schema) : [];
+}
+
+/**
+ * True if the event is of the given type and has the fields that the type says it has.
+ *
+ *   if (isEvent(payload, "reaction_added")) { ... payload.item ... }
+ */
+export function isEvent<K extends keyof ISlackEventMap>(event: SlackPayload, type: K): event is ISlackEventMap[K] {
+    return !!event && event.type === type && validateEvent(event).length === 0;
+}
+
+/**
+ * True if the event is a new message from a user (rather than an edit, a bot message, a join, etc.)
+ */
+export function isUserMessage(event: SlackPayload): event is ISlackUserMessageEvent {
+    return !!event && event.type === "message" && !event.subtype && validateEvent(event).length === 0;
+}
+
+/**
+ * True if the interaction payload is of the given type and has the fields that the type says it has.
+ */
+export function isInteraction<K extends keyof ISlackInteractionPayloadMap>(
+    payload: SlackPayload, type: K): payload is ISlackInteractionPayloadMap[K] {
+    return !!payload && payload.type === type && validateInteraction(payload).length === 0;
+}
+
+/**
+ * Checks every event and interaction that is received and reports the ones that don't match their types.  Nothing
+ * is rejected: a payload that has drifted from its schema is still passed to the handlers (which may well cope with
+ * it) but the drift is logged and given to the configured handler so that it can be fixed.
+ */
+export class SlackPayloadValidator {
+
+    protected config: ISlackPayloadValidationConfig;
+    protected counts: Map<string, { source: SlackPayloadSource, type: string, count: number }> = new Map();
+    protected logged: Set<string> = new Set();
+
+    public constructor(config: ISlackPayloadValidationConfig = {}) {
+        this.config = config;
+    }
+
+    /**
+     * Checks a payload and reports any drift.  Returns the problems found.  This never throws.
+     * @param source Whether it's an event or an interaction.
+     * @param payload The inner event or the interaction payload.
+     */
+    public check(source: SlackPayloadSource, payload: SlackPayload): string[] {
+        let problems: string[];
+        try {
+            problems = source === "event" ? validateEvent(payload) : validateInteraction(payload);
+        } catch (e) {
+            problems = [`the payload could not be checked: ${e.message}`];
+        }
+        if (problems.length > 0) {
+            this.report({
+                source,
+                type: payload && payload.type ? String(payload.type) : "unknown",
+                subtype: payload && payload.subtype ? String(payload.subtype) : undefined,
+                problems,
+                payload
+            });
+        }
+        return problems;
+    }
+
+    /**
+     * Returns the number of payloads that have drifted, by source and type.
+     */
+    public getStats(): { source: SlackPayloadSource, type: string, count: number }[] {
+        return Array.from(this.counts.values()).map((c) => ({ ...c }));
+    }
+
+    protected report(drift: ISlackSchemaDrift) {
+        const name = drift.subtype ? `${drift.type}/${drift.subtype}` : drift.type;
+        const key = `${drift.source}:${name}`;
+        const counter = this.counts.get(key) || { source: drift.source, type: name, count: 0 };
+        counter.count++;
+        this.counts.set(key, counter);
+
+        // the same problem usually comes with every payload of that type so each is only logged the first time.
+        for (const problem of drift.problems) {
+            if (!this.logged.has(`${key}:${problem}`)) {
+                this.logged.add(`${key}:${problem}`);
+                logger(`${drift.source} ${name} doesn't match its schema: ${problem}`);
+            }
+        }
+
+        if (this.config.onDrift) {
+            try {
+                this.config.onDrift(drift);
+            } catch (e) {
+                logger("the schema drift handler failed: " + e.message);
+            }
+        }
+    }
+}
+
+function checkSchema(payload: SlackPayload, schema: PayloadSchema): string[] {
+    const problems: string[] = [];
+    const invalid: string[] = [];
+    for (const key of Object.keys(schema)) {
+        const optional = key.endsWith("?");
+        const path = optional ? key.substring(0, key.length - 1) : key;
+
+        // the fields inside one that's already been reported are left out.
+        if (invalid.some((parent) => path.startsWith(parent + "."))) {
+            continue;
+        }
+
+        const value = getPath(payload, path);
+        if (value === undefined || value === null) {
+            if (!optional) {
+                problems.push(`"${path}" is missing`);
+                invalid.push(path);
+            }
+        } else if (getFieldType(value) !== schema[key]) {
+            problems.push(`"${path}" should be ${describe(schema[key])} but is ${describe(getFieldType(value))}`);
+            invalid.push(path);
+        }
+    }
+    return problems;
+}
+
+function getPath(payload: SlackPayload, path: string): any {
+    let value: any = payload;
+    for (const part of path.split(".")) {
+        if (!value || typeof value !== "object") {
+            return undefined;
+        }
+        value = value[part];
+    }
+    return value;
+}
+
+function getFieldType(value: any): string {
+    return Array.isArray(value) ? "array" : typeof value;
+}
+
+function describe(type: string): string {
+    return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
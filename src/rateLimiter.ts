@@ -0,0 +1,294 @@
+import { WebAPICallOptions, WebAPICallResult, WebClient, WebClientOptions } from "@slack/web-api";
+import { logger } from ".";
+
+/**
+ * The number of calls per minute allowed for each of Slack's rate limit tiers.
+ * https://api.slack.com/docs/rate-limits#tiers
+ */
+export const TIER_LIMITS: Record<number, number> = {
+    1: 1,
+    2: 20,
+    3: 50,
+    4: 100
+};
+
+/**
+ * The tier of the methods we know about.  Anything not listed here is treated as tier 3 which is what most
+ * methods are.  chat.postMessage is special in that it is limited to one message per second per channel instead.
+ */
+export const METHOD_TIERS: Record<string, number> = {
+    "auth.test": 4,
+    "chat.delete": 3,
+    "chat.deleteScheduledMessage": 3,
+    "chat.getPermalink": 4,
+    "chat.postEphemeral": 4,
+    "chat.scheduleMessage": 3,
+    "chat.scheduledMessages.list": 3,
+    "chat.update": 3,
+    "conversations.create": 2,
+    "conversations.history": 3,
+    "conversations.info": 3,
+    "conversations.invite": 3,
+    "conversations.join": 3,
+    "conversations.list": 2,
+    "conversations.members": 4,
+    "conversations.open": 3,
+    "conversations.replies": 3,
+    "files.upload": 2,
+    "pins.add": 2,
+    "reactions.add": 3,
+    "reactions.get": 3,
+    "reactions.remove": 2,
+    "search.messages": 2,
+    "team.info": 3,
+    "usergroups.list": 2,
+    "usergroups.users.list": 2,
+    "users.conversations": 3,
+    "users.info": 4,
+    "users.list": 2,
+    "users.lookupByEmail": 3,
+    "views.open": 4,
+    "views.publish": 4,
+    "views.push": 4,
+    "views.update": 4
+};
+
+const DEFAULT_TIER = 3;
+const POST_MESSAGE_METHOD = "chat.postMessage";
+const POST_MESSAGE_PER_SECOND = 1;
+const DEFAULT_MAX_RETRIES = 3;
+
+export interface ISlackRateLimitConfig {
+    // The number of times a call that Slack rejected with a 429 is retried.  Defaults to 3.
+    maxRetries?: number;
+
+    // Overrides (or additions) to the method tiers.
+    methodTiers?: Record<string, number>;
+}
+
+export interface ISlackRateLimitMetrics {
+    // The number of calls waiting to be sent (in total and for each queue)
+    queued: number;
+    queues: Record<string, number>;
+
+    dispatched: number;
+    rateLimited: number;
+    averageWaitMs: number;
+    maxWaitMs: number;
+}
+
+interface IQueuedCall {
+    call: () => Promise<any>;
+    resolve: (result: any) => void;
+    reject: (err: any) => void;
+    enqueued: number;
+    attempts: number;
+}
+
+/**
+ * A token bucket that starts full and refills continuously.
+ */
+class TokenBucket {
+    protected tokens: number;
+    protected last: number;
+
+    public constructor(protected capacity: number, protected refillPerMs: number) {
+        this.tokens = capacity;
+        this.last = Date.now();
+    }
+
+    /**
+     * Returns the number of milliseconds until a token is available (zero if one is available now).
+     */
+    public waitTime(now: number): number {
+        this.refill(now);
+        return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+    }
+
+    public take(now: number) {
+        this.refill(now);
+        this.tokens -= 1;
+    }
+
+    protected refill(now: number) {
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.last) * this.refillPerMs);
+        this.last = now;
+    }
+}
+
+interface ILane {
+    key: string;
+    queue: IQueuedCall[];
+    bucket: TokenBucket;
+    pausedUntil: number;
+    timer: NodeJS.Timeout;
+}
+
+/**
+ * Queues outbound Web API calls so that they stay within Slack's rate limits.  There is a separate queue for each
+ * team and method (and for each channel in the case of chat.postMessage).  Calls in a queue are sent in order as
+ * soon as the tier allows.  If Slack still responds with a 429, that queue is paused for as long as the
+ * Retry-After header says and the call is put back at the front.
+ */
+export class SlackRequestScheduler {
+
+    protected lanes: Record<string, ILane> = {};
+    protected config: ISlackRateLimitConfig;
+    protected dispatched = 0;
+    protected rateLimited = 0;
+    protected totalWaitMs = 0;
+    protected maxWaitMs = 0;
+
+    public constructor(config: ISlackRateLimitConfig = {}) {
+        this.config = config;
+    }
+
+    /**
+     * Returns the tier of the given method.
+     * @param method The full method name (e.g. conversations.history)
+     */
+    public getTier(method: string): number {
+        const overrides = this.config.methodTiers || {};
+        return overrides[method] || METHOD_TIERS[method] || DEFAULT_TIER;
+    }
+
+    /**
+     * Queues a call and returns a promise that resolves with the call's result once it has been made.
+     * @param team The team the call is for (calls for different teams don't share limits)
+     * @param method The method being called.
+     * @param args The arguments (used to find the channel for chat.postMessage)
+     * @param call Makes the actual call.
+     */
+    public schedule<T>(team: string, method: string, args: Record<string, any>, call: () => Promise<T>): Promise<T> {
+        const lane = this.getLane(team, method, args);
+        return new Promise<T>((resolve, reject) => {
+            lane.queue.push({ call, resolve, reject, enqueued: Date.now(), attempts: 0 });
+            this.pump(lane);
+        });
+    }
+
+    /**
+     * Empties every queue.  The calls that were still waiting are rejected.
+     */
+    public stop() {
+        for (const key of Object.keys(this.lanes)) {
+            const lane = this.lanes[key];
+            clearTimeout(lane.timer);
+            for (const item of lane.queue) {
+                item.reject(new Error(`${lane.key} was stopped before the call could be made`));
+            }
+        }
+        this.lanes = {};
+    }
+
+    public getMetrics(): ISlackRateLimitMetrics {
+        const queues: Record<string, number> = {};
+        let queued = 0;
+        for (const key of Object.keys(this.lanes)) {
+            const depth = this.lanes[key].queue.length;
+            if (depth > 0) {
+                queues[key] = depth;
+                queued += depth;
+            }
+        }
+
+        return {
+            queued,
+            queues,
+            dispatched: this.dispatched,
+            rateLimited: this.rateLimited,
+            averageWaitMs: this.dispatched > 0 ? Math.round(this.totalWaitMs / this.dispatched) : 0,
+            maxWaitMs: this.maxWaitMs
+        };
+    }
+
+    protected getLane(team: string, method: string, args: Record<string, any>): ILane {
+        const isPostMessage = method === POST_MESSAGE_METHOD && args && args.channel;
+        const key = isPostMessage ? `${team}:${method}:${args.channel}` : `${team}:${method}`;
+
+        if (!(key in this.lanes)) {
+            let bucket: TokenBucket;
+            if (isPostMessage) {
+                bucket = new TokenBucket(POST_MESSAGE_PER_SECOND, POST_MESSAGE_PER_SECOND / 1000);
+            } else {
+                const perMinute = TIER_LIMITS[this.getTier(method)] || TIER_LIMITS[DEFAULT_TIER];
+                bucket = new TokenBucket(perMinute, perMinute / 60000);
+            }
+            this.lanes[key] = { key, queue: [], bucket, pausedUntil: 0, timer: undefined };
+        }
+        return this.lanes[key];
+    }
+
+    protected pump(lane: ILane) {
+        if (lane.timer) {
+            return;
+        }
+
+        while (lane.queue.length > 0) {
+            const now = Date.now();
+            const wait = Math.max(lane.bucket.waitTime(now), lane.pausedUntil - now);
+            if (wait > 0) {
+                lane.timer = setTimeout(() => {
+                    lane.timer = undefined;
+                    this.pump(lane);
+                }, wait);
+                return;
+            }
+
+            lane.bucket.take(now);
+            this.dispatch(lane, lane.queue.shift(), now);
+        }
+    }
+
+    protected dispatch(lane: ILane, item: IQueuedCall, now: number) {
+        if (item.attempts === 0) {
+            const waited = now - item.enqueued;
+            this.dispatched++;
+            this.totalWaitMs += waited;
+            this.maxWaitMs = Math.max(this.maxWaitMs, waited);
+        }
+        item.attempts++;
+
+        item.call()
+            .then(item.resolve)
+            .catch((err) => {
+                const maxRetries = this.config.maxRetries === undefined ? DEFAULT_MAX_RETRIES : this.config.maxRetries;
+                if (err && err.code === "slack_webapi_rate_limited_error" && item.attempts <= maxRetries) {
+                    this.rateLimited++;
+                    const retryAfterMs = (err.retryAfter || 1) * 1000;
+                    logger(`${lane.key} was rate limited.  Pausing it for ${retryAfterMs}ms`);
+                    lane.pausedUntil = Math.max(lane.pausedUntil, Date.now() + retryAfterMs);
+                    lane.queue.unshift(item);
+                    this.pump(lane);
+                } else {
+                    item.reject(err);
+                }
+            });
+    }
+}
+
+/**
+ * A WebClient that sends every call through the scheduler.  Since all of the named methods (chat.postMessage, etc.)
+ * go through apiCall, they are all scheduled.  Slack's 429s are passed back to the scheduler instead of being
+ * retried by the client.
+ */
+export class ScheduledWebClient extends WebClient {
+
+    protected scheduler: SlackRequestScheduler;
+    protected teamKey: string;
+
+    public constructor(token: string, scheduler: SlackRequestScheduler, teamKey: string = "default",
+                       options: WebClientOptions = {}) {
+        // without a scheduler, the client handles rate limiting itself.
+        super(token, scheduler ? { ...options, rejectRateLimitedCalls: true } : options);
+        this.scheduler = scheduler;
+        this.teamKey = teamKey;
+    }
+
+    public apiCall(method: string, options?: WebAPICallOptions): Promise<WebAPICallResult> {
+        if (!this.scheduler) {
+            return super.apiCall(method, options);
+        }
+        return this.scheduler.schedule(this.teamKey, method, options, () => super.apiCall(method, options));
+    }
+}
@@ -0,0 +1,288 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import * as querystring from "querystring";
+import { logger, SlackPayload } from ".";
+import { verifySlackRequest } from "./slackCommandAdapter";
+
+export type SlackRecordingKind = "command" | "event" | "interaction";
+
+/**
+ * A request from Slack as it was received (after its signature was checked), with the secrets and any other
+ * configured fields redacted.
+ */
+export interface ISlackRecording {
+    id: string;
+    kind: SlackRecordingKind;
+    recordedAt: number;
+
+    // The Slack headers (x-slack-*) and the content type.  The signature is left out since it can't be checked
+    //  once the body has been redacted.
+    headers: Record<string, string>;
+
+    // The raw body in the format Slack sent it (JSON for events and form-encoded for commands and interactions)
+    body: string;
+}
+
+/**
+ * Implement this to keep recordings somewhere other than the built-in stores.
+ */
+export interface ISlackRecordingStore {
+    save(recording: ISlackRecording): Promise<void>;
+    get(id: string): Promise<ISlackRecording>;
+
+    // Oldest first.
+    list(): Promise<ISlackRecording[]>;
+}
+
+/**
+ * Keeps the most recent recordings in memory.
+ */
+export class MemoryRecordingStore implements ISlackRecordingStore {
+
+    protected recordings: Map<string, ISlackRecording> = new Map();
+
+    public constructor(protected maxRecordings: number = 1000) {
+    }
+
+    public async save(recording: ISlackRecording): Promise<void> {
+        this.recordings.set(recording.id, recording);
+        if (this.recordings.size > this.maxRecordings) {
+            this.recordings.delete(this.recordings.keys().next().value);
+        }
+    }
+
+    public async get(id: string): Promise<ISlackRecording> {
+        return this.recordings.get(id);
+    }
+
+    public async list(): Promise<ISlackRecording[]> {
+        return Array.from(this.recordings.values());
+    }
+}
+
+/**
+ * Keeps each recording in its own JSON file in the given directory.  Once there are more than maxRecordings, the
+ * oldest are deleted.  Even redacted, the recordings hold whatever users typed so keep the directory private.
+ */
+export class FileRecordingStore implements ISlackRecordingStore {
+
+    protected directory: string;
+    protected maxRecordings: number;
+
+    public constructor(directory: string, maxRecordings: number = 1000) {
+        this.directory = directory;
+        this.maxRecordings = maxRecordings;
+    }
+
+    public async save(recording: ISlackRecording): Promise<void> {
+        await fs.promises.mkdir(this.directory, { recursive: true, mode: 0o700 });
+        await fs.promises.writeFile(this.getFilePath(recording.id), JSON.stringify(recording, undefined, 2),
+            { mode: 0o600 });
+        await this.rotate();
+    }
+
+    public async get(id: string): Promise<ISlackRecording> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.getFilePath(id), "utf8"));
+        } catch (e) {
+            if (e.code === "ENOENT") {
+                return undefined;
+            }
+            throw e;
+        }
+    }
+
+    public async list(): Promise<ISlackRecording[]> {
+        const recordings: ISlackRecording[] = [];
+        for (const file of await this.listFiles()) {
+            const recording = await this.get(file.substring(0, file.length - ".json".length));
+            if (recording) {
+                recordings.push(recording);
+            }
+        }
+        return recordings;
+    }
+
+    protected async rotate() {
+        const files = await this.listFiles();
+        for (const file of files.slice(0, Math.max(files.length - this.maxRecordings, 0))) {
+            try {
+                await fs.promises.unlink(path.join(this.directory, file));
+            } catch (e) {
+                if (e.code !== "ENOENT") {
+                    throw e;
+                }
+            }
+        }
+    }
+
+    /**
+     * Returns the recording files, oldest first (the IDs start with the time they were recorded)
+     */
+    protected async listFiles(): Promise<string[]> {
+        try {
+            return (await fs.promises.readdir(this.directory)).filter((f) => f.endsWith(".json")).sort();
+        } catch (e) {
+            if (e.code === "ENOENT") {
+                return [];
+            }
+            throw e;
+        }
+    }
+
+    protected getFilePath(id: string): string {
+        return path.join(this.directory, id.replace(/[^A-Za-z0-9_-]/g, "_") + ".json");
+    }
+}
+
+export interface ISlackRecorderConfig {
+    store: ISlackRecordingStore;
+
+    // More fields to redact wherever they appear in a payload (e.g. "user_name", "real_name", "email", "text").
+    //  The fields in ALWAYS_REDACTED_FIELDS are always redacted.
+    redact?: string[];
+
+    // The kinds of request to record.  Defaults to all of them.
+    kinds?: SlackRecordingKind[];
+}
+
+// These are secrets (or let whoever has them act as the app) so they're never recorded.
+export const ALWAYS_REDACTED_FIELDS = ["token", "response_url", "bot_access_token", "access_token"];
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Saves requests from Slack so that they can be replayed later (see SlackConnection.replayRecording).  Only requests
+ * with a valid signature are recorded.
+ */
+export class SlackTrafficRecorder {
+
+    protected config: ISlackRecorderConfig;
+    protected signingSecret: string;
+
+    public constructor(signingSecret: string, config: ISlackRecorderConfig) {
+        if (!config.store) {
+            throw new Error("The recorder needs a store to keep the recordings in");
+        }
+        this.signingSecret = signingSecret;
+        this.config = config;
+    }
+
+    public get store(): ISlackRecordingStore {
+        return this.config.store;
+    }
+
+    public isRecording(kind: SlackRecordingKind): boolean {
+        return !this.config.kinds || this.config.kinds.includes(kind);
+    }
+
+    /**
+     * Records a request.  The signature is checked first (unless the caller already has) and problems are logged
+     * rather than thrown so that recording never gets in the way of handling the request.
+     * @param kind What the request is.
+     * @param rawBody The body as it was received.
+     * @param headers The request headers.
+     * @param verified True if the signature has already been checked.
+     */
+    public async record(kind: SlackRecordingKind, rawBody: string, headers: Record<string, any>,
+                        verified: boolean = false): Promise<void> {
+        if (!this.isRecording(kind)) {
+            return;
+        }
+
+        try {
+            if (!verified && !this.verify(rawBody, headers)) {
+                return;
+            }
+
+            const now = Date.now();
+            await this.config.store.save({
+                id: `${now}-${crypto.randomBytes(4).toString("hex")}`,
+                kind,
+                recordedAt: now,
+                headers: getRecordedHeaders(headers),
+                body: redactBody(rawBody, headers["content-type"],
+                    ALWAYS_REDACTED_FIELDS.concat(this.config.redact || []))
+            });
+        } catch (e) {
+            logger(`Unable to record a ${kind} request: ${e.message}`);
+        }
+    }
+
+    protected verify(rawBody: string, headers: Record<string, any>): boolean {
+        try {
+            return verifySlackRequest({
+                signingSecret: this.signingSecret,
+                requestSignature: headers["x-slack-signature"],
+                requestTimestamp: parseInt(headers["x-slack-request-timestamp"], 10),
+                body: rawBody
+            });
+        } catch (e) {
+            return false;
+        }
+    }
+}
+
+/**
+ * Redacts the given fields (at any depth) in a raw request body and returns it in the same format.  For
+ * interactions, the fields inside the JSON payload are redacted.
+ * @param rawBody The body as it was received.
+ * @param contentType The content type of the request.
+ * @param fields The names of the fields to redact.
+ */
+export function redactBody(rawBody: string, contentType: string, fields: string[]): string {
+    if ((contentType || "").includes("application/json")) {
+        return JSON.stringify(redactFields(JSON.parse(rawBody), fields));
+    }
+
+    const form = querystring.parse(rawBody);
+    const redacted: Record<string, any> = {};
+    for (const key of Object.keys(form)) {
+        if (key === "payload" && typeof form[key] === "string") {
+            redacted[key] = JSON.stringify(redactFields(JSON.parse(form[key] as string), fields));
+        } else {
+            redacted[key] = fields.includes(key) ? REDACTED : form[key];
+        }
+    }
+    return querystring.stringify(redacted);
+}
+
+/**
+ * Turns a recording back into the payload that the handlers are given.
+ * @param recording The recording.
+ */
+export function parseRecording(recording: ISlackRecording): SlackPayload {
+    if ((recording.headers["content-type"] || "").includes("application/json")) {
+        return JSON.parse(recording.body);
+    }
+
+    const form = querystring.parse(recording.body) as Record<string, any>;
+    return recording.kind === "interaction" && typeof form.payload === "string" ? JSON.parse(form.payload) : form;
+}
+
+function redactFields(value: any, fields: string[]): any {
+    if (Array.isArray(value)) {
+        return value.map((v) => redactFields(v, fields));
+    }
+    if (!value || typeof value !== "object") {
+        return value;
+    }
+
+    const redacted: Record<string, any> = {};
+    for (const key of Object.keys(value)) {
+        redacted[key] = fields.includes(key) ? REDACTED : redactFields(value[key], fields);
+    }
+    return redacted;
+}
+
+function getRecordedHeaders(headers: Record<string, any>): Record<string, string> {
+    const recorded: Record<string, string> = {};
+    for (const name of Object.keys(headers)) {
+        const lower = name.toLowerCase();
+        if ((lower.startsWith("x-slack-") && lower !== "x-slack-signature") || lower === "content-type") {
+            recorded[lower] = String(headers[name]);
+        }
+    }
+    return recorded;
+}
@@ -0,0 +1,79 @@
+/**
+ * Slack only allows a response_url to be used five times within 30 minutes of the original request.
+ * https://api.slack.com/interactivity/handling#message_responses
+ */
+export const RESPONSE_URL_MAX_POSTS = 5;
+export const RESPONSE_URL_LIFETIME_MS = 30 * 60 * 1000;
+
+interface IResponseUrlUsage {
+    firstSeen: number;
+    posts: number;
+}
+
+/**
+ * Keeps track of how many times each response_url has been posted to and when it was first received so that we
+ * can refuse posts that Slack would reject anyway.  Entries are dropped once the URL has expired.
+ */
+export class ResponseUrlTracker {
+
+    protected usage: Record<string, IResponseUrlUsage> = {};
+
+    /**
+     * Starts tracking the given URL.  This should be called as soon as the request that contains the URL is
+     * received since the 30 minute window starts then.  Calling it for a URL that is already tracked does nothing.
+     * @param url The response_url from the request.
+     */
+    public register(url: string) {
+        this.prune();
+        if (!(url in this.usage)) {
+            this.usage[url] = { firstSeen: Date.now(), posts: 0 };
+        }
+    }
+
+    /**
+     * Returns the number of posts that can still be made to the given URL.  Expired URLs have none left.
+     * @param url The response_url to check.
+     */
+    public remaining(url: string): number {
+        const usage = this.usage[url];
+        if (!usage) {
+            return RESPONSE_URL_MAX_POSTS;
+        }
+        if (this.isExpired(usage)) {
+            return 0;
+        }
+        return Math.max(0, RESPONSE_URL_MAX_POSTS - usage.posts);
+    }
+
+    /**
+     * Returns true if the URL was first seen more than 30 minutes ago.
+     * @param url The response_url to check.
+     */
+    public expired(url: string): boolean {
+        const usage = this.usage[url];
+        return usage ? this.isExpired(usage) : false;
+    }
+
+    /**
+     * Records a post to the given URL.  URLs that have not been registered are registered now.
+     * @param url The response_url that was posted to.
+     */
+    public recordPost(url: string) {
+        this.register(url);
+        this.usage[url].posts++;
+    }
+
+    protected isExpired(usage: IResponseUrlUsage): boolean {
+        return Date.now() - usage.firstSeen > RESPONSE_URL_LIFETIME_MS;
+    }
+
+    protected prune() {
+        // expired entries are kept around for a while longer so that late posts are still refused.
+        const cutoff = Date.now() - (RESPONSE_URL_LIFETIME_MS * 2);
+        for (const url of Object.keys(this.usage)) {
+            if (this.usage[url].firstSeen < cutoff) {
+                delete this.usage[url];
+            }
+        }
+    }
+}
@@ -0,0 +1,394 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { WebClient } from "@slack/web-api";
+import { logger, SlackConnection } from ".";
+import { classifyWebApiError, getMaxAttempts, getRetryDelay } from "./delivery";
+
+/**
+ * A check that is made just before a job is sent.  If it fails, the job is dropped.  Conditions are kept in the
+ * job store so they are plain data: either one of the built-in conditions or the name of one that has been
+ * registered with registerCondition.
+ *
+ *  - noRepliesSince: the thread has no replies after the given timestamp (from anyone other than the bot, if
+ *      ignoreUser is given).
+ *  - custom: the registered condition with the given name is called with the args.
+ */
+export type SlackSendCondition =
+    { type: "noRepliesSince", channel: string, threadTs: string, since: string, ignoreUser?: string } |
+    { type: "custom", name: string, args?: Record<string, any> };
+
+export type SlackConditionFunction = (conn: SlackConnection, job: ISlackScheduledJob,
+                                      args: Record<string, any>) => Promise<boolean>;
+
+export interface ISlackScheduledJob {
+    id: string;
+    channel: string;
+
+    // The message to post (text, blocks, thread_ts, etc.) as it would be given to chat.postMessage.
+    message: Record<string, any>;
+
+    // When to post it (in milliseconds)
+    postAt: number;
+    condition?: SlackSendCondition;
+
+    // The workspace to post it in (when the app is installed in more than one)
+    teamId?: string;
+
+    // Whether Slack is holding the message (chat.scheduleMessage) or we are.
+    mode: "slack" | "local";
+    scheduledMessageId?: string;
+
+    createdAt: number;
+
+    // The number of times sending a local job has failed with an error worth retrying.  postAt is moved back after
+    //  each one.
+    attempts?: number;
+}
+
+export interface ISlackScheduleOptions {
+    // Checked just before the message is sent.  Jobs with a condition are always scheduled locally.
+    condition?: SlackSendCondition;
+
+    // Schedule the message locally even if Slack could do it.
+    local?: boolean;
+
+    teamId?: string;
+}
+
+/**
+ * Implement this to keep jobs somewhere other than the built-in stores.
+ */
+export interface ISlackJobStore {
+    save(job: ISlackScheduledJob): Promise<void>;
+    get(id: string): Promise<ISlackScheduledJob>;
+    delete(id: string): Promise<void>;
+    list(): Promise<ISlackScheduledJob[]>;
+}
+
+/**
+ * Keeps jobs in memory.  Local jobs are lost when the process restarts.
+ */
+export class MemoryJobStore implements ISlackJobStore {
+
+    protected jobs: Map<string, ISlackScheduledJob> = new Map();
+
+    public async save(job: ISlackScheduledJob): Promise<void> {
+        this.jobs.set(job.id, job);
+    }
+
+    public async get(id: string): Promise<ISlackScheduledJob> {
+        return this.jobs.get(id);
+    }
+
+    public async delete(id: string): Promise<void> {
+        this.jobs.delete(id);
+    }
+
+    public async list(): Promise<ISlackScheduledJob[]> {
+        return Array.from(this.jobs.values());
+    }
+}
+
+/**
+ * Keeps each job in its own JSON file in the given directory so that local jobs survive a restart.
+ */
+export class FileJobStore implements ISlackJobStore {
+
+    protected directory: string;
+
+    public constructor(directory: string) {
+        this.directory = directory;
+    }
+
+    public async save(job: ISlackScheduledJob): Promise<void> {
+        await fs.promises.mkdir(this.directory, { recursive: true, mode: 0o700 });
+        await fs.promises.writeFile(this.getFilePath(job.id), JSON.stringify(job, undefined, 2), { mode: 0o600 });
+    }
+
+    public async get(id: string): Promise<ISlackScheduledJob> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.getFilePath(id), "utf8"));
+        } catch (e) {
+            if (e.code === "ENOENT") {
+                return undefined;
+            }
+            throw e;
+        }
+    }
+
+    public async delete(id: string): Promise<void> {
+        try {
+            await fs.promises.unlink(this.getFilePath(id));
+        } catch (e) {
+            if (e.code !== "ENOENT") {
+                throw e;
+            }
+        }
+    }
+
+    public async list(): Promise<ISlackScheduledJob[]> {
+        let files: string[];
+        try {
+            files = await fs.promises.readdir(this.directory);
+        } catch (e) {
+            if (e.code === "ENOENT") {
+                return [];
+            }
+            throw e;
+        }
+
+        const jobs: ISlackScheduledJob[] = [];
+        for (const file of files.filter((f) => f.endsWith(".json"))) {
+            const job = await this.get(file.substring(0, file.length - ".json".length));
+            if (job) {
+                jobs.push(job);
+            }
+        }
+        return jobs;
+    }
+
+    protected getFilePath(id: string): string {
+        return path.join(this.directory, id.replace(/[^A-Za-z0-9_-]/g, "_") + ".json");
+    }
+}
+
+// chat.scheduleMessage only accepts times up to 120 days in the future.
+export const MAX_SLACK_SCHEDULE_MS = 120 * 24 * 60 * 60 * 1000;
+
+// Messages due sooner than this are sent locally since Slack rejects times that are (nearly) in the past.
+const MIN_SLACK_SCHEDULE_MS = 60 * 1000;
+
+// setTimeout can't wait longer than ~24 days so the timer is re-armed at least this often.
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+/**
+ * Sends messages at a later time.  Messages are handed to Slack (chat.scheduleMessage) when possible.  Jobs with
+ * a condition, jobs that are too far in the future and jobs that are due very soon are kept in the job store and
+ * sent by a local timer instead.  Local jobs that fail with an error worth retrying are tried again later (with
+ * the same attempts and backoff as the connection's deliveries).
+ */
+export class SlackMessageScheduler {
+
+    protected conditions: Record<string, SlackConditionFunction> = {};
+    protected timer: NodeJS.Timeout;
+    protected stopped = true;
+    protected running = false;
+
+    public constructor(protected conn: SlackConnection, protected store: ISlackJobStore = new MemoryJobStore()) {
+    }
+
+    /**
+     * Starts the local timer.  Jobs that were due while we weren't running are sent immediately.
+     */
+    public async start() {
+        this.stopped = false;
+        await this.armTimer();
+    }
+
+    public stop() {
+        this.stopped = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    public registerCondition(name: string, condition: SlackConditionFunction) {
+        this.conditions[name] = condition;
+    }
+
+    /**
+     * Schedules a message.
+     * @param channel The channel to post to.
+     * @param message The message (text, blocks, thread_ts, etc.)
+     * @param postAt When to post it.
+     * @param options A condition to check before sending and the workspace to post in.
+     */
+    public async schedule(channel: string, message: Record<string, any>, postAt: Date | number,
+                          options: ISlackScheduleOptions = {}): Promise<ISlackScheduledJob> {
+        const when = postAt instanceof Date ? postAt.getTime() : postAt;
+        const delay = when - Date.now();
+        const job: ISlackScheduledJob = {
+            id: crypto.randomBytes(8).toString("hex"),
+            channel,
+            message,
+            postAt: when,
+            condition: options.condition,
+            teamId: options.teamId,
+            mode: "local",
+            createdAt: Date.now()
+        };
+
+        if (!options.local && !options.condition && delay >= MIN_SLACK_SCHEDULE_MS && delay <= MAX_SLACK_SCHEDULE_MS) {
+            const client = await this.getClient(job);
+            const result = await client.chat.scheduleMessage({
+                ...message,
+                channel,
+                text: message.text || "",
+                post_at: Math.floor(when / 1000).toString()
+            }) as Record<string, any>;
+            job.mode = "slack";
+            job.scheduledMessageId = result.scheduled_message_id;
+            job.channel = result.channel || channel;
+        }
+
+        await this.store.save(job);
+        if (job.mode === "local") {
+            await this.armTimer();
+        }
+        return job;
+    }
+
+    /**
+     * Returns the jobs that have not been sent yet.  Jobs that Slack has already sent are removed from the store.
+     */
+    public async list(): Promise<ISlackScheduledJob[]> {
+        const now = Date.now();
+        const jobs: ISlackScheduledJob[] = [];
+        for (const job of await this.store.list()) {
+            if (job.mode === "slack" && job.postAt <= now) {
+                await this.store.delete(job.id);
+            } else {
+                jobs.push(job);
+            }
+        }
+        return jobs.sort((a, b) => a.postAt - b.postAt);
+    }
+
+    /**
+     * Cancels a job.  Returns false if there was no such job.
+     * @param id The ID of the job.
+     */
+    public async cancel(id: string): Promise<boolean> {
+        const job = await this.store.get(id);
+        if (!job) {
+            return false;
+        }
+
+        if (job.mode === "slack") {
+            const client = await this.getClient(job);
+            await client.chat.deleteScheduledMessage({
+                channel: job.channel,
+                scheduled_message_id: job.scheduledMessageId
+            });
+        }
+        await this.store.delete(id);
+        return true;
+    }
+
+    /**
+     * Sends every local job that is due and then sets the timer for the next one.
+     */
+    public async runDueJobs() {
+        if (this.running) {
+            return;
+        }
+        this.running = true;
+        try {
+            await this.sendDueJobs();
+        } finally {
+            this.running = false;
+        }
+        await this.armTimer();
+    }
+
+    protected async sendDueJobs() {
+        const now = Date.now();
+        const due = (await this.store.list()).filter((j) => j.mode === "local" && j.postAt <= now);
+        for (const job of due) {
+            try {
+                if (await this.checkCondition(job)) {
+                    const client = await this.getClient(job);
+                    await client.chat.postMessage({ ...job.message, channel: job.channel,
+                        text: job.message.text || "" });
+                } else {
+                    logger(`Scheduled message ${job.id} was not sent because its condition was not met`);
+                }
+            } catch (e) {
+                if (await this.retry(job, e)) {
+                    continue;
+                }
+            }
+            await this.store.delete(job.id);
+        }
+    }
+
+    /**
+     * Puts a job that failed back in the store to be tried again later.  Returns false if the error is permanent or
+     * the job has run out of attempts.
+     * @param job The job that failed.
+     * @param err Why it failed.
+     */
+    protected async retry(job: ISlackScheduledJob, err: any): Promise<boolean> {
+        const config = this.conn.config.delivery || {};
+        const error = classifyWebApiError(err);
+        job.attempts = (job.attempts || 0) + 1;
+        if (error.permanent || job.attempts >= getMaxAttempts(config)) {
+            logger(`Scheduled message ${job.id} failed after ${job.attempts} attempt(s): ${error.message}`);
+            return false;
+        }
+
+        const delay = error.retryAfterMs || getRetryDelay(config, job.attempts);
+        logger(`Scheduled message ${job.id} failed (${error.message}).  Retrying in ${delay}ms`);
+        job.postAt = Date.now() + delay;
+        await this.store.save(job);
+        return true;
+    }
+
+    protected getClient(job: ISlackScheduledJob): Promise<WebClient> {
+        return this.conn.getClient(job.teamId ? { team_id: job.teamId } : {});
+    }
+
+    protected async checkCondition(job: ISlackScheduledJob): Promise<boolean> {
+        const condition = job.condition;
+        if (!condition) {
+            return true;
+        }
+
+        if (condition.type === "noRepliesSince") {
+            for await (const reply of this.conn.iterateThreadReplies(condition.channel, condition.threadTs,
+                { oldest: condition.since })) {
+                if (reply.ts !== condition.threadTs && reply.ts > condition.since &&
+                    (!condition.ignoreUser || reply.user !== condition.ignoreUser)) {
+                    return false;
+                }
+            }
+            return true;
+        }
+
+        const fn = this.conditions[condition.name];
+        if (!fn) {
+            throw new Error(`There is no condition called ${condition.name}`);
+        }
+        return fn(this.conn, job, condition.args || {});
+    }
+
+    /**
+     * Sets the timer for the next local job (sending anything that's already due first).  Nothing is done while
+     * jobs are being sent since runDueJobs sets the timer once it's done (the jobs being sent are still in the
+     * store and would look like they're due).
+     */
+    protected async armTimer() {
+        if (this.stopped || this.running) {
+            return;
+        }
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+
+        const local = (await this.store.list()).filter((j) => j.mode === "local");
+        if (local.length === 0) {
+            return;
+        }
+
+        const next = Math.min(...local.map((j) => j.postAt));
+        const delay = Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_MS);
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.runDueJobs().catch((err) => logger("Unable to send scheduled messages: " + err.message));
+        }, delay);
+        this.timer.unref();
+    }
+}
@@ -1,12 +1,28 @@
 import express from "express";
+import * as crypto from "crypto";
 import * as querystring from "querystring";
-import {verifyRequestSignature} from "@slack/events-api/dist";
-import {ErrorCode, ResponseError, ResponseHandler} from "@slack/events-api/dist/http-handler";
+import {ErrorCode, ResponseHandler} from "@slack/events-api/dist/http-handler";
 import {IncomingMessage, ServerResponse} from "http";
 import getRawBody from "raw-body";
 import {CodedError, errorWithCode} from "@slack/interactive-messages/dist/errors";
 import {logger} from ".";
 
+/**
+ * Requests older (or newer) than this are rejected to prevent replay attacks.  This matches what Slack recommends.
+ */
+export const DEFAULT_REPLAY_WINDOW_SECONDS = 60 * 5;
+
+export interface ISlackCommandAdapterOptions {
+    // The number of seconds either side of now that a request timestamp can be.
+    replayWindowSeconds?: number;
+
+    // Called whenever a request is rejected.
+    onError?: (error: CodedError) => void;
+
+    // Called with every request whose signature has been verified (used to record requests)
+    onVerified?: (rawBody: string, headers: Record<string, any>) => void;
+}
+
 /**
  * The SlackCommandAdapter is a class that mimics the functionality in the SlackEventAdapater
  * and SlackInteractionAdapter.  It does the work of injecting middleware which properly responds to Slack
@@ -19,14 +35,19 @@ import {logger} from ".";
 export class SlackCommandAdapter {
 
     protected signingSecret: string;
+    protected options: ISlackCommandAdapterOptions;
 
-    public constructor(signingSecret: string) {
+    public constructor(signingSecret: string, options: ISlackCommandAdapterOptions = {}) {
         this.signingSecret = signingSecret;
+        this.options = options;
     }
 
     public expressMiddleware() {
 
         const signingSecret = this.signingSecret;
+        const replayWindow = this.options.replayWindowSeconds || DEFAULT_REPLAY_WINDOW_SECONDS;
+        const onError = this.options.onError;
+        const onVerified = this.options.onVerified;
 
         /**
          * Request listener used to handle Slack requests and send responses and
@@ -38,27 +59,43 @@ export class SlackCommandAdapter {
         return (req: IncomingMessage, res: ServerResponse, next: express.NextFunction) => {
 
             const respond = getResponder(res);
+            const fail = (error: CodedError) => {
+                if (onError) {
+                    try {
+                        onError(error);
+                    } catch (e) {
+                        logger("the command adapter error handler failed: " + e.toString());
+                    }
+                }
+                handleError(error, respond);
+            };
 
             // If parser is being used and we don't receive the raw payload via `rawBody`,
             // we can't verify request signature
             // @ts-ignore
             if (!isFalsy(req.body) && isFalsy(req.rawBody)) {
-                throw errorWithCode(
+                fail(errorWithCode(
                     new Error("Parsing request body prohibits request signature verification"),
                     ErrorCode.BodyParserNotPermitted,
-                );
+                ));
+                return;
             }
 
             getRawBody(req)
                 .then((bodyBuf) => {
                     const rawBody = bodyBuf.toString();
-                    if (verifyRequestSignature({
+                    if (verifySlackRequest({
                         signingSecret,
+                        replayWindow,
                         requestSignature: req.headers["x-slack-signature"] as string,
                         requestTimestamp: parseInt(req.headers["x-slack-request-timestamp"] as string, 10),
                         body: rawBody,
                     })) {
                         // Request signature is verified
+                        if (onVerified) {
+                            onVerified(rawBody, req.headers);
+                        }
+
                         // Parse raw body
                         // @ts-ignore
                         req.body = parseBody(rawBody);
@@ -74,14 +111,61 @@ export class SlackCommandAdapter {
 
                         next();
 
+                    } else {
+                        fail(errorWithCode(new Error("Slack request signing verification failed"),
+                            ErrorCode.SignatureVerificationFailure));
                     }
                 }).catch((error) => {
-                handleError(error, respond);
+                fail(error);
             });
         };
     }
 }
 
+/**
+ * Checks that the request came from Slack.  The timestamp must be within the replay window (in either direction) and
+ * the signature must match the body.  Unlike the version in the events API package, missing headers are treated
+ * as a failed verification instead of an unexpected error.
+ * https://api.slack.com/authentication/verifying-requests-from-slack
+ *
+ * @throws CodedError with RequestTimeFailure if the timestamp is missing or outside of the replay window
+ * @returns false if the signature is missing or does not match.
+ */
+export function verifySlackRequest(params: {
+    signingSecret: string,
+    requestSignature: string,
+    requestTimestamp: number,
+    body: string,
+    replayWindow?: number
+}): boolean {
+    const replayWindow = params.replayWindow || DEFAULT_REPLAY_WINDOW_SECONDS;
+    const now = Math.floor(Date.now() / 1000);
+
+    if (isFalsy(params.requestTimestamp) || Math.abs(now - params.requestTimestamp) > replayWindow) {
+        logger("request timestamp is missing or outside of the replay window");
+        throw errorWithCode(new Error("Slack request signing verification outdated"), ErrorCode.RequestTimeFailure);
+    }
+
+    if (isFalsy(params.requestSignature) || params.requestSignature.indexOf("=") === -1) {
+        logger("request does not have a signature");
+        return false;
+    }
+
+    const [version, hash] = params.requestSignature.split("=");
+    const expected = crypto.createHmac("sha256", params.signingSecret)
+        .update(`${version}:${params.requestTimestamp}:${params.body}`)
+        .digest("hex");
+
+    const expectedBuf = Buffer.from(expected);
+    const hashBuf = Buffer.from(hash);
+    if (expectedBuf.length !== hashBuf.length || !crypto.timingSafeEqual(expectedBuf, hashBuf)) {
+        logger("request signature is not valid");
+        return false;
+    }
+
+    return true;
+}
+
 /**
  * Creates a responder based on a response object that is provided.  It returns a function that  can be called
  * to send a response after a request has been made.
@@ -96,10 +180,9 @@ function getResponder(res: ServerResponse): ResponseHandler {
         if (!isFalsy(err)) {
             if ("status" in err && typeof err.status === "number") {
                 res.statusCode = err.status;
-            } else if (
-                (err as CodedError).code === ErrorCode.SignatureVerificationFailure ||
-                (err as CodedError).code === ErrorCode.RequestTimeFailure
-            ) {
+            } else if ((err as CodedError).code === ErrorCode.SignatureVerificationFailure) {
+                res.statusCode = 401;
+            } else if ((err as CodedError).code === ErrorCode.RequestTimeFailure) {
                 res.statusCode = 404;
             } else {
                 res.statusCode = 500;
@@ -145,7 +228,8 @@ function handleError(error: CodedError, respond: ResponseHandler): void {
     logger("handling error - message: %s, code: %s", error.message, error.code);
     try {
         if (process.env.NODE_ENV === "development") {
-            respond({status: 500} as ResponseError, {content: error.message});
+            // show what went wrong but keep the status code that goes with the error.
+            respond(error, {content: error.message});
         } else {
             respond(error);
         }
@@ -182,6 +266,7 @@ function isFalsy(x: any): x is 0 | "" | null | undefined {
     return x === 0 || x === "" || x === null || x === undefined || (typeof x === "number" && isNaN(x));
 }
 
-export const createCommandAdapter = (signingSecret: string): SlackCommandAdapter => {
-    return new SlackCommandAdapter(signingSecret);
+export const createCommandAdapter = (signingSecret: string,
+                                     options?: ISlackCommandAdapterOptions): SlackCommandAdapter => {
+    return new SlackCommandAdapter(signingSecret, options);
 };
@@ -0,0 +1,296 @@
+import axios from "axios";
+import WebSocket from "ws";
+import { logger } from ".";
+
+/**
+ * Configuration for connecting to Slack using Socket Mode instead of receiving requests over HTTP.
+ * https://api.slack.com/apis/connections/socket
+ */
+export interface ISlackSocketModeConfig {
+    // The app-level token (starts with xapp-) that has the connections:write scope.
+    appToken: string;
+
+    // The base URL of the Web API.  This is only here so that a local stand-in server can be used for testing.
+    apiUrl?: string;
+
+    // The delay before the first reconnect attempt.  This doubles with each failed attempt up to maxReconnectDelay.
+    minReconnectDelay?: number;
+    maxReconnectDelay?: number;
+
+    // Give up after this many failed attempts in a row.  By default, it will keep trying forever.
+    maxReconnectAttempts?: number;
+
+    // If nothing (including a ping) is received from Slack for this long then the connection is assumed to be dead.
+    pingTimeout?: number;
+}
+
+/**
+ * The types of envelopes that Slack sends over the socket.
+ */
+export type SocketModeEnvelopeType = "events_api" | "interactive" | "slash_commands";
+
+/**
+ * Details about the envelope that aren't part of the payload.
+ */
+export interface ISocketModeEnvelopeInfo {
+    envelopeId: string;
+    retryAttempt?: number;
+    retryReason?: string;
+}
+
+/**
+ * Called with the payload of every envelope received.  Whatever it resolves to is sent back to Slack as the
+ * payload of the acknowledgement.
+ */
+export type SocketModeDispatcher = (type: SocketModeEnvelopeType, payload: Record<string, any>,
+                                    info: ISocketModeEnvelopeInfo) => Promise<any>;
+
+const DEFAULT_API_URL = "https://slack.com/api/";
+const DEFAULT_MIN_RECONNECT_DELAY = 1000;
+const DEFAULT_MAX_RECONNECT_DELAY = 60 * 1000;
+const DEFAULT_PING_TIMEOUT = 30 * 1000;
+
+/**
+ * Maintains a Socket Mode connection to Slack.  It asks the Web API for a WebSocket URL, connects to it and passes
+ * every envelope it receives to the dispatcher, sending the result back as the acknowledgement.  If the connection
+ * drops (or Slack asks us to reconnect) a new connection is opened with an exponential backoff between
+ * failed attempts.
+ */
+export class SlackSocketModeClient {
+
+    protected config: ISlackSocketModeConfig;
+    protected dispatcher: SocketModeDispatcher;
+    protected socket: WebSocket;
+    protected reconnectAttempts = 0;
+    protected reconnectTimer: NodeJS.Timeout;
+    protected pingTimer: NodeJS.Timeout;
+    protected lastReceived: number;
+    protected stopped = true;
+
+    public constructor(config: ISlackSocketModeConfig, dispatcher: SocketModeDispatcher) {
+        if (!config.appToken) {
+            throw new Error("An app-level token is required to use Socket Mode");
+        }
+        this.config = config;
+        this.dispatcher = dispatcher;
+    }
+
+    /**
+     * Returns true if there is an open connection to Slack.
+     */
+    public get connected(): boolean {
+        return !!this.socket && this.socket.readyState === WebSocket.OPEN;
+    }
+
+    /**
+     * Opens the connection.  If the first attempt fails, the client will continue to try to connect in the
+     * background but the returned promise is rejected so that the caller knows about it.
+     */
+    public async start(): Promise<void> {
+        this.stopped = false;
+        try {
+            await this.connect();
+        } catch (e) {
+            this.scheduleReconnect();
+            throw e;
+        }
+    }
+
+    /**
+     * Closes the connection and stops any further reconnect attempts.
+     */
+    public stop() {
+        this.stopped = true;
+        clearTimeout(this.reconnectTimer);
+        clearInterval(this.pingTimer);
+        if (this.socket) {
+            this.socket.removeAllListeners();
+            this.socket.on("error", () => undefined);
+            this.socket.close();
+            this.socket = undefined;
+        }
+    }
+
+    /**
+     * Asks Slack for the URL to connect to.  Each URL can only be used once.
+     */
+    protected async getConnectionUrl(): Promise<string> {
+        const apiUrl = this.config.apiUrl || DEFAULT_API_URL;
+        const response = await axios.post(`${apiUrl}apps.connections.open`, undefined, {
+            headers: { Authorization: `Bearer ${this.config.appToken}` }
+        });
+
+        if (!response.data || !response.data.ok) {
+            throw new Error("Unable to open a Socket Mode connection: " +
+                (response.data ? response.data.error : "no response"));
+        }
+        return response.data.url;
+    }
+
+    protected async connect(): Promise<void> {
+        const url = await this.getConnectionUrl();
+
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(url);
+            let opened = false;
+
+            socket.on("open", () => {
+                opened = true;
+                if (this.stopped) {
+                    socket.close();
+                    return resolve();
+                }
+                this.replaceSocket(socket);
+                resolve();
+            });
+
+            socket.on("message", (data) => {
+                this.lastReceived = Date.now();
+                this.onMessage(socket, data.toString());
+            });
+
+            socket.on("ping", () => {
+                this.lastReceived = Date.now();
+            });
+
+            socket.on("close", (code) => {
+                logger(`Socket Mode connection closed with code ${code}`);
+                if (socket === this.socket) {
+                    this.socket = undefined;
+                    this.scheduleReconnect();
+                }
+            });
+
+            socket.on("error", (err) => {
+                logger("Socket Mode connection error: " + err.message);
+                if (!opened) {
+                    reject(err);
+                }
+            });
+        });
+    }
+
+    /**
+     * Makes the given socket the active one and closes the previous connection (if any).  Slack allows more than
+     * one connection at a time so we don't close the old one until the new one is ready.
+     */
+    protected replaceSocket(socket: WebSocket) {
+        const previous = this.socket;
+        this.socket = socket;
+        this.lastReceived = Date.now();
+
+        if (previous) {
+            previous.removeAllListeners();
+            previous.on("error", () => undefined);
+            previous.close();
+        }
+
+        clearInterval(this.pingTimer);
+        const pingTimeout = this.config.pingTimeout || DEFAULT_PING_TIMEOUT;
+        this.pingTimer = setInterval(() => {
+            if (this.socket === socket && Date.now() - this.lastReceived > pingTimeout) {
+                logger(`Nothing received over Socket Mode for ${pingTimeout}ms.  Reconnecting.`);
+                socket.terminate();
+            }
+        }, Math.min(pingTimeout, 5000));
+    }
+
+    protected onMessage(socket: WebSocket, data: string) {
+        let message: Record<string, any>;
+        try {
+            message = JSON.parse(data);
+        } catch (e) {
+            logger("Received a Socket Mode message that is not valid JSON");
+            return;
+        }
+
+        if (message.type === "hello") {
+            logger("Socket Mode connection established");
+            this.reconnectAttempts = 0;
+            return;
+        }
+
+        if (message.type === "disconnect") {
+            logger(`Slack requested a disconnect because of ${message.reason}`);
+            if (message.reason === "link_disabled") {
+                // Socket Mode has been turned off for the app so there's no point in trying again.
+                this.stop();
+            } else if (socket === this.socket) {
+                this.reconnect();
+            }
+            return;
+        }
+
+        if (!message.envelope_id) {
+            logger(`Ignoring Socket Mode message of type ${message.type}`);
+            return;
+        }
+
+        if (message.retry_attempt) {
+            logger(`Received retry ${message.retry_attempt} of envelope ${message.envelope_id} ` +
+                `because of ${message.retry_reason}`);
+        }
+
+        this.dispatcher(message.type, message.payload || {}, {
+            envelopeId: message.envelope_id,
+            retryAttempt: message.retry_attempt,
+            retryReason: message.retry_reason
+        })
+            .catch((err) => {
+                logger(`Socket Mode ${message.type} handler failed: ` + err.toString());
+                return undefined;
+            })
+            .then((payload) => {
+                const ack: Record<string, any> = { envelope_id: message.envelope_id };
+                if (payload !== undefined && message.accepts_response_payload) {
+                    ack.payload = payload;
+                }
+                if (socket.readyState === WebSocket.OPEN) {
+                    socket.send(JSON.stringify(ack));
+                } else {
+                    logger(`Unable to acknowledge envelope ${message.envelope_id} because the socket is closed`);
+                }
+            });
+    }
+
+    /**
+     * Opens a new connection right away (used when Slack asks us to).  The current connection stays open until
+     * the new one is ready.
+     */
+    protected reconnect() {
+        this.connect().catch((err) => {
+            logger("Unable to reconnect to Slack: " + err.message);
+            this.scheduleReconnect();
+        });
+    }
+
+    protected scheduleReconnect() {
+        if (this.stopped) {
+            return;
+        }
+
+        const maxAttempts = this.config.maxReconnectAttempts;
+        if (maxAttempts && this.reconnectAttempts >= maxAttempts) {
+            logger(`Giving up on Socket Mode after ${this.reconnectAttempts} failed attempts`);
+            this.stop();
+            return;
+        }
+
+        const minDelay = this.config.minReconnectDelay || DEFAULT_MIN_RECONNECT_DELAY;
+        const maxDelay = this.config.maxReconnectDelay || DEFAULT_MAX_RECONNECT_DELAY;
+        const backoff = Math.min(maxDelay, minDelay * Math.pow(2, this.reconnectAttempts));
+
+        // add some jitter so that multiple instances don't all reconnect at the same moment.
+        const delay = Math.round(backoff / 2 + Math.random() * backoff / 2);
+        this.reconnectAttempts++;
+
+        logger(`Reconnecting to Slack in ${delay}ms (attempt ${this.reconnectAttempts})`);
+        clearTimeout(this.reconnectTimer);
+        this.reconnectTimer = setTimeout(() => {
+            this.connect().catch((err) => {
+                logger("Unable to reconnect to Slack: " + err.message);
+                this.scheduleReconnect();
+            });
+        }, delay);
+    }
+}
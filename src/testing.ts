@@ -0,0 +1,605 @@
+/**
+ * Tools for testing modules that use the SlackConnection without talking to Slack.  Requests are signed with the
+ * connection's signing secret so they go through the same verification as real requests, API calls go to a fake
+ * client that records them and anything posted to a response_url or incoming webhook is captured by a local server.
+ *
+ *   const harness = await createTestHarness({ commands: [...] });
+ *   const res = await harness.send(buildCommandRequest(harness.signingSecret, { command: "ticket", text: "list" }));
+ *   await harness.close();
+ */
+import * as crypto from "crypto";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as querystring from "querystring";
+import axios from "axios";
+import express, { Application } from "express";
+import WebSocket from "ws";
+import { WebClient } from "@slack/web-api";
+import { SlackConnection } from ".";
+import { SocketModeEnvelopeType } from "./socketModeClient";
+
+export const TEST_SIGNING_SECRET = "test-signing-secret";
+
+export interface ISignedSlackRequest {
+    path: string;
+    headers: Record<string, string>;
+    body: string;
+}
+
+export interface ITestResponse {
+    status: number;
+    headers: Record<string, any>;
+    body: any;
+}
+
+/**
+ * Returns the headers that Slack would send with the given body.
+ * https://api.slack.com/authentication/verifying-requests-from-slack
+ *
+ * @param signingSecret The secret to sign with.
+ * @param body The raw body of the request.
+ * @param timestamp The time of the request in seconds.  Defaults to now.
+ */
+export function signRequest(signingSecret: string, body: string, timestamp?: number): Record<string, string> {
+    const ts = timestamp === undefined ? Math.floor(Date.now() / 1000) : timestamp;
+    const hmac = crypto.createHmac("sha256", signingSecret).update(`v0:${ts}:${body}`).digest("hex");
+    return {
+        "x-slack-request-timestamp": ts.toString(),
+        "x-slack-signature": `v0=${hmac}`
+    };
+}
+
+/**
+ * Builds a signed slash command request.  The command is given without the slash and anything not given is
+ * filled in with test values.
+ * @param signingSecret The secret to sign with.
+ * @param params The fields of the command.
+ * @param timestamp The time of the request in seconds.  Defaults to now.
+ */
+export function buildCommandRequest(signingSecret: string, params: Record<string, string>,
+                                    timestamp?: number): ISignedSlackRequest {
+    const command = (params.command || "test").replace(/^\//, "");
+    const fields: Record<string, string> = {
+        token: "test-token",
+        team_id: "T00000001",
+        team_domain: "test",
+        channel_id: "C00000001",
+        channel_name: "test",
+        user_id: "U00000001",
+        user_name: "tester",
+        text: "",
+        trigger_id: "1.2.3",
+        ...params,
+        command: `/${command}`
+    };
+
+    const body = querystring.stringify(fields);
+    return {
+        path: `/slack/commands/${command}`,
+        headers: {
+            "content-type": "application/x-www-form-urlencoded",
+            ...signRequest(signingSecret, body, timestamp)
+        },
+        body
+    };
+}
+
+/**
+ * Builds a signed Events API request that wraps the given event.
+ * @param signingSecret The secret to sign with.
+ * @param event The inner event (must have a type).
+ * @param envelope Any fields of the outer event_callback to override.
+ * @param timestamp The time of the request in seconds.  Defaults to now.
+ */
+export function buildEventRequest(signingSecret: string, event: Record<string, any>,
+                                  envelope: Record<string, any> = {}, timestamp?: number): ISignedSlackRequest {
+    const body = JSON.stringify({
+        token: "test-token",
+        team_id: "T00000001",
+        api_app_id: "A00000001",
+        type: "event_callback",
+        event_id: `Ev${crypto.randomBytes(5).toString("hex").toUpperCase()}`,
+        event_time: Math.floor(Date.now() / 1000),
+        event,
+        ...envelope
+    });
+
+    return {
+        path: "/slack/events",
+        headers: {
+            "content-type": "application/json",
+            ...signRequest(signingSecret, body, timestamp)
+        },
+        body
+    };
+}
+
+/**
+ * Builds a signed interaction request (block actions, view submissions, shortcuts, etc.)
+ * @param signingSecret The secret to sign with.
+ * @param payload The interaction payload.
+ * @param timestamp The time of the request in seconds.  Defaults to now.
+ */
+export function buildInteractionRequest(signingSecret: string, payload: Record<string, any>,
+                                        timestamp?: number): ISignedSlackRequest {
+    const body = querystring.stringify({
+        payload: JSON.stringify({
+            token: "test-token",
+            team: { id: "T00000001", domain: "test" },
+            user: { id: "U00000001", username: "tester", team_id: "T00000001" },
+            ...payload
+        })
+    });
+
+    return {
+        path: "/slack/interactions",
+        headers: {
+            "content-type": "application/x-www-form-urlencoded",
+            ...signRequest(signingSecret, body, timestamp)
+        },
+        body
+    };
+}
+
+/**
+ * Sends the given request to an express app and returns the response.  The app is only listening (on a random
+ * local port) for the duration of the request.
+ * @param app The app to send the request to.
+ * @param request The request to send.
+ */
+export async function sendRequest(app: Application, request: ISignedSlackRequest): Promise<ITestResponse> {
+    const server = http.createServer(app);
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(undefined)));
+    try {
+        const port = (server.address() as AddressInfo).port;
+        const response = await axios.post(`http://127.0.0.1:${port}${request.path}`, request.body, {
+            headers: request.headers,
+            validateStatus: () => true,
+            transformResponse: [(data: string) => {
+                try {
+                    return JSON.parse(data);
+                } catch (e) {
+                    return data;
+                }
+            }]
+        });
+        return { status: response.status, headers: response.headers, body: response.data };
+    } finally {
+        await new Promise((resolve) => server.close(() => resolve(undefined)));
+    }
+}
+
+export interface IRecordedApiCall {
+    method: string;
+    args: Record<string, any>;
+}
+
+type ScriptedResponse = Record<string, any> | ((args: Record<string, any>) => Record<string, any>);
+
+/**
+ * Stands in for a WebClient.  Every method (e.g. `client.chat.postMessage(...)`) is recorded and resolves to
+ * whatever has been scripted for it or `{ ok: true }` if nothing has.  Use `asWebClient()` to get an object that can
+ * be used wherever a WebClient is expected.
+ */
+export class FakeWebClient {
+
+    public calls: IRecordedApiCall[] = [];
+    protected responses: Record<string, ScriptedResponse[]> = {};
+
+    /**
+     * Scripts the response to the given method.  Responses are used in the order they are given and the last one
+     * is repeated.  A response can be a function that is given the arguments of the call.  A response with
+     * `ok: false` is thrown as an error the way the real client does.
+     * @param method The full method name (e.g. chat.postMessage)
+     * @param response The response to return.
+     */
+    public respondTo(method: string, response: ScriptedResponse): FakeWebClient {
+        if (!(method in this.responses)) {
+            this.responses[method] = [];
+        }
+        this.responses[method].push(response);
+        return this;
+    }
+
+    /**
+     * Returns the recorded calls to the given method.
+     * @param method The full method name (e.g. chat.postMessage)
+     */
+    public callsTo(method: string): IRecordedApiCall[] {
+        return this.calls.filter((c) => c.method === method);
+    }
+
+    public reset() {
+        this.calls = [];
+        this.responses = {};
+    }
+
+    public async apiCall(method: string, args: Record<string, any> = {}): Promise<Record<string, any>> {
+        this.calls.push({ method, args });
+
+        const scripted = this.responses[method];
+        let response: ScriptedResponse = { ok: true };
+        if (scripted && scripted.length > 0) {
+            response = scripted.length > 1 ? scripted.shift() : scripted[0];
+        }
+
+        const result = typeof response === "function" ? response(args) : response;
+        if (result && result.ok === false) {
+            const error: any = new Error(`An API error occurred: ${result.error}`);
+            error.code = "slack_webapi_platform_error";
+            error.data = result;
+            throw error;
+        }
+        return result;
+    }
+
+    /**
+     * Returns a proxy that turns property access into method names so that `proxy.chat.postMessage(args)` is the
+     * same as `apiCall("chat.postMessage", args)`.
+     */
+    public asWebClient(): WebClient {
+        const build = (prefix: string): any => new Proxy(() => undefined, {
+            get: (_target, prop) => {
+                if (prefix === "" && prop === "apiCall") {
+                    return (method: string, args: Record<string, any>) => this.apiCall(method, args);
+                }
+                if (typeof prop !== "string" || prop === "then") {
+                    return undefined;
+                }
+                return build(prefix ? `${prefix}.${prop}` : prop);
+            },
+            apply: (_target, _thisArg, args) => this.apiCall(prefix, args[0])
+        });
+        return build("") as WebClient;
+    }
+}
+
+export interface ICapturedPost {
+    path: string;
+    headers: Record<string, any>;
+    body: any;
+}
+
+/**
+ * A local HTTP server that records everything posted to it.  Use `url()` to get addresses that can be used as
+ * response_urls or incoming webhooks.
+ */
+export class CaptureServer {
+
+    public posts: ICapturedPost[] = [];
+    public status = 200;
+    protected server: http.Server;
+    protected waiters: { count: number, resolve: () => void }[] = [];
+
+    public async start(): Promise<CaptureServer> {
+        this.server = http.createServer((req, res) => {
+            let data = "";
+            req.on("data", (chunk) => data += chunk);
+            req.on("end", () => {
+                let body: any = data;
+                try {
+                    body = JSON.parse(data);
+                } catch (e) {
+                    // leave it as a string.
+                }
+                this.posts.push({ path: req.url, headers: req.headers, body });
+                res.statusCode = this.status;
+                res.end(this.status === 200 ? "ok" : "error");
+
+                this.waiters = this.waiters.filter((w) => {
+                    if (this.posts.length >= w.count) {
+                        w.resolve();
+                        return false;
+                    }
+                    return true;
+                });
+            });
+        });
+
+        await new Promise((resolve) => this.server.listen(0, "127.0.0.1", () => resolve(undefined)));
+        return this;
+    }
+
+    /**
+     * Returns a URL on this server.
+     * @param path The path of the URL (e.g. /response/1)
+     */
+    public url(path: string = "/"): string {
+        const port = (this.server.address() as AddressInfo).port;
+        return `http://127.0.0.1:${port}${path.startsWith("/") ? path : "/" + path}`;
+    }
+
+    /**
+     * Resolves once at least the given number of posts have been received.
+     * @param count The number of posts to wait for.
+     * @param timeoutMs How long to wait before rejecting.
+     */
+    public waitForPosts(count: number, timeoutMs: number = 2000): Promise<ICapturedPost[]> {
+        if (this.posts.length >= count) {
+            return Promise.resolve(this.posts);
+        }
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => reject(new Error(`Only received ${this.posts.length} of ${count} posts`)),
+                timeoutMs);
+            this.waiters.push({
+                count, resolve: () => {
+                    clearTimeout(timer);
+                    resolve(this.posts);
+                }
+            });
+        });
+    }
+
+    public async close() {
+        if (this.server) {
+            await new Promise((resolve) => this.server.close(() => resolve(undefined)));
+            this.server = undefined;
+        }
+    }
+}
+
+export interface ISocketModeAck {
+    envelope_id: string;
+    payload?: any;
+}
+
+export interface ISocketModeEnvelopeOptions {
+    retryAttempt?: number;
+    retryReason?: string;
+
+    // Whether the ack can carry a response (Slack sets this for commands and some interactions).  Defaults to true.
+    acceptsResponsePayload?: boolean;
+}
+
+/**
+ * A local stand-in for Slack's side of Socket Mode.  It answers apps.connections.open with the URL of its own
+ * WebSocket server, says hello to every connection and records the acknowledgements it gets back.  Give `apiUrl()`
+ * to the socketMode config to use it.
+ */
+export class SocketModeServer {
+
+    public acks: ISocketModeAck[] = [];
+
+    // The number of times apps.connections.open has been called (including the ones that were made to fail)
+    public opensRequested = 0;
+
+    public authorization: string;
+
+    // Set this to false to connect without the hello message.
+    public sendHello = true;
+
+    protected server: http.Server;
+    protected wss: WebSocket.Server;
+    protected sockets: WebSocket[] = [];
+    protected openFailures = 0;
+    protected envelopes = 0;
+    protected ackWaiters: Map<string, (ack: ISocketModeAck) => void> = new Map();
+    protected connectionWaiters: { count: number, resolve: () => void }[] = [];
+
+    public async start(): Promise<SocketModeServer> {
+        this.server = http.createServer((req, res) => {
+            req.resume();
+            this.opensRequested++;
+            this.authorization = req.headers.authorization;
+            res.setHeader("content-type", "application/json");
+
+            if (req.url !== "/api/apps.connections.open") {
+                res.statusCode = 404;
+                res.end(JSON.stringify({ ok: false, error: "unknown_method" }));
+            } else if (this.openFailures > 0) {
+                this.openFailures--;
+                res.end(JSON.stringify({ ok: false, error: "internal_error" }));
+            } else {
+                const port = (this.server.address() as AddressInfo).port;
+                res.end(JSON.stringify({ ok: true, url: `ws://127.0.0.1:${port}/link/${this.opensRequested}` }));
+            }
+        });
+
+        this.wss = new WebSocket.Server({ server: this.server });
+        this.wss.on("connection", (socket) => {
+            this.sockets.push(socket);
+            socket.on("message", (data) => this.onMessage(data.toString()));
+            if (this.sendHello) {
+                socket.send(JSON.stringify({ type: "hello", num_connections: this.openSockets.length }));
+            }
+
+            this.connectionWaiters = this.connectionWaiters.filter((w) => {
+                if (this.sockets.length >= w.count) {
+                    w.resolve();
+                    return false;
+                }
+                return true;
+            });
+        });
+
+        await new Promise((resolve) => this.server.listen(0, "127.0.0.1", () => resolve(undefined)));
+        return this;
+    }
+
+    /**
+     * The base URL of the stand-in Web API (for ISlackSocketModeConfig.apiUrl)
+     */
+    public apiUrl(): string {
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api/`;
+    }
+
+    /**
+     * The number of connections that have been made (including ones that have since closed)
+     */
+    public get connectionCount(): number {
+        return this.sockets.length;
+    }
+
+    public get openSockets(): WebSocket[] {
+        return this.sockets.filter((s) => s.readyState === WebSocket.OPEN);
+    }
+
+    /**
+     * Resolves once at least the given number of connections have been made.
+     * @param count The number of connections to wait for.
+     * @param timeoutMs How long to wait before rejecting.
+     */
+    public waitForConnections(count: number, timeoutMs: number = 2000): Promise<void> {
+        if (this.sockets.length >= count) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() =>
+                reject(new Error(`Only ${this.sockets.length} of ${count} connections were made`)), timeoutMs);
+            this.connectionWaiters.push({
+                count, resolve: () => {
+                    clearTimeout(timer);
+                    resolve();
+                }
+            });
+        });
+    }
+
+    /**
+     * Makes the next calls to apps.connections.open fail.
+     * @param count The number of calls to fail.
+     */
+    public failNextOpens(count: number) {
+        this.openFailures = count;
+    }
+
+    /**
+     * Sends an envelope over the newest open connection and resolves with its acknowledgement.
+     * @param type The type of envelope.
+     * @param payload What would have been the body of the HTTP request.
+     * @param options Retry details and whether a response payload is accepted.
+     * @param timeoutMs How long to wait for the acknowledgement.
+     */
+    public sendEnvelope(type: SocketModeEnvelopeType, payload: Record<string, any>,
+                        options: ISocketModeEnvelopeOptions = {}, timeoutMs: number = 2000): Promise<ISocketModeAck> {
+        const socket = this.openSockets[this.openSockets.length - 1];
+        if (!socket) {
+            return Promise.reject(new Error("There is no open Socket Mode connection"));
+        }
+
+        const envelopeId = `envelope-${++this.envelopes}`;
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => {
+                this.ackWaiters.delete(envelopeId);
+                reject(new Error(`Envelope ${envelopeId} was not acknowledged`));
+            }, timeoutMs);
+            this.ackWaiters.set(envelopeId, (ack) => {
+                clearTimeout(timer);
+                resolve(ack);
+            });
+
+            socket.send(JSON.stringify({
+                envelope_id: envelopeId,
+                type,
+                payload,
+                accepts_response_payload: options.acceptsResponsePayload !== false,
+                retry_attempt: options.retryAttempt || 0,
+                retry_reason: options.retryReason || ""
+            }));
+        });
+    }
+
+    /**
+     * Asks the client to reconnect the way Slack does before it closes a connection.
+     * @param reason The reason given (link_disabled tells the client not to reconnect)
+     */
+    public requestDisconnect(reason: string = "refresh_requested") {
+        for (const socket of this.openSockets) {
+            socket.send(JSON.stringify({ type: "disconnect", reason }));
+        }
+    }
+
+    /**
+     * Drops every connection without warning (as if the network went away)
+     */
+    public dropConnections() {
+        for (const socket of this.openSockets) {
+            socket.terminate();
+        }
+    }
+
+    public async close() {
+        for (const socket of this.sockets) {
+            socket.terminate();
+        }
+        if (this.wss) {
+            await new Promise((resolve) => this.wss.close(() => resolve(undefined)));
+            this.wss = undefined;
+        }
+        if (this.server) {
+            await new Promise((resolve) => this.server.close(() => resolve(undefined)));
+            this.server = undefined;
+        }
+    }
+
+    protected onMessage(data: string) {
+        let ack: ISocketModeAck;
+        try {
+            ack = JSON.parse(data);
+        } catch (e) {
+            return;
+        }
+        if (!ack.envelope_id) {
+            return;
+        }
+
+        this.acks.push(ack);
+        const waiter = this.ackWaiters.get(ack.envelope_id);
+        if (waiter) {
+            this.ackWaiters.delete(ack.envelope_id);
+            waiter(ack);
+        }
+    }
+}
+
+export interface ITestHarness {
+    signingSecret: string;
+    app: Application;
+    connection: SlackConnection;
+    bot: FakeWebClient;
+    user: FakeWebClient;
+    capture: CaptureServer;
+    send(request: ISignedSlackRequest): Promise<ITestResponse>;
+    close(): Promise<void>;
+}
+
+/**
+ * Creates a connection that is wired to an express app, fake API clients and a capture server.  The given config
+ * is merged with defaults for everything that is required.
+ * @param config The connection config (as would be given to the connection).
+ */
+export async function createTestHarness(config: Partial<SlackConnection["config"]> = {}): Promise<ITestHarness> {
+    const app = express();
+    const signingSecret = config.signingSecret || TEST_SIGNING_SECRET;
+    const capture = await new CaptureServer().start();
+    const bot = new FakeWebClient();
+    const user = new FakeWebClient();
+
+    const connection = new SlackConnection({
+        appId: "A00000001",
+        clientId: "test-client-id",
+        clientSecret: "test-client-secret",
+        ...config,
+        signingSecret,
+        subApp: app
+    });
+
+    connection.apiAsBot = bot.asWebClient();
+    connection.apiAsApp = user.asWebClient();
+
+    return {
+        signingSecret,
+        app,
+        connection,
+        bot,
+        user,
+        capture,
+        send: (request: ISignedSlackRequest) => sendRequest(app, request),
+        close: async () => {
+            connection.disconnect();
+            await capture.close();
+        }
+    };
+}
@@ -0,0 +1,215 @@
+import { ISlackAckResponse, SlackConnection, SlackPayload } from ".";
+
+/**
+ * The value of a single input in a submitted view.  Inputs that allow more than one selection (multi-selects and
+ * checkboxes) have an array of values.  Inputs that were left empty are undefined.
+ */
+export type SlackFormValue = string | string[] | undefined;
+
+/**
+ * The values of a submitted view keyed by action_id.  Give your own type to get typed access to the fields:
+ *
+ *   interface ITicketForm { summary: string; priority: string; watchers: string[] }
+ */
+export type SlackForm = Record<string, SlackFormValue>;
+
+/**
+ * Everything a view submission handler needs.  The form and metadata are parsed from the payload.
+ */
+export interface ISlackViewSubmission<F = SlackForm, M = any> {
+    form: F;
+    metadata: M;
+    view: Record<string, any>;
+    user: Record<string, any>;
+    payload: SlackPayload;
+}
+
+export type SlackViewSubmissionFunction<F = SlackForm, M = any> =
+    (conn: SlackConnection, submission: ISlackViewSubmission<F, M>) => Promise<ISlackAckResponse | void>;
+
+/**
+ * Validates one field of a form.  Return a message to show under the input or undefined if the value is valid.
+ */
+export type SlackFieldValidator<F = SlackForm> = (value: SlackFormValue, form: F) => string | undefined;
+
+/**
+ * Handles the submission (and optionally the closing) of the views with the given callback_id.  If validators are
+ * given, they are run first and the errors are sent back to Slack without calling onSubmit if any fail.
+ */
+export interface ISlackViewHandler<F = SlackForm, M = any> {
+    callbackId: string | RegExp;
+    onSubmit?: SlackViewSubmissionFunction<F, M>;
+    onClose?: SlackViewSubmissionFunction<F, M>;
+    validate?: Partial<Record<keyof F, SlackFieldValidator<F>>>;
+}
+
+export interface ISlackViewOptions<M = any> {
+    // Stored in private_metadata as JSON and given back to the submission handler.
+    metadata?: M;
+
+    // The hash of the view being replaced (views.update only).  Defaults to the last hash we saw for the view.
+    hash?: string;
+
+    // The workspace to open the view in (when the app is installed in more than one).  views.update defaults to the
+    // team_id of the view being replaced.
+    teamId?: string;
+}
+
+/**
+ * Converts the given metadata into a private_metadata string.  Strings are stored as is.
+ * @param metadata The metadata to encode.
+ */
+export function encodePrivateMetadata(metadata: any): string {
+    if (metadata === undefined) {
+        return undefined;
+    }
+    return typeof metadata === "string" ? metadata : JSON.stringify(metadata);
+}
+
+/**
+ * Reads the private_metadata of a view (or a payload that contains a view).  JSON is parsed and anything else is
+ * returned as a string.
+ * @param viewOrPayload The view or an interaction payload.
+ */
+export function decodePrivateMetadata<M = any>(viewOrPayload: Record<string, any>): M {
+    const view = viewOrPayload && viewOrPayload.view ? viewOrPayload.view : viewOrPayload;
+    const metadata = view ? view.private_metadata : undefined;
+    if (!metadata) {
+        return undefined;
+    }
+    let decoded: M | string = metadata;
+    try {
+        decoded = JSON.parse(metadata);
+    } catch (e) {
+        // not JSON so it's given back as the string it was stored as.
+    }
+    return decoded as M;
+}
+
+/**
+ * Flattens the state.values of a view into an object keyed by action_id.  Block Kit only requires action_ids to be
+ * unique within a block but the builder makes them unique across the view so nothing is lost.  If an action_id does
+ * appear more than once, the last one wins.
+ * https://api.slack.com/reference/interaction-payloads/views#view_submission_fields
+ *
+ * @param viewOrPayload The view or an interaction payload.
+ */
+export function parseViewState<F = SlackForm>(viewOrPayload: Record<string, any>): F {
+    const view = viewOrPayload && viewOrPayload.view ? viewOrPayload.view : viewOrPayload;
+    const values: Record<string, Record<string, any>> = view && view.state ? view.state.values || {} : {};
+
+    const form: Record<string, SlackFormValue> = {};
+    for (const blockId of Object.keys(values)) {
+        for (const actionId of Object.keys(values[blockId])) {
+            form[actionId] = getInputValue(values[blockId][actionId]);
+        }
+    }
+    return form as unknown as F;
+}
+
+function getInputValue(input: Record<string, any>): SlackFormValue {
+    if (!input) {
+        return undefined;
+    }
+
+    switch (input.type) {
+        case "static_select":
+        case "external_select":
+        case "radio_buttons":
+            return input.selected_option ? input.selected_option.value : undefined;
+        case "multi_static_select":
+        case "multi_external_select":
+        case "checkboxes":
+            return (input.selected_options || []).map((o: Record<string, any>) => o.value);
+        case "users_select":
+            return input.selected_user || undefined;
+        case "multi_users_select":
+            return input.selected_users || [];
+        case "conversations_select":
+            return input.selected_conversation || undefined;
+        case "multi_conversations_select":
+            return input.selected_conversations || [];
+        case "channels_select":
+            return input.selected_channel || undefined;
+        case "multi_channels_select":
+            return input.selected_channels || [];
+        case "datepicker":
+            return input.selected_date || undefined;
+        case "timepicker":
+            return input.selected_time || undefined;
+        default:
+            return input.value === null ? undefined : input.value;
+    }
+}
+
+/**
+ * Returns the block_id of the block that contains the given action_id.  Errors have to be reported by block_id.
+ * @param view The view to search.
+ * @param actionId The action_id of the input.
+ */
+export function getBlockIdForAction(view: Record<string, any>, actionId: string): string {
+    const values: Record<string, Record<string, any>> = view && view.state ? view.state.values || {} : {};
+    const fromState = Object.keys(values).find((blockId) => actionId in values[blockId]);
+    if (fromState) {
+        return fromState;
+    }
+
+    const block = (view && view.blocks || []).find((b: Record<string, any>) =>
+        b.element && b.element.action_id === actionId);
+    return block ? block.block_id : undefined;
+}
+
+/**
+ * Builds the ack that shows the given errors under the inputs of a view.  Errors are given by action_id and are
+ * converted into the block_ids that Slack expects.
+ * @param view The view that was submitted.
+ * @param errors The error messages keyed by action_id.
+ */
+export function viewErrors(view: Record<string, any>, errors: Record<string, string>): ISlackAckResponse {
+    const byBlock: Record<string, string> = {};
+    for (const actionId of Object.keys(errors)) {
+        byBlock[getBlockIdForAction(view, actionId) || actionId] = errors[actionId];
+    }
+    return { response_action: "errors", errors: byBlock };
+}
+
+/**
+ * Runs the given validators against the form and returns an errors ack if any of them fail.  Returns undefined if
+ * everything is valid.
+ * @param view The view that was submitted.
+ * @param form The parsed form (see parseViewState)
+ * @param validators The validators keyed by action_id.
+ */
+export function validateForm<F>(view: Record<string, any>, form: F,
+                                validators: Partial<Record<keyof F, SlackFieldValidator<F>>>): ISlackAckResponse {
+    const values = form as unknown as Record<string, SlackFormValue>;
+    const errors: Record<string, string> = {};
+    for (const actionId of Object.keys(validators || {})) {
+        const validator = (validators as Record<string, SlackFieldValidator<F>>)[actionId];
+        const message = validator(values[actionId], form);
+        if (message) {
+            errors[actionId] = message;
+        }
+    }
+    return Object.keys(errors).length > 0 ? viewErrors(view, errors) : undefined;
+}
+
+/**
+ * A validator that fails if the value is empty.
+ * @param message The error to show.
+ */
+export function requiredField(message: string = "This field is required"): SlackFieldValidator<any> {
+    return (value) => value === undefined || value === "" || (Array.isArray(value) && value.length === 0) ?
+        message : undefined;
+}
+
+/**
+ * A validator that fails if the value doesn't match the given pattern.  Empty values are allowed (combine with
+ * `requiredField` if they shouldn't be)
+ * @param pattern The pattern to test.
+ * @param message The error to show.
+ */
+export function matchesPattern(pattern: RegExp, message: string): SlackFieldValidator<any> {
+    return (value) => value === undefined || value === "" ||
+        [].concat(value).every((v: string) => pattern.test(v)) ? undefined : message;
+}
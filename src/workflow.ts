@@ -0,0 +1,571 @@
+/**
+ * Multi-step interactions (a command that opens a modal, whose submission posts a message, whose buttons drive an
+ * approval, and so on) modeled as a state machine.
+ *
+ * Each running flow has an ID that is embedded in the action_ids, block_ids, callback_ids and private_metadata of
+ * the things it sends to Slack (see ISlackWorkflowContext).  When an interaction comes back, the ID is used to load
+ * the flow from the store and the transition for its current step is run.
+ *
+ *   const approval: ISlackWorkflowDefinition<IApprovalState> = {
+ *       name: "approval",
+ *       initialStep: "requested",
+ *       timeout: 24 * 60 * 60 * 1000,
+ *       start: async (ctx) => { await ctx.conn.openView(ctx.payload.trigger_id, requestModal(ctx)); },
+ *       steps: {
+ *           requested: { on: [{ trigger: "viewSubmission", name: "request", to: "pending", handler: postRequest }] },
+ *           pending: { on: [
+ *               { trigger: "action", name: "approve", to: "approved", handler: approve },
+ *               { trigger: "action", name: "reject", to: "rejected", handler: reject }
+ *           ] },
+ *           approved: {},
+ *           rejected: {}
+ *       }
+ *   };
+ */
+import * as crypto from "crypto";
+import {
+    ISlackAckResponse,
+    logger,
+    SlackConnection,
+    SlackEventFunction,
+    SlackPayload,
+    SlackSubCommandFunction
+} from ".";
+import { decodePrivateMetadata } from "./views";
+
+export type SlackWorkflowTrigger = "command" | "action" | "viewSubmission" | "viewClosed" | "event";
+
+export type SlackWorkflowStatus = "active" | "completed" | "cancelled" | "expired";
+
+/**
+ * A single running flow as it is kept in the store.
+ */
+export interface ISlackWorkflowInstance<S = Record<string, any>> {
+    id: string;
+    workflow: string;
+    step: string;
+    state: S;
+    status: SlackWorkflowStatus;
+    createdAt: number;
+    updatedAt: number;
+
+    // The number of times the flow has been saved.  It's 0 until the flow is first saved.
+    version: number;
+
+    // When the current step times out (if it has a timeout)
+    expiresAt?: number;
+}
+
+/**
+ * Thrown by a store when a flow is saved (or deleted) based on an out of date copy, which means that something else
+ * (usually another instance sharing the store) has moved the flow along in the meantime.
+ */
+export class SlackWorkflowConflictError extends Error {
+    public constructor(public flowId: string) {
+        super(`Workflow ${flowId} was changed by someone else`);
+        this.name = "SlackWorkflowConflictError";
+        Object.setPrototypeOf(this, SlackWorkflowConflictError.prototype);
+    }
+}
+
+/**
+ * Implement this to keep flows somewhere other than in memory (so they survive restarts or can be shared between
+ * instances).  Writes are compare-and-set on the version: save must only write the instance if the stored copy's
+ * version (0 if there isn't one) is one less than the instance's and delete must only delete the flow if the stored
+ * copy has the given version.  Otherwise, throw a SlackWorkflowConflictError.
+ */
+export interface ISlackWorkflowStore {
+    get(id: string): Promise<ISlackWorkflowInstance<any>>;
+    save(instance: ISlackWorkflowInstance<any>): Promise<void>;
+    delete(id: string, version?: number): Promise<void>;
+
+    // Returns the active flows whose expiresAt is before the given time.
+    listExpired(now: number): Promise<ISlackWorkflowInstance<any>[]>;
+}
+
+export class MemoryWorkflowStore implements ISlackWorkflowStore {
+
+    protected instances: Map<string, ISlackWorkflowInstance<any>> = new Map();
+
+    public async get(id: string): Promise<ISlackWorkflowInstance<any>> {
+        const instance = this.instances.get(id);
+        return instance ? JSON.parse(JSON.stringify(instance)) : undefined;
+    }
+
+    public async save(instance: ISlackWorkflowInstance<any>): Promise<void> {
+        if (getVersion(this.instances.get(instance.id)) !== instance.version - 1) {
+            throw new SlackWorkflowConflictError(instance.id);
+        }
+        this.instances.set(instance.id, JSON.parse(JSON.stringify(instance)));
+    }
+
+    public async delete(id: string, version?: number): Promise<void> {
+        if (version !== undefined && getVersion(this.instances.get(id)) !== version) {
+            throw new SlackWorkflowConflictError(id);
+        }
+        this.instances.delete(id);
+    }
+
+    public async listExpired(now: number): Promise<ISlackWorkflowInstance<any>[]> {
+        const expired: ISlackWorkflowInstance<any>[] = [];
+        this.instances.forEach((instance) => {
+            if (instance.status === "active" && instance.expiresAt !== undefined && instance.expiresAt <= now) {
+                expired.push(instance);
+            }
+        });
+        return expired;
+    }
+}
+
+export type SlackWorkflowHandler<S> = (ctx: SlackWorkflowContext<S>) => Promise<ISlackAckResponse | void>;
+
+export interface ISlackWorkflowTransition<S> {
+    trigger: SlackWorkflowTrigger;
+
+    // The name given to ctx.actionId/ctx.callbackId (for actions and views) or the event type (for events).  If not
+    //  given, any interaction of this type matches.
+    name?: string;
+
+    // The step to move to.  If not given (and the handler doesn't call goto), the flow stays on the current step.
+    to?: string;
+
+    handler?: SlackWorkflowHandler<S>;
+}
+
+export interface ISlackWorkflowStep<S> {
+    on?: ISlackWorkflowTransition<S>[];
+
+    // The number of milliseconds the flow can stay on this step.  Overrides the workflow's timeout.
+    timeout?: number;
+}
+
+/**
+ * Describes a workflow.  A step without any transitions is final: the flow is completed (and removed from the
+ * store) once it gets there.
+ */
+export interface ISlackWorkflowDefinition<S = Record<string, any>> {
+    name: string;
+    initialStep: string;
+    steps: Record<string, ISlackWorkflowStep<S>>;
+
+    // The number of milliseconds a flow can stay on any step (unless the step has its own timeout).
+    timeout?: number;
+
+    // Creates the state of a new flow.  Defaults to an empty object.
+    initialState?: (payload: SlackPayload) => S;
+
+    // Called once a flow has been started (by a command or by calling start)
+    start?: SlackWorkflowHandler<S>;
+
+    // Events don't include anything we've sent so there's no ID in them.  This returns the ID of the flow that
+    //  an event belongs to (or undefined if it doesn't belong to one)
+    correlate?: (eventType: string, event: SlackPayload) => Promise<string> | string;
+
+    onTimeout?: SlackWorkflowHandler<S>;
+    onCancel?: SlackWorkflowHandler<S>;
+}
+
+// Flow IDs are embedded as "wf:<id>:<name>".
+export const WORKFLOW_ID_PREFIX = "wf:";
+export const WORKFLOW_ID_PATTERN = /^wf:/;
+
+const SWEEP_INTERVAL = 30 * 1000;
+
+/**
+ * Returns the ID that embeds the given flow ID and name.
+ * @param flowId The ID of the flow.
+ * @param name The name of the action, block or view.
+ */
+export function embedWorkflowId(flowId: string, name: string): string {
+    return `${WORKFLOW_ID_PREFIX}${flowId}:${name}`;
+}
+
+/**
+ * Splits an ID created by embedWorkflowId into the flow ID and the name.  Returns undefined if the ID doesn't
+ * belong to a flow.
+ * @param id An action_id, block_id or callback_id.
+ */
+export function parseWorkflowId(id: string): { flowId: string, name: string } {
+    if (!id || !id.startsWith(WORKFLOW_ID_PREFIX)) {
+        return undefined;
+    }
+    const rest = id.substring(WORKFLOW_ID_PREFIX.length);
+    const separator = rest.indexOf(":");
+    if (separator < 0) {
+        return { flowId: rest, name: undefined };
+    }
+    return { flowId: rest.substring(0, separator), name: rest.substring(separator + 1) };
+}
+
+/**
+ * What a workflow handler is given.  Use the ID helpers for anything that should come back to this flow and
+ * goto/complete/cancel to move it along (instead of or in addition to the transition's `to`).
+ */
+export class SlackWorkflowContext<S> {
+
+    public nextStep: string;
+    public nextStatus: SlackWorkflowStatus;
+
+    public constructor(public conn: SlackConnection, public flow: ISlackWorkflowInstance<S>,
+                       public trigger: SlackWorkflowTrigger, public payload: SlackPayload) {
+    }
+
+    public get state(): S {
+        return this.flow.state;
+    }
+
+    public set state(state: S) {
+        this.flow.state = state;
+    }
+
+    public actionId(name: string): string {
+        return embedWorkflowId(this.flow.id, name);
+    }
+
+    public blockId(name: string): string {
+        return embedWorkflowId(this.flow.id, name);
+    }
+
+    public callbackId(name: string): string {
+        return embedWorkflowId(this.flow.id, name);
+    }
+
+    /**
+     * Returns private_metadata that identifies this flow (along with anything else given)
+     * @param extra Other values to include.
+     */
+    public metadata(extra: Record<string, any> = {}): string {
+        return JSON.stringify({ ...extra, workflowId: this.flow.id });
+    }
+
+    public goto(step: string) {
+        this.nextStep = step;
+    }
+
+    public complete() {
+        this.nextStatus = "completed";
+    }
+
+    public cancel() {
+        this.nextStatus = "cancelled";
+    }
+}
+
+/**
+ * Runs workflows.  The connection creates one if workflows are given in its config and sends it every action and
+ * view with a flow ID.  Commands and events have to be wired up using workflowCommand and workflowEventListener.
+ */
+export class SlackWorkflowEngine {
+
+    protected definitions: Record<string, ISlackWorkflowDefinition<any>> = {};
+    protected timer: NodeJS.Timeout;
+
+    // The end of the chain of work queued for each flow (see serialize)
+    protected queues: Map<string, Promise<void>> = new Map();
+
+    public constructor(protected conn: SlackConnection, protected store: ISlackWorkflowStore = new MemoryWorkflowStore()) {
+    }
+
+    public register(definition: ISlackWorkflowDefinition<any>) {
+        if (!(definition.initialStep in definition.steps)) {
+            throw new Error(`The initial step of the ${definition.name} workflow (${definition.initialStep}) does not exist`);
+        }
+        for (const stepName of Object.keys(definition.steps)) {
+            for (const transition of definition.steps[stepName].on || []) {
+                if (transition.to && !(transition.to in definition.steps)) {
+                    throw new Error(`The ${definition.name} workflow has a transition from ${stepName} ` +
+                        `to ${transition.to} which does not exist`);
+                }
+            }
+        }
+        this.definitions[definition.name] = definition;
+    }
+
+    /**
+     * Starts checking for flows that have timed out.
+     */
+    public startTimer() {
+        if (!this.timer) {
+            this.timer = setInterval(() => this.expireFlows().catch((err) =>
+                logger("Unable to expire workflows: " + err.message)), SWEEP_INTERVAL);
+            this.timer.unref();
+        }
+    }
+
+    public stopTimer() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    /**
+     * Starts a new flow.
+     * @param name The name of the workflow.
+     * @param payload The command or interaction that started it (given to the start handler)
+     * @param state The initial state.  Defaults to the workflow's initialState.
+     */
+    public async start<S>(name: string, payload: SlackPayload = {}, state?: S): Promise<ISlackWorkflowInstance<S>> {
+        const definition = this.getDefinition(name);
+        const now = Date.now();
+        const flow: ISlackWorkflowInstance<S> = {
+            id: crypto.randomBytes(8).toString("hex"),
+            workflow: name,
+            step: definition.initialStep,
+            state: state !== undefined ? state : (definition.initialState ? definition.initialState(payload) : {} as S),
+            status: "active",
+            createdAt: now,
+            updatedAt: now,
+            version: 0
+        };
+
+        const ctx = new SlackWorkflowContext<S>(this.conn, flow, "command", payload);
+        await this.runHandler(definition, ctx, definition.start, undefined);
+        return flow;
+    }
+
+    public async handleEvent(eventType: string, payload: SlackPayload) {
+        for (const name of Object.keys(this.definitions)) {
+            const definition = this.definitions[name];
+            if (!definition.correlate) {
+                continue;
+            }
+            const flowId = await definition.correlate(eventType, payload);
+            if (flowId) {
+                await this.handle(flowId, "event", eventType, payload);
+            }
+        }
+    }
+
+    /**
+     * Handles an action or view interaction.  The flow ID is taken from the action_id, block_id, callback_id or
+     * private_metadata (in that order).  When it comes from the private_metadata, the action_id (for actions) or
+     * the callback_id (for views) is the name that transitions are matched against.
+     * @param trigger The type of interaction.
+     * @param payload The interaction payload.
+     */
+    public async handleInteraction(trigger: SlackWorkflowTrigger, payload: SlackPayload): Promise<ISlackAckResponse> {
+        const action = payload.actions && payload.actions.length > 0 ? payload.actions[0] : undefined;
+        const view = payload.view || {};
+
+        const parsed = (action && (parseWorkflowId(action.action_id) || parseWorkflowId(action.block_id))) ||
+            parseWorkflowId(view.callback_id);
+        if (parsed) {
+            return this.handle(parsed.flowId, trigger, parsed.name, payload);
+        }
+
+        const flowId = getMetadataWorkflowId(payload);
+        if (!flowId) {
+            return undefined;
+        }
+        return this.handle(flowId, trigger, action ? action.action_id : view.callback_id, payload);
+    }
+
+    /**
+     * Cancels a flow.  The workflow's onCancel handler is called first.
+     * @param flowId The ID of the flow.
+     */
+    public cancel(flowId: string): Promise<boolean> {
+        return this.serialize(flowId, async () => {
+            const flow = await this.store.get(flowId);
+            if (!flow || flow.status !== "active") {
+                return false;
+            }
+            const definition = this.getDefinition(flow.workflow);
+            const ctx = new SlackWorkflowContext(this.conn, flow, "command", {});
+            ctx.cancel();
+            await this.runHandler(definition, ctx, definition.onCancel, undefined);
+            return true;
+        });
+    }
+
+    public getFlow<S>(flowId: string): Promise<ISlackWorkflowInstance<S>> {
+        return this.store.get(flowId);
+    }
+
+    /**
+     * Times out every flow that has been on its step for too long.
+     */
+    public async expireFlows() {
+        for (const expired of await this.store.listExpired(Date.now())) {
+            await this.serialize(expired.id, async () => {
+                // it may have been moved along while waiting its turn.
+                const flow = await this.store.get(expired.id);
+                if (flow && flow.status === "active" && flow.expiresAt !== undefined && flow.expiresAt <= Date.now()) {
+                    await this.expire(flow);
+                }
+            });
+        }
+    }
+
+    /**
+     * Runs the given work once everything queued before it for the same flow has finished so that two interactions
+     * with one flow (a double-click, or two approvers clicking at once) never load the same step.
+     * @param flowId The ID of the flow.
+     * @param work What to do.
+     */
+    protected serialize<T>(flowId: string, work: () => Promise<T>): Promise<T> {
+        const previous = this.queues.get(flowId) || Promise.resolve();
+        const result = previous.then(work);
+        const tail = result.then(() => undefined, () => undefined);
+        this.queues.set(flowId, tail);
+        tail.then(() => {
+            if (this.queues.get(flowId) === tail) {
+                this.queues.delete(flowId);
+            }
+        });
+        return result;
+    }
+
+    protected handle(flowId: string, trigger: SlackWorkflowTrigger, name: string,
+                     payload: SlackPayload): Promise<ISlackAckResponse> {
+        return this.serialize(flowId, () => this.transition(flowId, trigger, name, payload));
+    }
+
+    /**
+     * Runs the transition that matches the interaction or event (if any) from the flow's current step.
+     */
+    protected async transition(flowId: string, trigger: SlackWorkflowTrigger, name: string,
+                               payload: SlackPayload): Promise<ISlackAckResponse> {
+        const flow = await this.store.get(flowId);
+        if (!flow || flow.status !== "active") {
+            logger(`Received a ${trigger} for workflow ${flowId} which is no longer active`);
+            return trigger === "action" ? {
+                text: "Sorry, this has expired or has already been completed.",
+                response_type: "ephemeral",
+                replace_original: false
+            } : undefined;
+        }
+
+        if (flow.expiresAt !== undefined && flow.expiresAt <= Date.now()) {
+            await this.expire(flow);
+            return undefined;
+        }
+
+        const definition = this.getDefinition(flow.workflow);
+        const step = definition.steps[flow.step];
+        const transition = (step.on || []).find((t) => t.trigger === trigger && (!t.name || t.name === name));
+        if (!transition) {
+            logger(`Workflow ${flow.workflow} has no ${trigger} ${name || ""} transition from ${flow.step}`);
+            return undefined;
+        }
+
+        const ctx = new SlackWorkflowContext(this.conn, flow, trigger, payload);
+        return this.runHandler(definition, ctx, transition.handler, transition.to);
+    }
+
+    /**
+     * Runs a handler and then saves the flow in its new step (or removes it if it's finished)
+     */
+    protected async runHandler<S>(definition: ISlackWorkflowDefinition<S>, ctx: SlackWorkflowContext<S>,
+                                  handler: SlackWorkflowHandler<S>, to: string): Promise<ISlackAckResponse> {
+        const ack = handler ? await handler(ctx) : undefined;
+        const flow = ctx.flow;
+        const now = Date.now();
+
+        const nextStep = ctx.nextStep || to;
+        if (nextStep) {
+            if (!(nextStep in definition.steps)) {
+                throw new Error(`The ${definition.name} workflow does not have a step called ${nextStep}`);
+            }
+            if (nextStep !== flow.step) {
+                flow.step = nextStep;
+                flow.expiresAt = undefined;
+            }
+        }
+
+        const step = definition.steps[flow.step];
+        if (ctx.nextStatus) {
+            flow.status = ctx.nextStatus;
+        } else if (!step.on || step.on.length === 0) {
+            flow.status = "completed";
+        }
+
+        const timeout = step.timeout || definition.timeout;
+        if (timeout && flow.expiresAt === undefined) {
+            flow.expiresAt = now + timeout;
+        }
+        flow.updatedAt = now;
+
+        if (flow.status === "active") {
+            flow.version = getVersion(flow) + 1;
+            await this.store.save(flow);
+        } else if (getVersion(flow) > 0) {
+            await this.store.delete(flow.id, getVersion(flow));
+        }
+        return ack || undefined;
+    }
+
+    protected async expire(flow: ISlackWorkflowInstance<any>) {
+        const definition = this.definitions[flow.workflow];
+        flow.status = "expired";
+        try {
+            if (definition && definition.onTimeout) {
+                await definition.onTimeout(new SlackWorkflowContext(this.conn, flow, "event", {}));
+            }
+        } finally {
+            await this.store.delete(flow.id, getVersion(flow));
+        }
+    }
+
+    protected getDefinition(name: string): ISlackWorkflowDefinition<any> {
+        const definition = this.definitions[name];
+        if (!definition) {
+            throw new Error(`There is no workflow called ${name}`);
+        }
+        return definition;
+    }
+}
+
+/**
+ * Returns a sub-command handler that starts the given workflow.
+ *
+ *   commands: [{ command: "approval", subCommandListeners: { request: workflowCommand("approval") } }]
+ *
+ * @param name The name of the workflow.
+ */
+export function workflowCommand(name: string): SlackSubCommandFunction {
+    return async (conn, _text, slackParams) => {
+        await getEngine(conn).start(name, slackParams);
+        return {};
+    };
+}
+
+/**
+ * Returns an event listener that passes the event to every workflow that can correlate it to a flow.
+ *
+ *   eventListeners: { reaction_added: workflowEventListener("reaction_added") }
+ *
+ * @param eventType The type of event.
+ */
+export function workflowEventListener(eventType: string): SlackEventFunction {
+    return async (conn, payload) => {
+        await getEngine(conn).handleEvent(eventType, payload);
+        return {};
+    };
+}
+
+/**
+ * Returns the ID of the flow given in a view's private_metadata (see SlackWorkflowContext.metadata) or undefined if
+ * there isn't one.
+ * @param payload A view or an interaction payload.
+ */
+export function getMetadataWorkflowId(payload: SlackPayload): string {
+    const metadata = decodePrivateMetadata(payload);
+    return metadata && typeof metadata === "object" && typeof metadata.workflowId === "string" ?
+        metadata.workflowId : undefined;
+}
+
+/**
+ * Returns the version of a flow (flows saved before there were versions count as version 0)
+ */
+function getVersion(flow: ISlackWorkflowInstance<any>): number {
+    return flow && flow.version ? flow.version : 0;
+}
+
+function getEngine(conn: SlackConnection): SlackWorkflowEngine {
+    if (!conn.workflows) {
+        throw new Error("Workflows have not been configured for this connection");
+    }
+    return conn.workflows;
+}
@@ -0,0 +1,97 @@
+import * as assert from "assert";
+import { buildCommandRequest, buildInteractionRequest, createTestHarness, ITestHarness } from "../src/testing";
+import { ISlackAccessDeniedRecord, SlackInteractionType } from "../src";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("access control", () => {
+    let harness: ITestHarness;
+    let denials: ISlackAccessDeniedRecord[];
+
+    beforeEach(async () => {
+        denials = [];
+        harness = await createTestHarness({
+            accessControl: {
+                cacheTtl: 100,
+                onDenied: (record) => denials.push(record)
+            },
+            commands: [{
+                command: "ops",
+                permissions: { allowUserGroups: ["S1"], denyUsers: ["U3"] },
+                subCommandListeners: {
+                    status: async () => ({ body: { text: "all good" } }),
+                    deploy: {
+                        permissions: { requireAdmin: true, deniedMessage: "Admins only" },
+                        handler: async () => ({ body: { text: "deploying" } })
+                    }
+                }
+            }],
+            interactionListeners: [{
+                type: SlackInteractionType.viewSubmission,
+                matchingConstraints: { callbackId: "rollback" },
+                permissions: { allowUsers: ["U9"] },
+                handler: async () => ({})
+            }]
+        });
+        harness.bot
+            .respondTo("usergroups.users.list", { ok: true, users: ["U1", "U2", "U3"] })
+            .respondTo("users.info", (args) => ({ ok: true, user: { id: args.user, is_admin: args.user === "U1" } }));
+    });
+
+    afterEach(() => harness.close());
+
+    const run = (text: string, user: string) => harness.send(buildCommandRequest(harness.signingSecret,
+        { command: "ops", text, user_id: user, channel_id: "C1" }));
+
+    it("lets the members of an allowed user group in", async () => {
+        assert.strictEqual((await run("status", "U2")).body.text, "all good");
+        assert.strictEqual(harness.bot.callsTo("usergroups.users.list")[0].args.usergroup, "S1");
+    });
+
+    it("turns away users who are denied even if they're in an allowed group", async () => {
+        const response = await run("status", "U3");
+        assert.strictEqual(response.body.response_type, "ephemeral");
+        assert.ok(/permission/.test(response.body.text), response.body.text);
+        assert.strictEqual(denials[0].userId, "U3");
+        assert.strictEqual(denials[0].reason, "user is denied");
+    });
+
+    it("turns away users who aren't in any allowed group", async () => {
+        await run("status", "U4");
+        assert.strictEqual(denials[0].reason, "user is not in the allowed users or user groups");
+        assert.strictEqual(denials[0].name, "/ops status");
+        assert.strictEqual(denials[0].channelId, "C1");
+    });
+
+    it("checks the sub-command's permissions after the command's", async () => {
+        assert.strictEqual((await run("deploy", "U1")).body.text, "deploying");
+
+        const response = await run("deploy", "U2");
+        assert.strictEqual(response.body.text, "Admins only");
+        assert.strictEqual(denials[0].reason, "user is not a workspace admin or owner");
+    });
+
+    it("caches the members of a user group until they expire or the cache is cleared", async () => {
+        await run("status", "U1");
+        await run("status", "U2");
+        assert.strictEqual(harness.bot.callsTo("usergroups.users.list").length, 1);
+
+        await sleep(150);
+        await run("status", "U1");
+        assert.strictEqual(harness.bot.callsTo("usergroups.users.list").length, 2);
+
+        harness.connection.accessControl.clearCache();
+        await run("status", "U1");
+        assert.strictEqual(harness.bot.callsTo("usergroups.users.list").length, 3);
+    });
+
+    it("answers a denied view submission with a modal", async () => {
+        const response = await harness.send(buildInteractionRequest(harness.signingSecret, {
+            type: "view_submission",
+            view: { id: "V1", callback_id: "rollback", state: { values: {} } }
+        }));
+        assert.strictEqual(response.body.response_action, "push");
+        assert.strictEqual(response.body.view.title.text, "Not allowed");
+        assert.strictEqual(denials[0].type, "interaction");
+    });
+});
@@ -0,0 +1,88 @@
+import * as assert from "assert";
+import { buildInteractionRequest, createTestHarness, ITestHarness } from "../src/testing";
+import { SlackInteractionType } from "../src";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const ANN = { text: { type: "plain_text", text: "Ann" }, value: "U1" };
+
+describe("acknowledgements", () => {
+    let harness: ITestHarness;
+    let delayMs: number;
+    let fail: boolean;
+
+    beforeEach(async () => {
+        delayMs = 0;
+        fail = false;
+        const answer = async <T>(ack: T): Promise<T> => {
+            await sleep(delayMs);
+            if (fail) {
+                throw new Error("handler failed");
+            }
+            return ack;
+        };
+
+        harness = await createTestHarness({
+            interactionAckTimeout: 100,
+            interactionListeners: [{
+                type: SlackInteractionType.viewSubmission,
+                matchingConstraints: { callbackId: "ticket" },
+                handler: () => answer({ response_action: "errors", errors: { summary: "Too short" } })
+            }, {
+                type: SlackInteractionType.option,
+                matchingConstraints: { actionId: "assignee" },
+                handler: () => answer({ body: { options: [ANN] } })
+            }]
+        });
+    });
+
+    afterEach(() => harness.close());
+
+    const submit = () => harness.send(buildInteractionRequest(harness.signingSecret, {
+        type: "view_submission",
+        view: { id: "V1", callback_id: "ticket", state: { values: {} } }
+    }));
+
+    const suggest = () => harness.send(buildInteractionRequest(harness.signingSecret, {
+        type: "block_suggestion",
+        action_id: "assignee",
+        block_id: "b1",
+        value: "a"
+    }));
+
+    it("sends a view submission's ack back to Slack", async () => {
+        const response = await submit();
+        assert.strictEqual(response.status, 200);
+        assert.deepStrictEqual(response.body, { response_action: "errors", errors: { summary: "Too short" } });
+    });
+
+    it("sends the options a handler returns", async () => {
+        const response = await suggest();
+        assert.deepStrictEqual(response.body, { options: [ANN] });
+    });
+
+    it("closes the view when the handler misses the deadline", async () => {
+        delayMs = 300;
+        const started = Date.now();
+        const response = await submit();
+        assert.ok(Date.now() - started < 250, "the ack should be sent once the deadline has passed");
+        assert.strictEqual(response.status, 200);
+        assert.ok(!response.body || Object.keys(response.body).length === 0, JSON.stringify(response.body));
+    });
+
+    it("sends an empty list of options when the handler misses the deadline or fails", async () => {
+        delayMs = 300;
+        assert.deepStrictEqual((await suggest()).body, { options: [] });
+
+        delayMs = 0;
+        fail = true;
+        assert.deepStrictEqual((await suggest()).body, { options: [] });
+    });
+
+    it("closes the view when the handler fails", async () => {
+        fail = true;
+        const response = await submit();
+        assert.strictEqual(response.status, 200);
+        assert.ok(!response.body || Object.keys(response.body).length === 0, JSON.stringify(response.body));
+    });
+});
@@ -0,0 +1,286 @@
+import * as assert from "assert";
+import {
+    BlockKitValidationError,
+    button,
+    checkboxes,
+    confirmDialog,
+    datePicker,
+    escapeMrkdwn,
+    HomeBuilder,
+    MessageBuilder,
+    ModalBuilder,
+    option,
+    optionGroup,
+    overflow,
+    radioButtons,
+    staticSelect,
+    textInput,
+    usersSelect,
+    validateBlocks
+} from "../src";
+import { createTestHarness } from "../src/testing";
+
+const options = (count: number) => Array.from({ length: count }, (_v, i) => option(`Option ${i}`, `value-${i}`));
+
+function problemsOf(build: () => any): string[] {
+    try {
+        build();
+    } catch (e) {
+        assert.ok(e instanceof BlockKitValidationError);
+        return e.problems;
+    }
+    assert.fail("expected the payload to be rejected");
+}
+
+describe("blockKit", () => {
+    describe("builders", () => {
+        it("builds a message", () => {
+            const message = new MessageBuilder("A new ticket was created")
+                .header("New ticket")
+                .section("*Broken build*", { accessory: button("view", "View", { url: "https://example.com" }) })
+                .fields(["*Priority*", "High"], "details")
+                .divider()
+                .image("https://example.com/a.png", "graph", { title: "Graph" })
+                .context(["Reported by <@U1>"])
+                .actions([button("claim", "Claim", { value: "T-1", style: "primary" })])
+                .inThread("1.000")
+                .build();
+
+            assert.deepStrictEqual(message, {
+                text: "A new ticket was created",
+                thread_ts: "1.000",
+                blocks: [
+                    { type: "header", text: { type: "plain_text", text: "New ticket", emoji: true } },
+                    {
+                        type: "section",
+                        text: { type: "mrkdwn", text: "*Broken build*" },
+                        accessory: {
+                            type: "button",
+                            action_id: "view",
+                            text: { type: "plain_text", text: "View", emoji: true },
+                            url: "https://example.com"
+                        }
+                    },
+                    {
+                        type: "section",
+                        block_id: "details",
+                        fields: [{ type: "mrkdwn", text: "*Priority*" }, { type: "mrkdwn", text: "High" }]
+                    },
+                    { type: "divider" },
+                    {
+                        type: "image",
+                        image_url: "https://example.com/a.png",
+                        alt_text: "graph",
+                        title: { type: "plain_text", text: "Graph", emoji: true }
+                    },
+                    { type: "context", elements: [{ type: "mrkdwn", text: "Reported by <@U1>" }] },
+                    {
+                        type: "actions",
+                        elements: [{
+                            type: "button",
+                            action_id: "claim",
+                            text: { type: "plain_text", text: "Claim", emoji: true },
+                            value: "T-1",
+                            style: "primary"
+                        }]
+                    }
+                ]
+            });
+        });
+
+        it("builds a modal", () => {
+            const modal = new ModalBuilder("New ticket")
+                .callbackId("ticket")
+                .privateMetadata({ channel: "C1" })
+                .submit("Create")
+                .close("Cancel")
+                .notifyOnClose()
+                .input("Summary", textInput("summary", { placeholder: "What's wrong?", maxLength: 100 }),
+                    { blockId: "summary_block", hint: "Keep it short" })
+                .input("Due", datePicker("due", "2020-01-01"), { optional: true })
+                .build();
+
+            assert.deepStrictEqual(modal, {
+                type: "modal",
+                title: { type: "plain_text", text: "New ticket", emoji: true },
+                callback_id: "ticket",
+                private_metadata: "{\"channel\":\"C1\"}",
+                submit: { type: "plain_text", text: "Create", emoji: true },
+                close: { type: "plain_text", text: "Cancel", emoji: true },
+                notify_on_close: true,
+                blocks: [
+                    {
+                        type: "input",
+                        block_id: "summary_block",
+                        label: { type: "plain_text", text: "Summary", emoji: true },
+                        hint: { type: "plain_text", text: "Keep it short", emoji: true },
+                        element: {
+                            type: "plain_text_input",
+                            action_id: "summary",
+                            placeholder: { type: "plain_text", text: "What's wrong?", emoji: true },
+                            max_length: 100
+                        }
+                    },
+                    {
+                        type: "input",
+                        label: { type: "plain_text", text: "Due", emoji: true },
+                        optional: true,
+                        element: { type: "datepicker", action_id: "due", initial_date: "2020-01-01" }
+                    }
+                ]
+            });
+        });
+
+        it("builds an App Home view", () => {
+            const home = new HomeBuilder().externalId("home-U1").section("Welcome").build();
+            assert.deepStrictEqual(home, {
+                type: "home",
+                external_id: "home-U1",
+                blocks: [{ type: "section", text: { type: "mrkdwn", text: "Welcome" } }]
+            });
+        });
+
+        it("builds the elements", () => {
+            const urgent = optionGroup("Urgent", [option("P1", "p1")]);
+            assert.deepStrictEqual(staticSelect("priority", "Pick one", [urgent]), {
+                type: "static_select",
+                action_id: "priority",
+                placeholder: { type: "plain_text", text: "Pick one", emoji: true },
+                option_groups: [{
+                    label: { type: "plain_text", text: "Urgent", emoji: true },
+                    options: [{ text: { type: "plain_text", text: "P1", emoji: true }, value: "p1" }]
+                }]
+            });
+            assert.deepStrictEqual(usersSelect("owner", "Owner", "U1"), {
+                type: "users_select",
+                action_id: "owner",
+                placeholder: { type: "plain_text", text: "Owner", emoji: true },
+                initial_user: "U1"
+            });
+            assert.deepStrictEqual(radioButtons("size", options(1), options(1)[0]), {
+                type: "radio_buttons",
+                action_id: "size",
+                options: options(1),
+                initial_option: options(1)[0]
+            });
+            assert.deepStrictEqual(checkboxes("notify", options(2), []), {
+                type: "checkboxes",
+                action_id: "notify",
+                options: options(2)
+            });
+            assert.deepStrictEqual(confirmDialog("Sure?", "It can't be undone", "Delete", "Keep", "danger"), {
+                title: { type: "plain_text", text: "Sure?", emoji: true },
+                text: { type: "mrkdwn", text: "It can't be undone" },
+                confirm: { type: "plain_text", text: "Delete", emoji: true },
+                deny: { type: "plain_text", text: "Keep", emoji: true },
+                style: "danger"
+            });
+            assert.strictEqual(escapeMrkdwn("<b> & <@U1>"), "&lt;b&gt; &amp; &lt;@U1&gt;");
+        });
+    });
+
+    describe("limits", () => {
+        it("limits the number of blocks", () => {
+            const message = new MessageBuilder("many");
+            const modal = new ModalBuilder("many");
+            for (let i = 0; i < 51; i++) {
+                message.divider();
+                modal.divider();
+            }
+            assert.deepStrictEqual(problemsOf(() => message.build()), ["there are 51 blocks (the maximum is 50)"]);
+            assert.doesNotThrow(() => modal.build());
+        });
+
+        it("limits the length of text", () => {
+            const problems = problemsOf(() => new ModalBuilder("A title that is far too long to fit")
+                .header("h".repeat(151))
+                .section("s".repeat(3001))
+                .actions([button("go", "b".repeat(76))])
+                .build());
+            assert.deepStrictEqual(problems, [
+                "block 1 (header) text is 151 characters long (the maximum is 150)",
+                "block 2 (section) text is 3001 characters long (the maximum is 3000)",
+                "block 3 (actions) element 1 text is 76 characters long (the maximum is 75)",
+                "modal title is 35 characters long (the maximum is 24)"
+            ]);
+        });
+
+        it("rejects an action_id used more than once", () => {
+            const problems = problemsOf(() => new MessageBuilder()
+                .section("Pick", { accessory: button("pick", "Pick") })
+                .actions([button("pick", "Pick again")])
+                .build());
+            assert.deepStrictEqual(problems,
+                ["block 2 (actions) element 1 uses the action_id \"pick\" more than once"]);
+        });
+
+        it("limits the number of options of each element", () => {
+            const blocks = new ModalBuilder("Options")
+                .submit("Save")
+                .input("Select", staticSelect("select", "Pick", options(101)))
+                .input("Radio", radioButtons("radio", options(11)))
+                .input("Checkboxes", checkboxes("checks", options(11)))
+                .actions([overflow("more", options(6))]);
+            assert.deepStrictEqual(problemsOf(() => blocks.build()), [
+                "block 1 (input) element has 101 options (the maximum is 100)",
+                "block 2 (input) element has 11 options (the maximum is 10)",
+                "block 3 (input) element has 11 options (the maximum is 10)",
+                "block 4 (actions) element 1 has 6 options (the maximum is 5)"
+            ]);
+
+            assert.deepStrictEqual(validateBlocks([{
+                type: "input",
+                label: { type: "plain_text", text: "Radio" },
+                element: radioButtons("radio", options(10))
+            }]), []);
+        });
+
+        it("allows option values of up to 150 characters", () => {
+            const element = staticSelect("select", "Pick",
+                [option("Long", "v".repeat(150)), option("Too long", "v".repeat(151))]);
+            assert.deepStrictEqual(validateBlocks([{ type: "actions", elements: [element] }]),
+                ["block 1 (actions) element 1 option 2 value is 151 characters long (the maximum is 150)"]);
+        });
+    });
+
+    describe("extractTextFromPayload", () => {
+        it("finds the readable text in blocks", async () => {
+            const harness = await createTestHarness();
+            try {
+                const text = harness.connection.extractTextFromPayload({
+                    text: "fallback",
+                    blocks: [
+                        { type: "header", text: { type: "plain_text", text: "Deploy" } },
+                        {
+                            type: "section",
+                            text: { type: "mrkdwn", text: "fallback" },
+                            fields: [{ type: "mrkdwn", text: "api" }]
+                        },
+                        {
+                            type: "context",
+                            elements: [
+                                { type: "image", image_url: "x", alt_text: "icon" },
+                                { type: "mrkdwn", text: "by bot" }
+                            ]
+                        },
+                        { type: "actions", elements: [button("go", "Go")] },
+                        {
+                            type: "rich_text",
+                            elements: [{
+                                type: "rich_text_section",
+                                elements: [
+                                    { type: "text", text: "ping " },
+                                    { type: "user", user_id: "U1" },
+                                    { type: "emoji", name: "wave" }
+                                ]
+                            }]
+                        }
+                    ]
+                });
+                assert.deepStrictEqual(text, ["fallback", "Deploy", "api", "by bot", "ping <@U1>:wave:"]);
+            } finally {
+                await harness.close();
+            }
+        });
+    });
+});
@@ -0,0 +1,61 @@
+import * as assert from "assert";
+import { parseArguments, SlackArgumentError, tokenize } from "../src/commandParser";
+
+describe("commandParser", () => {
+
+    describe("tokenize", () => {
+        it("splits on whitespace and keeps quoted text together", () => {
+            assert.deepStrictEqual(tokenize(`assign "Jane Doe" 'a b'  c`).map((t) => t.value),
+                ["assign", "Jane Doe", "a b", "c"]);
+        });
+    });
+
+    describe("parseArguments", () => {
+        const schema = {
+            args: [
+                { name: "ticket", type: "number" as const, required: true },
+                { name: "rest", rest: true }
+            ],
+            options: [
+                { name: "priority", type: "string" as const, choices: ["low", "high"], alias: "p" },
+                { name: "notify" }
+            ]
+        };
+
+        it("assigns positional arguments, options and aliases", () => {
+            const parsed = parseArguments(`42 first second --notify -p high`, schema);
+            assert.strictEqual(parsed.args.ticket, 42);
+            assert.deepStrictEqual(parsed.args.rest, ["first", "second"]);
+            assert.strictEqual(parsed.options.priority, "high");
+            assert.strictEqual(parsed.options.notify, true);
+        });
+
+        it("accepts --name=value", () => {
+            assert.strictEqual(parseArguments("7 --priority=low", schema).options.priority, "low");
+        });
+
+        it("rejects missing required arguments", () => {
+            assert.throws(() => parseArguments("", schema), SlackArgumentError);
+        });
+
+        it("rejects values of the wrong type", () => {
+            assert.throws(() => parseArguments("abc", schema), SlackArgumentError);
+        });
+
+        it("rejects values that aren't one of the choices", () => {
+            assert.throws(() => parseArguments("1 --priority urgent", schema), SlackArgumentError);
+        });
+
+        it("rejects unknown options", () => {
+            assert.throws(() => parseArguments("1 --bogus", schema), SlackArgumentError);
+        });
+
+        it("parses the escaped user and channel tokens", () => {
+            const parsed = parseArguments("<@U123|bob> <#C456|general>", {
+                args: [{ name: "who", type: "user" }, { name: "where", type: "channel" }]
+            });
+            assert.deepStrictEqual(parsed.args.who, { id: "U123", name: "bob" });
+            assert.deepStrictEqual(parsed.args.where, { id: "C456", name: "general" });
+        });
+    });
+});
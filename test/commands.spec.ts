@@ -0,0 +1,168 @@
+import * as assert from "assert";
+import { buildCommandRequest, createTestHarness, ITestHarness, signRequest } from "../src/testing";
+
+describe("commands", () => {
+    let harness: ITestHarness;
+    const received: any[] = [];
+
+    beforeEach(async () => {
+        received.length = 0;
+        harness = await createTestHarness({
+            commands: [{
+                command: "ticket",
+                subCommandListeners: {
+                    create: {
+                        schema: { args: [{ name: "title", required: true }], options: [{ name: "urgent" }] },
+                        handler: async (_conn, _text, _params, args) => {
+                            received.push(args);
+                            return { body: { text: `created ${args.args.title}` } };
+                        }
+                    },
+                    admin: {
+                        subCommands: {
+                            reassign: async (_conn, text) => ({ body: { text: `reassigned ${text}` } })
+                        }
+                    },
+                    later: {
+                        deferred: true,
+                        placeholder: "working",
+                        handler: async () => ({ body: { text: "done" } })
+                    },
+                    broken: {
+                        deferred: true,
+                        handler: async () => {
+                            throw new Error("the tracker is down");
+                        }
+                    }
+                }
+            }]
+        });
+    });
+
+    afterEach(() => harness.close());
+
+    const send = (text: string, params: Record<string, string> = {}) =>
+        harness.send(buildCommandRequest(harness.signingSecret, { command: "ticket", text, ...params }));
+
+    it("routes to the sub-command and parses its arguments", async () => {
+        const res = await send(`create "Broken build" --urgent`);
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.body.text, "created Broken build");
+        assert.strictEqual(received[0].options.urgent, true);
+    });
+
+    it("routes nested sub-commands", async () => {
+        const res = await send("admin reassign 42");
+        assert.strictEqual(res.body.text, "reassigned 42");
+    });
+
+    it("shows the usage when the arguments don't match the schema", async () => {
+        const res = await send("create");
+        assert.strictEqual(res.status, 200);
+        assert.ok(received.length === 0);
+        assert.ok(/title/.test(JSON.stringify(res.body)));
+    });
+
+    it("answers help with the list of sub-commands", async () => {
+        const res = await send("help");
+        const text = JSON.stringify(res.body);
+        for (const name of ["create", "admin", "later"]) {
+            assert.ok(text.includes(name), `help should mention ${name}`);
+        }
+    });
+
+    it("acknowledges deferred sub-commands and posts the result to the response_url", async () => {
+        const res = await send("later", { response_url: harness.capture.url("/response") });
+        assert.strictEqual(res.status, 200);
+        assert.ok(/working/.test(JSON.stringify(res.body)));
+
+        const [post] = await harness.capture.waitForPosts(1);
+        assert.strictEqual(post.path, "/response");
+        assert.strictEqual(post.body.text, "done");
+    });
+
+    it("posts the error to the response_url when a deferred sub-command fails", async () => {
+        const res = await send("broken", { response_url: harness.capture.url("/response") });
+        assert.strictEqual(res.status, 200);
+
+        const [post] = await harness.capture.waitForPosts(1);
+        assert.strictEqual(post.body.response_type, "ephemeral");
+        assert.strictEqual(post.body.text, ":x: *The `broken` command failed*: the tracker is down");
+    });
+
+    describe("response_url", () => {
+        const request = () => ({ response_url: harness.capture.url("/response") });
+
+        it("counts the posts that are left and refuses the sixth", async () => {
+            await send("later", request());
+            await harness.capture.waitForPosts(1);
+            assert.strictEqual(harness.connection.getResponseUrlPostsRemaining(request()), 4);
+
+            for (let i = 0; i < 4; i++) {
+                assert.ok((await harness.connection.sendMessageResponse(request(), { text: `update ${i}` })).success);
+            }
+            assert.strictEqual(harness.connection.getResponseUrlPostsRemaining(request()), 0);
+
+            const refused = await harness.connection.sendMessageResponse(request(), { text: "one too many" });
+            assert.ok(!refused.success);
+            assert.ok(/already been used 5 times/.test(refused.message), refused.message);
+            assert.strictEqual(harness.capture.posts.length, 5);
+        });
+
+        it("refuses posts once the URL is more than 30 minutes old", async () => {
+            const now = Date.now;
+            try {
+                await send("help", request());
+                Date.now = () => now() + 31 * 60 * 1000;
+                assert.strictEqual(harness.connection.getResponseUrlPostsRemaining(request()), 0);
+
+                const refused = await harness.connection.sendMessageResponse(request(), { text: "too late" });
+                assert.ok(!refused.success);
+                assert.ok(/more than 30 minutes old/.test(refused.message), refused.message);
+            } finally {
+                Date.now = now;
+            }
+            assert.strictEqual(harness.capture.posts.length, 0);
+        });
+    });
+
+    describe("signature verification", () => {
+        it("rejects requests signed with the wrong secret", async () => {
+            const res = await harness.send(buildCommandRequest("not-the-secret", { command: "ticket", text: "help" }));
+            assert.strictEqual(res.status, 401);
+        });
+
+        it("rejects requests whose body was changed after signing", async () => {
+            const request = buildCommandRequest(harness.signingSecret, { command: "ticket", text: "help" });
+            const res = await harness.send({ ...request, body: request.body.replace("help", "create+x") });
+            assert.strictEqual(res.status, 401);
+        });
+
+        it("rejects requests outside of the replay window", async () => {
+            const stale = Math.floor(Date.now() / 1000) - 60 * 10;
+            const res = await harness.send(buildCommandRequest(harness.signingSecret,
+                { command: "ticket", text: "help" }, stale));
+            assert.notStrictEqual(res.status, 200);
+            assert.strictEqual(received.length, 0);
+        });
+
+        it("rejects requests without a signature", async () => {
+            const request = buildCommandRequest(harness.signingSecret, { command: "ticket", text: "help" });
+            const headers = { ...request.headers };
+            delete headers["x-slack-signature"];
+            const res = await harness.send({ ...request, headers });
+            assert.strictEqual(res.status, 401);
+        });
+
+        it("signs the same way Slack does", () => {
+            // the example from https://api.slack.com/authentication/verifying-requests-from-slack
+            const body = "token=xyzz0WbapA4vBCDEFasx0q6G&team_id=T1DC2JH3J&team_domain=testteamnow&channel_id=G8PSS9T3V" +
+                "&channel_name=foobar&user_id=U2CERLKJA&user_name=roadrunner&command=%2Fwebhook-collect&text=" +
+                "&response_url=https%3A%2F%2Fhooks.slack.com%2Fcommands%2FT1DC2JH3J%2F397700885554%2F96rGlfmibIGlgcZRs" +
+                "kXaIFfN&trigger_id=398738663015.47445629121.803a0bc887a14d10d2c447fce8b6703c";
+            const headers = signRequest("8f742231b10e8888abcd99yyyzzz85a5", body, 1531420618);
+            assert.strictEqual(headers["x-slack-signature"],
+                "v0=a2114d57b48eac39b9ad189dd8316235a7b4a8d21a10bd27519666489c69b503");
+        });
+    });
+});
@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import { buildCommandRequest, createTestHarness, ITestHarness } from "../src/testing";
+import { SlackRequestScheduler } from "../src";
+
+describe("connection", () => {
+    let harness: ITestHarness;
+    let runs: number;
+
+    beforeEach(async () => {
+        runs = 0;
+        harness = await createTestHarness({
+            commands: [{
+                command: "ticket",
+                subCommandListeners: {
+                    list: async () => {
+                        runs++;
+                        return { body: { text: "no tickets" } };
+                    }
+                }
+            }]
+        });
+    });
+
+    afterEach(() => harness.close());
+
+    const list = () => harness.send(buildCommandRequest(harness.signingSecret, { command: "ticket", text: "list" }));
+
+    it("passes requests on to the rest of the app once it has disconnected", async () => {
+        harness.app.use((_req, response) => response.status(404).send("not here"));
+        await harness.connection.shutdown();
+
+        const res = await list();
+        assert.strictEqual(res.status, 404);
+        assert.strictEqual(runs, 0);
+        assert.strictEqual(harness.connection.livingMessages, undefined);
+        assert.strictEqual(harness.connection.metadata, undefined);
+    });
+
+    it("takes requests again after connecting again", async () => {
+        await harness.connection.shutdown();
+        harness.connection.connect();
+        harness.connection.connect();
+
+        const res = await list();
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(res.body.text, "no tickets");
+        assert.strictEqual(runs, 1);
+        assert.ok(harness.connection.livingMessages);
+    });
+});
+
+describe("SlackRequestScheduler", () => {
+    it("rejects the calls that are still queued when it's stopped", async () => {
+        const scheduler = new SlackRequestScheduler({ methodTiers: { "test.method": 1 } });
+        const call = async () => "done";
+
+        // tier 1 allows one call a minute so the second one has to wait.
+        assert.strictEqual(await scheduler.schedule("T1", "test.method", {}, call), "done");
+        const queued = scheduler.schedule("T1", "test.method", {}, call);
+        scheduler.stop();
+        await assert.rejects(queued, /stopped/);
+        assert.strictEqual(scheduler.getMetrics().queued, 0);
+    });
+});
@@ -0,0 +1,138 @@
+import * as assert from "assert";
+import { CaptureServer } from "../src/testing";
+import { classifyDeliveryError, classifyWebApiError, SlackDeliveryQueue } from "../src";
+
+describe("delivery", () => {
+    describe("classifyDeliveryError", () => {
+        const httpError = (status: number, data: any, headers: Record<string, string> = {}) =>
+            classifyDeliveryError({ message: `Request failed with status code ${status}`,
+                response: { status, data, headers } } as any);
+
+        it("retries network errors, timeouts, rate limiting and server errors", () => {
+            const reset = classifyDeliveryError({ code: "ECONNRESET", message: "socket hang up" } as any);
+            assert.strictEqual(reset.permanent, false);
+            assert.strictEqual(httpError(500, "internal_error").permanent, false);
+            assert.strictEqual(httpError(408, "").permanent, false);
+
+            const limited = httpError(429, "rate_limited", { "retry-after": "3" });
+            assert.strictEqual(limited.permanent, false);
+            assert.strictEqual(limited.retryAfterMs, 3000);
+        });
+
+        it("gives up on the errors that will never succeed", () => {
+            assert.strictEqual(httpError(404, "no_service").permanent, true);
+            assert.strictEqual(httpError(400, "invalid_payload").permanent, true);
+
+            // these are permanent whatever the status.
+            assert.strictEqual(httpError(500, "channel_is_archived").permanent, true);
+        });
+    });
+
+    describe("classifyWebApiError", () => {
+        const platformError = (error: string) =>
+            classifyWebApiError({ code: "slack_webapi_platform_error", message: error, data: { ok: false, error } });
+
+        it("retries the errors worth retrying and nothing else", () => {
+            assert.strictEqual(platformError("service_unavailable").permanent, false);
+            assert.strictEqual(platformError("channel_not_found").permanent, true);
+            const network = classifyWebApiError({ code: "slack_webapi_request_error", message: "" });
+            assert.strictEqual(network.permanent, false);
+
+            const limited = classifyWebApiError({ code: "slack_webapi_rate_limited_error", message: "",
+                retryAfter: 2 });
+            assert.strictEqual(limited.permanent, false);
+            assert.strictEqual(limited.retryAfterMs, 2000);
+        });
+    });
+
+    describe("SlackDeliveryQueue", () => {
+        let capture: CaptureServer;
+
+        beforeEach(async () => {
+            capture = await new CaptureServer().start();
+        });
+
+        afterEach(() => capture.close());
+
+        const failUntil = async (posts: number) => {
+            capture.status = 500;
+            await capture.waitForPosts(posts);
+            capture.status = 200;
+        };
+
+        it("tries again until the post goes through", async () => {
+            const queue = new SlackDeliveryQueue({ initialDelay: 10, maxDelay: 10 });
+            const [result] = await Promise.all([queue.deliver("webhook", capture.url("/hook"), { text: "hi" }),
+                failUntil(2)]);
+
+            assert.strictEqual(result.success, true);
+            assert.strictEqual(result.attempts, 3);
+            assert.deepStrictEqual(await queue.listDeadLetters(), []);
+        });
+
+        it("dead-letters a permanent failure right away and delivers it when it's replayed", async () => {
+            const queue = new SlackDeliveryQueue({ initialDelay: 10, maxDelay: 10 });
+            capture.status = 404;
+            const failed = await queue.deliver("webhook", capture.url("/hook"), { text: "hi" });
+            assert.strictEqual(failed.success, false);
+            assert.strictEqual(failed.attempts, 1);
+
+            const [letter] = await queue.listDeadLetters();
+            assert.strictEqual(letter.id, failed.deadLetterId);
+            assert.strictEqual(letter.permanent, true);
+            assert.deepStrictEqual(letter.payload, { text: "hi" });
+
+            capture.status = 200;
+            const replayed = await queue.replay(letter.id);
+            assert.strictEqual(replayed.success, true);
+            assert.deepStrictEqual(await queue.listDeadLetters(), []);
+            assert.strictEqual(capture.posts.length, 2);
+            await assert.rejects(queue.replay(letter.id), /no dead letter/);
+        });
+
+        it("dead-letters a delivery once it runs out of attempts", async () => {
+            const queue = new SlackDeliveryQueue({ maxAttempts: 2, initialDelay: 10, maxDelay: 10 });
+            capture.status = 503;
+            const result = await queue.deliver("responseUrl", capture.url("/response"), { text: "hi" });
+
+            assert.strictEqual(result.success, false);
+            assert.strictEqual(result.attempts, 2);
+            const [letter] = await queue.listDeadLetters();
+            assert.strictEqual(letter.permanent, false);
+            assert.strictEqual(letter.kind, "responseUrl");
+        });
+
+        it("refuses deliveries that the check turns away without posting them", async () => {
+            const queue = new SlackDeliveryQueue({}, () => "the response URL has expired");
+            const result = await queue.deliver("responseUrl", capture.url("/response"), { text: "hi" });
+
+            assert.strictEqual(result.success, false);
+            assert.strictEqual(result.error.message, "the response URL has expired");
+            assert.strictEqual(capture.posts.length, 0);
+        });
+
+        it("keeps deliveries for the same channel in order while one is being retried", async () => {
+            const queue = new SlackDeliveryQueue({ ordered: true, initialDelay: 20, maxDelay: 20 });
+            const results = await Promise.all([
+                queue.deliver("webhook", capture.url("/first"), { text: "1" }, "C1"),
+                queue.deliver("webhook", capture.url("/second"), { text: "2" }, "C1"),
+                failUntil(1)
+            ]);
+
+            assert.ok(results[0].success && results[1].success);
+            assert.deepStrictEqual(capture.posts.map((p) => p.path), ["/first", "/first", "/second"]);
+        });
+
+        it("doesn't hold up other channels", async () => {
+            const queue = new SlackDeliveryQueue({ ordered: true, initialDelay: 50, maxDelay: 50 });
+            capture.status = 500;
+            const first = queue.deliver("webhook", capture.url("/first"), { text: "1" }, "C1");
+            await capture.waitForPosts(1);
+            capture.status = 200;
+            await queue.deliver("webhook", capture.url("/other"), { text: "2" }, "C2");
+
+            assert.deepStrictEqual(capture.posts.map((p) => p.path), ["/first", "/other"]);
+            assert.ok((await first).success);
+        });
+    });
+});
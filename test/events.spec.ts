@@ -0,0 +1,155 @@
+import * as assert from "assert";
+import { buildEventRequest, buildInteractionRequest, createTestHarness, ITestHarness } from "../src/testing";
+import { SlackInteractionType } from "../src";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("events", () => {
+    let harness: ITestHarness;
+    let log: string[];
+
+    beforeEach(async () => {
+        log = [];
+        harness = await createTestHarness({
+            eventListeners: {
+                app_mention: async (_conn, event) => {
+                    log.push(`mention ${event.text}`);
+                    return {};
+                }
+            },
+            eventRoutes: [{
+                event: "message",
+                pattern: /^deploy (\S+)$/i,
+                handler: async (_conn, _event, ctx) => {
+                    log.push(`deploy ${ctx.state.match[1]}`);
+                }
+            }, {
+                event: "message",
+                subtype: "message_changed",
+                handler: async () => {
+                    log.push("edited");
+                }
+            }]
+        });
+    });
+
+    afterEach(() => harness.close());
+
+    const send = async (event: Record<string, any>, envelope?: Record<string, any>) => {
+        const res = await harness.send(buildEventRequest(harness.signingSecret, event, envelope));
+        await sleep(20);
+        return res;
+    };
+
+    it("answers the URL verification challenge", async () => {
+        const res = await harness.send(buildEventRequest(harness.signingSecret, undefined,
+            { type: "url_verification", challenge: "abc" }));
+        assert.strictEqual(res.status, 200);
+        assert.ok(/abc/.test(JSON.stringify(res.body)));
+    });
+
+    it("gives events to the listener for their type", async () => {
+        const res = await send({ type: "app_mention", user: "U1", text: "hello", ts: "1", channel: "C1" });
+        assert.strictEqual(res.status, 200);
+        assert.deepStrictEqual(log, ["mention hello"]);
+    });
+
+    it("only runs the routes that match", async () => {
+        await send({ type: "message", user: "U1", channel: "C1", ts: "1", text: "deploy api" });
+        await send({ type: "message", user: "U1", channel: "C1", ts: "2", text: "hello" });
+        await send({ type: "message", subtype: "message_changed", channel: "C1", ts: "3",
+            message: { type: "message", user: "U1", text: "deploy web", ts: "1" } });
+        assert.deepStrictEqual(log, ["deploy api", "edited"]);
+    });
+
+    it("still runs the routes when the bot user can't be looked up", async () => {
+        harness.bot.respondTo("auth.test", { ok: false, error: "invalid_auth" });
+        await send({ type: "message", user: "U1", channel: "C1", ts: "1", text: "deploy api" });
+        assert.strictEqual(harness.bot.callsTo("auth.test").length, 1);
+        assert.deepStrictEqual(log, ["deploy api"]);
+    });
+
+    it("handles a redelivered event once", async () => {
+        const event = { type: "app_mention", user: "U1", text: "again", ts: "1", channel: "C1" };
+        await send(event, { event_id: "Ev1" });
+        await send(event, { event_id: "Ev1" });
+        assert.deepStrictEqual(log, ["mention again"]);
+    });
+
+    it("ignores events with a bad signature", async () => {
+        const request = buildEventRequest("not-the-secret",
+            { type: "app_mention", user: "U1", text: "forged", ts: "1", channel: "C1" });
+        const res = await harness.send(request);
+        await sleep(20);
+        assert.notStrictEqual(res.status, 200);
+        assert.deepStrictEqual(log, []);
+    });
+});
+
+describe("interactions", () => {
+    let harness: ITestHarness;
+
+    beforeEach(async () => {
+        harness = await createTestHarness({
+            interactionListeners: [{
+                type: SlackInteractionType.action,
+                matchingConstraints: { actionId: "approve" },
+                handler: async (_conn, payload) => ({ text: `approved by ${payload.user.id}` })
+            }]
+        });
+    });
+
+    afterEach(() => harness.close());
+
+    it("acknowledges block actions and posts the handler's message to the response_url", async () => {
+        const res = await harness.send(buildInteractionRequest(harness.signingSecret, {
+            type: "block_actions",
+            trigger_id: "1.2.3",
+            actions: [{ action_id: "approve", block_id: "b1", type: "button" }],
+            response_url: harness.capture.url("/actions")
+        }));
+        assert.strictEqual(res.status, 200);
+
+        const [post] = await harness.capture.waitForPosts(1);
+        assert.strictEqual(post.path, "/actions");
+        assert.strictEqual(post.body.text, "approved by U00000001");
+    });
+
+    it("stops giving interactions to a handler once it's removed", async () => {
+        const override = {
+            type: SlackInteractionType.action,
+            matchingConstraints: { actionId: /^approve$/ },
+            handler: async () => ({ text: "overridden" })
+        };
+        harness.connection.addInteractionHandler(override);
+        const click = () => harness.send(buildInteractionRequest(harness.signingSecret, {
+            type: "block_actions",
+            actions: [{ action_id: "approve", block_id: "b1", type: "button" }],
+            response_url: harness.capture.url("/actions")
+        }));
+
+        // the handler from the config was added first so it would get the click if it were still there.
+        assert.ok(harness.connection.removeInteractionHandler(harness.connection.config.interactionListeners[0]));
+        await click();
+        const [post] = await harness.capture.waitForPosts(1);
+        assert.strictEqual(post.body.text, "overridden");
+
+        assert.ok(harness.connection.removeInteractionHandler(override));
+        assert.ok(!harness.connection.removeInteractionHandler(override));
+        const res = await click();
+        await sleep(20);
+        assert.strictEqual(res.status, 200);
+        assert.strictEqual(harness.capture.posts.length, 1);
+    });
+
+    it("rejects interactions with a bad signature", async () => {
+        const res = await harness.send(buildInteractionRequest("not-the-secret", {
+            type: "block_actions",
+            actions: [{ action_id: "approve", block_id: "b1" }],
+            response_url: harness.capture.url("/actions")
+        }));
+        await sleep(20);
+        assert.notStrictEqual(res.status, 200);
+        assert.strictEqual(harness.capture.posts.length, 0);
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from "assert";
+import { createTestHarness, ITestHarness } from "../src/testing";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("living messages", () => {
+    let harness: ITestHarness;
+
+    beforeEach(async () => {
+        harness = await createTestHarness();
+        harness.bot.respondTo("chat.postMessage", (args) =>
+            ({ ok: true, channel: args.channel, ts: args.thread_ts ? "2.000" : "1.000" }));
+    });
+
+    afterEach(() => harness.close());
+
+    it("keeps the reply up to date once the original can't be edited", async () => {
+        const status = await harness.connection.postLivingMessage("C1", "Deploying...", { debounceMs: 0 });
+        harness.bot.respondTo("chat.update", (args) => args.ts === "1.000" ?
+            { ok: false, error: "edit_window_closed" } : { ok: true });
+
+        await status.update({ text: "Deployed" });
+        assert.strictEqual(harness.bot.callsTo("chat.postMessage")[1].args.thread_ts, "1.000");
+        assert.strictEqual(status.ts, "2.000");
+
+        // the reply is edited from now on instead of another reply being posted.
+        await status.update({ text: "Deployed and verified" });
+        const updates = harness.bot.callsTo("chat.update");
+        assert.strictEqual(updates[updates.length - 1].args.ts, "2.000");
+        assert.strictEqual(harness.bot.callsTo("chat.postMessage").length, 2);
+
+        // replies still go in the original thread.
+        await status.reply("done");
+        assert.strictEqual(harness.bot.callsTo("chat.postMessage")[2].args.thread_ts, "1.000");
+    });
+
+    it("doesn't bring a deleted message back when an edit was on its way", async () => {
+        const status = await harness.connection.postLivingMessage("C1", "Deploying...", { debounceMs: 0 });
+        harness.bot.respondTo("chat.update", () => sleep(50).then(() => ({ ok: true })));
+
+        const update = status.update({ text: "Deployed" });
+        await sleep(10);
+        await status.delete();
+        await update;
+
+        assert.strictEqual(await harness.connection.livingMessages.load(status.id), undefined);
+        assert.strictEqual(harness.bot.callsTo("chat.delete").length, 1);
+        await assert.rejects(status.update({ text: "again" }), /deleted/);
+    });
+
+    it("lets go of idle handles once there are too many", async () => {
+        const handles: Map<string, any> = (harness.connection.livingMessages as any).handles;
+        for (let i = 0; i < 510; i++) {
+            await harness.connection.postLivingMessage("C1", `status ${i}`, { id: `status-${i}` });
+        }
+        assert.strictEqual(handles.size, 500);
+        assert.ok(!handles.has("status-0"));
+
+        // the ones that were let go can still be loaded from the store.
+        const first = await harness.connection.livingMessages.load("status-0");
+        assert.strictEqual(first.message.text, "status 0");
+    });
+});
@@ -0,0 +1,89 @@
+import * as assert from "assert";
+import { buildEventRequest, createTestHarness, ITestHarness } from "../src/testing";
+import { SlackMetadataCache } from "../src";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("metadata cache", () => {
+    let harness: ITestHarness;
+    let cache: SlackMetadataCache;
+
+    beforeEach(async () => {
+        harness = await createTestHarness({
+            metadataCache: { ttl: 100 },
+            eventListeners: { app_mention: async () => ({}) }
+        });
+        cache = harness.connection.metadata;
+        harness.bot
+            .respondTo("users.info", (args) =>
+                ({ ok: true, user: { id: args.user, name: "ann", profile: { email: "ann@example.com" } } }))
+            .respondTo("conversations.info", (args) => ({ ok: true, channel: { id: args.channel, name: "ops" } }))
+            .respondTo("users.lookupByEmail", { ok: true, user: { id: "U2", profile: { email: "bob@example.com" } } })
+            .respondTo("conversations.list", {
+                ok: true,
+                channels: [{ id: "C1", name: "general" }, { id: "C2", name: "Deploys" }]
+            });
+    });
+
+    afterEach(() => harness.close());
+
+    const sendEvent = async (event: Record<string, any>) => {
+        await harness.send(buildEventRequest(harness.signingSecret, event));
+        await sleep(20);
+    };
+
+    it("keeps users until the TTL runs out", async () => {
+        await cache.getUser("U1");
+        await cache.getUser("U1");
+        assert.strictEqual(harness.bot.callsTo("users.info").length, 1);
+        assert.deepStrictEqual(cache.getStats(), { hits: 1, misses: 1, size: 1 });
+
+        await sleep(150);
+        await cache.getUser("U1");
+        assert.strictEqual(harness.bot.callsTo("users.info").length, 2);
+    });
+
+    it("shares one call between lookups made at the same time", async () => {
+        await Promise.all([cache.getChannel("C1"), cache.getChannel("C1")]);
+        assert.strictEqual(harness.bot.callsTo("conversations.info").length, 1);
+    });
+
+    it("finds users by email from the cache or with users.lookupByEmail", async () => {
+        await cache.getUser("U1");
+        assert.strictEqual((await cache.getUserByEmail("Ann@Example.com")).id, "U1");
+        assert.strictEqual(harness.bot.callsTo("users.lookupByEmail").length, 0);
+
+        assert.strictEqual((await cache.getUserByEmail("bob@example.com")).id, "U2");
+        assert.strictEqual((await cache.getUserByEmail("bob@example.com")).id, "U2");
+        assert.strictEqual(harness.bot.callsTo("users.lookupByEmail").length, 1);
+    });
+
+    it("finds channels by name", async () => {
+        assert.strictEqual((await cache.getChannelByName("#deploys")).id, "C2");
+        assert.strictEqual((await cache.getChannel("C1")).name, "general");
+        assert.strictEqual(harness.bot.callsTo("conversations.info").length, 0);
+        assert.strictEqual(await cache.getChannelByName("missing"), undefined);
+    });
+
+    it("replaces a user when a user_change event arrives", async () => {
+        await cache.getUser("U1");
+        await sendEvent({ type: "user_change", user: { id: "U1", name: "ann.b", profile: {} } });
+
+        assert.strictEqual((await cache.getUser("U1")).name, "ann.b");
+        assert.strictEqual(harness.bot.callsTo("users.info").length, 1);
+    });
+
+    it("forgets a channel when it's renamed, archived or joined", async () => {
+        for (const event of [
+            { type: "channel_rename", channel: { id: "C1", name: "ops-team", created: 1 } },
+            { type: "channel_archive", channel: "C1", user: "U1" },
+            { type: "member_joined_channel", channel: "C1", user: "U2", channel_type: "C" }
+        ]) {
+            await cache.getChannel("C1");
+            const calls = harness.bot.callsTo("conversations.info").length;
+            await sendEvent(event);
+            await cache.getChannel("C1");
+            assert.strictEqual(harness.bot.callsTo("conversations.info").length, calls + 1, event.type);
+        }
+    });
+});
@@ -0,0 +1,110 @@
+import * as assert from "assert";
+import { buildCommandRequest, buildEventRequest, createTestHarness, ITestHarness } from "../src/testing";
+import { createMiddlewareContext, runMiddleware } from "../src";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("middleware", () => {
+    let harness: ITestHarness;
+    let log: string[];
+
+    afterEach(() => harness.close());
+
+    describe("events", () => {
+        beforeEach(async () => {
+            log = [];
+            harness = await createTestHarness({
+                middleware: [async (ctx, next) => {
+                    log.push(`before ${ctx.name}`);
+                    await next();
+                    log.push(`after ${ctx.name}`);
+                }],
+                eventListeners: {
+                    message: async () => {
+                        log.push("listener");
+                        return {};
+                    }
+                },
+                eventRoutes: [{
+                    event: "message",
+                    pattern: /deploy/,
+                    handler: async () => {
+                        log.push("route");
+                    }
+                }]
+            });
+        });
+
+        it("runs the global middleware once around the listener and the routes", async () => {
+            await harness.send(buildEventRequest(harness.signingSecret,
+                { type: "message", user: "U1", channel: "C1", ts: "1", text: "deploy api" }));
+            await sleep(20);
+            assert.deepStrictEqual(log, ["before message", "listener", "route", "after message"]);
+        });
+    });
+
+    describe("commands", () => {
+        beforeEach(async () => {
+            log = [];
+            harness = await createTestHarness({
+                middleware: [async (ctx, next) => {
+                    ctx.state.account = `account of ${ctx.userId}`;
+                    await next();
+                }, async (ctx, next) => {
+                    if (ctx.payload.text === "blocked") {
+                        ctx.ack({ text: "Not now" });
+                        return;
+                    }
+                    await next();
+                }],
+                commands: [{
+                    command: "ticket",
+                    middleware: [async (ctx, next) => {
+                        log.push(`command ${ctx.name}`);
+                        await next();
+                    }],
+                    subCommandListeners: {
+                        mine: async (_conn, _text, _params, _args, ctx) => {
+                            log.push("handler");
+                            return { body: { text: `tickets for ${ctx.state.account}` } };
+                        },
+                        blocked: async () => {
+                            log.push("handler");
+                            return { body: { text: "ran" } };
+                        }
+                    }
+                }]
+            });
+        });
+
+        const send = (text: string) => harness.send(buildCommandRequest(harness.signingSecret,
+            { command: "ticket", text, user_id: "U1" }));
+
+        it("gives the handler what the middleware added to the context", async () => {
+            const response = await send("mine");
+            assert.strictEqual(response.body.text, "tickets for account of U1");
+            assert.deepStrictEqual(log, ["command /ticket mine", "handler"]);
+        });
+
+        it("sends the middleware's ack without running the handler when it doesn't call next", async () => {
+            const response = await send("blocked");
+            assert.strictEqual(response.status, 200);
+            assert.strictEqual(response.body.text, "Not now");
+            assert.deepStrictEqual(log, []);
+        });
+    });
+});
+
+describe("runMiddleware", () => {
+    it("fails when a middleware calls next more than once", async () => {
+        const ctx = createMiddlewareContext("command", "/ticket", { user_id: "U1" });
+        let runs = 0;
+        await assert.rejects(runMiddleware([async (_ctx, next) => {
+            await next();
+            await next();
+        }], ctx, async () => {
+            runs++;
+        }), /next\(\) was called more than once/);
+        assert.strictEqual(runs, 1);
+    });
+});
@@ -0,0 +1,83 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import axios from "axios";
+import express from "express";
+import { createTestHarness, FakeWebClient, ITestHarness } from "../src/testing";
+
+// nexus-core mounts each module's subApp under a prefix like this one.
+const MOUNT_PATH = "/nexus/slack";
+
+describe("oauth", () => {
+    let harness: ITestHarness;
+    let server: http.Server;
+    let baseUrl: string;
+    let slack: FakeWebClient;
+
+    beforeEach(async () => {
+        harness = await createTestHarness({ oauth: { scopes: ["chat:write", "commands"] } });
+
+        // the installer makes its own (unauthenticated) client for oauth.v2.access.
+        slack = new FakeWebClient().respondTo("oauth.v2.access", {
+            ok: true,
+            app_id: "A00000001",
+            team: { id: "T00000002", name: "Other" },
+            bot_user_id: "UBOT",
+            access_token: "xoxb-installed",
+            scope: "chat:write,commands"
+        });
+        (harness.connection.installer as any).client = slack.asWebClient();
+
+        const app = express();
+        app.use(MOUNT_PATH, harness.app);
+        server = http.createServer(app);
+        await new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(undefined)));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(() => resolve(undefined)));
+        await harness.close();
+    });
+
+    const get = (path: string, cookie?: string) => axios.get(baseUrl + path, {
+        headers: cookie ? { cookie } : {},
+        maxRedirects: 0,
+        validateStatus: () => true
+    });
+
+    it("scopes the state cookie to the mounted redirect route", async () => {
+        const install = await get(`${MOUNT_PATH}/slack/install`);
+        assert.strictEqual(install.status, 302);
+        const [cookie] = install.headers["set-cookie"];
+        assert.ok(cookie.includes(`Path=${MOUNT_PATH}/slack/oauth_redirect;`), cookie);
+    });
+
+    it("completes an install started from the mounted route", async () => {
+        const install = await get(`${MOUNT_PATH}/slack/install`);
+        const state = new URL(install.headers.location).searchParams.get("state");
+        const [setCookie] = install.headers["set-cookie"];
+
+        // send the cookie back only if a browser would (i.e. the redirect is under the cookie's path)
+        const redirectPath = `${MOUNT_PATH}/slack/oauth_redirect`;
+        const cookiePath = /Path=([^;]+)/.exec(setCookie)[1];
+        assert.ok(redirectPath.startsWith(cookiePath));
+
+        const redirect = await get(`${redirectPath}?code=abc&state=${encodeURIComponent(state)}`,
+            setCookie.split(";")[0]);
+        assert.strictEqual(redirect.status, 200, redirect.data);
+        assert.strictEqual(slack.callsTo("oauth.v2.access")[0].args.code, "abc");
+
+        const installation = await harness.connection.installer.installationStore.fetchInstallation(
+            { teamId: "T00000002" });
+        assert.strictEqual(installation.botToken, "xoxb-installed");
+    });
+
+    it("rejects a redirect without the state cookie", async () => {
+        const install = await get(`${MOUNT_PATH}/slack/install`);
+        const state = new URL(install.headers.location).searchParams.get("state");
+        const redirect = await get(`${MOUNT_PATH}/slack/oauth_redirect?code=abc&state=${encodeURIComponent(state)}`);
+        assert.strictEqual(redirect.status, 400);
+        assert.strictEqual(slack.callsTo("oauth.v2.access").length, 0);
+    });
+});
@@ -0,0 +1,82 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import axios from "axios";
+import { buildCommandRequest, createTestHarness, ITestHarness } from "../src/testing";
+import { ISlackTrafficRecord } from "../src";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("observability", () => {
+    let harness: ITestHarness;
+    let records: ISlackTrafficRecord[];
+    let seen: string[];
+
+    beforeEach(async () => {
+        records = [];
+        seen = [];
+        harness = await createTestHarness({
+            observability: { hooks: [(record) => records.push(record)] },
+            commands: [{
+                command: "deploy",
+                subCommandListeners: {
+                    api: {
+                        deferred: true,
+                        handler: async (conn, _text, _params, _args, ctx) => {
+                            seen.push(ctx.correlationId, conn.observability.getCorrelationId());
+                            return { body: { text: "deployed" } };
+                        }
+                    },
+                    broken: async () => {
+                        throw new Error("no deploys on Fridays");
+                    }
+                }
+            }]
+        });
+    });
+
+    afterEach(() => harness.close());
+
+    const run = (text: string) => harness.send(buildCommandRequest(harness.signingSecret,
+        { command: "deploy", text, user_id: "U1", channel_id: "C1", response_url: harness.capture.url("/response") }));
+
+    it("gives the calls a handler makes the correlation ID of the request", async () => {
+        await run("api");
+        await harness.capture.waitForPosts(1);
+        for (let i = 0; i < 100 && !records.some((r) => r.direction === "outbound"); i++) {
+            await sleep(10);
+        }
+
+        const inbound = records.find((r) => r.direction === "inbound");
+        const outbound = records.find((r) => r.direction === "outbound");
+        assert.strictEqual(inbound.kind, "command");
+        assert.strictEqual(inbound.name, "/deploy api");
+        assert.strictEqual(inbound.userId, "U1");
+        assert.strictEqual(inbound.channelId, "C1");
+        assert.strictEqual(inbound.outcome, "success");
+
+        assert.strictEqual(outbound.kind, "responseUrl");
+        assert.strictEqual(outbound.correlationId, inbound.correlationId);
+        assert.deepStrictEqual(seen, [inbound.correlationId, inbound.correlationId]);
+    });
+
+    it("serves the counts and latencies on the metrics route", async () => {
+        await run("broken");
+        const app = http.createServer(harness.app);
+        await new Promise((resolve) => app.listen(0, "127.0.0.1", () => resolve(undefined)));
+        try {
+            const response = await axios.get(`http://127.0.0.1:${(app.address() as AddressInfo).port}/metrics`);
+            assert.ok(/text\/plain/.test(response.headers["content-type"]));
+
+            const metrics: string = response.data;
+            assert.ok(metrics.includes("# TYPE slack_inbound_total counter"), metrics);
+            assert.ok(metrics.includes(
+                "slack_inbound_total{kind=\"command\",name=\"/deploy broken\",outcome=\"error\"} 1"), metrics);
+            assert.ok(metrics.includes(
+                "slack_inbound_latency_seconds_count{kind=\"command\",name=\"/deploy broken\"} 1"), metrics);
+            assert.ok(metrics.includes("slack_rate_limit_queued 0"), metrics);
+        } finally {
+            await new Promise((resolve) => app.close(() => resolve(undefined)));
+        }
+    });
+});
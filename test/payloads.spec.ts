@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import { buildEventRequest, createTestHarness, ITestHarness } from "../src/testing";
+import { isEvent, isInteraction, isUserMessage, ISlackSchemaDrift, validateEvent, validateInteraction } from "../src";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("payloads", () => {
+    describe("validateEvent", () => {
+        it("accepts events that match their type", () => {
+            const message = { type: "message", channel: "C1", ts: "1", user: "U1", text: "hi" };
+            assert.deepStrictEqual(validateEvent(message), []);
+            assert.deepStrictEqual(validateEvent({
+                type: "reaction_added", user: "U1", reaction: "tada", item: { type: "message", channel: "C1", ts: "1" }
+            }), []);
+
+            // events without a schema aren't checked.
+            assert.deepStrictEqual(validateEvent({ type: "pin_added" }), []);
+        });
+
+        it("checks messages against the schema of their subtype", () => {
+            assert.deepStrictEqual(validateEvent({ type: "message", subtype: "message_changed", channel: "C1", ts: "1",
+                message: {} }), ["\"message.ts\" is missing"]);
+            assert.deepStrictEqual(validateEvent({ type: "message", subtype: "bot_message", channel: "C1", ts: "1" }),
+                ["\"bot_id\" is missing"]);
+
+            // subtypes without their own schema only need a channel and a ts.
+            assert.deepStrictEqual(validateEvent({ type: "message", subtype: "pinned_item", channel: "C1" }),
+                ["\"ts\" is missing"]);
+        });
+
+        it("describes fields that are missing or have the wrong type", () => {
+            assert.deepStrictEqual(validateEvent({ type: "app_mention", user: "U1", text: "hi", ts: 1, channel: "C1" }),
+                ["\"ts\" should be a string but is a number"]);
+
+            // the fields inside a missing object aren't reported as well.
+            assert.deepStrictEqual(validateEvent({ type: "reaction_added", user: "U1", reaction: "tada" }),
+                ["\"item\" is missing"]);
+            assert.deepStrictEqual(validateEvent({ channel: "C1" }), ["the event has no type"]);
+        });
+    });
+
+    describe("validateInteraction", () => {
+        it("checks interactions against their type", () => {
+            const submission = { type: "view_submission", user: { id: "U1" }, view: { id: "V1", state: {} } };
+            assert.deepStrictEqual(validateInteraction(submission), ["\"view.callback_id\" is missing"]);
+            assert.deepStrictEqual(validateInteraction({ type: "view_submission", user: "U1", view: "V1" }),
+                ["\"user\" should be an object but is a string", "\"view\" should be an object but is a string"]);
+        });
+    });
+
+    describe("type guards", () => {
+        it("only narrow payloads that have the fields their type says they have", () => {
+            const message = { type: "message", channel: "C1", ts: "1", user: "U1", text: "hi" };
+            assert.ok(isUserMessage(message));
+            assert.ok(!isUserMessage({ ...message, subtype: "thread_broadcast", thread_ts: "0" }));
+            assert.ok(isEvent({ type: "member_joined_channel", user: "U1", channel: "C1" }, "member_joined_channel"));
+            assert.ok(!isEvent({ type: "member_joined_channel", user: "U1" }, "member_joined_channel"));
+            assert.ok(isInteraction({ type: "shortcut", user: { id: "U1" }, callback_id: "new", trigger_id: "1" },
+                "shortcut"));
+            assert.ok(!isInteraction({ type: "shortcut", user: { id: "U1" } }, "message_action"));
+        });
+    });
+
+    describe("drift", () => {
+        let harness: ITestHarness;
+        let drifts: ISlackSchemaDrift[];
+        let mentions: number;
+
+        beforeEach(async () => {
+            drifts = [];
+            mentions = 0;
+            harness = await createTestHarness({
+                payloadValidation: { onDrift: (drift) => drifts.push(drift) },
+                eventListeners: {
+                    app_mention: async () => {
+                        mentions++;
+                        return {};
+                    }
+                }
+            });
+        });
+
+        afterEach(() => harness.close());
+
+        it("reports payloads that have drifted and still handles them", async () => {
+            for (let i = 0; i < 2; i++) {
+                await harness.send(buildEventRequest(harness.signingSecret,
+                    { type: "app_mention", user: "U1", channel: "C1", ts: `${i}`, text: { rich: true } }));
+            }
+            await sleep(20);
+
+            assert.strictEqual(mentions, 2);
+            assert.strictEqual(drifts.length, 2);
+            assert.deepStrictEqual(drifts[0].problems, ["\"text\" should be a string but is an object"]);
+            assert.strictEqual(drifts[0].source, "event");
+            assert.deepStrictEqual(harness.connection.payloadValidator.getStats(),
+                [{ source: "event", type: "app_mention", count: 2 }]);
+            assert.ok(harness.connection.observability.renderMetrics()
+                .includes("slack_schema_drift_total{source=\"event\",type=\"app_mention\"} 2"));
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import * as assert from "assert";
+import {
+    buildCommandRequest,
+    buildEventRequest,
+    buildInteractionRequest,
+    createTestHarness,
+    ITestHarness
+} from "../src/testing";
+import { MemoryRecordingStore, parseRecording, REDACTED, SlackInteractionType } from "../src";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("recorder", () => {
+    let harness: ITestHarness;
+    let store: MemoryRecordingStore;
+    let log: string[];
+
+    const start = async (testMode?: boolean) => {
+        log = [];
+        store = new MemoryRecordingStore();
+        harness = await createTestHarness({
+            testMode,
+            recording: { store, redact: ["real_name"] },
+            eventListeners: {
+                app_mention: async (_conn, event) => {
+                    log.push(`mention ${event.text}`);
+                    return {};
+                }
+            },
+            commands: [{
+                command: "ticket",
+                subCommandListeners: {
+                    list: async () => ({ body: { text: "no tickets" } })
+                }
+            }],
+            interactionListeners: [{
+                type: SlackInteractionType.action,
+                matchingConstraints: { actionId: "approve" },
+                handler: async () => ({})
+            }]
+        });
+    };
+
+    beforeEach(() => start());
+
+    afterEach(() => harness.close());
+
+    const mention = () => harness.send(buildEventRequest(harness.signingSecret,
+        { type: "app_mention", user: "U1", channel: "C1", ts: "1", text: "hello" }));
+
+    it("handles the request when it can't be recorded", async () => {
+        harness.connection.recorder.record = () => {
+            throw new Error("disk full");
+        };
+        const response = await mention();
+        await sleep(20);
+        assert.strictEqual(response.status, 200);
+        assert.deepStrictEqual(log, ["mention hello"]);
+
+        harness.connection.recorder.record = () => Promise.reject(new Error("disk full"));
+        assert.strictEqual((await mention()).status, 200);
+    });
+
+    it("redacts the secrets and the configured fields", async () => {
+        await harness.send(buildEventRequest(harness.signingSecret,
+            { type: "app_mention", user: "U1", channel: "C1", ts: "1", text: "hello", real_name: "Ann" }));
+        await harness.send(buildCommandRequest(harness.signingSecret,
+            { command: "ticket", text: "list", response_url: harness.capture.url("/response") }));
+        await harness.send(buildInteractionRequest(harness.signingSecret, {
+            type: "block_actions",
+            actions: [{ action_id: "approve", block_id: "b1", type: "button" }],
+            response_url: harness.capture.url("/actions")
+        }));
+        await sleep(20);
+
+        const [event, command, interaction] = await store.list();
+        assert.deepStrictEqual([event.kind, command.kind, interaction.kind], ["event", "command", "interaction"]);
+        for (const recording of [event, command, interaction]) {
+            assert.ok(!("x-slack-signature" in recording.headers));
+            assert.ok(recording.headers["x-slack-request-timestamp"]);
+        }
+
+        const eventPayload = parseRecording(event);
+        assert.strictEqual(eventPayload.token, REDACTED);
+        assert.strictEqual(eventPayload.event.real_name, REDACTED);
+        assert.strictEqual(eventPayload.event.text, "hello");
+
+        const commandPayload = parseRecording(command);
+        assert.strictEqual(commandPayload.token, REDACTED);
+        assert.strictEqual(commandPayload.response_url, REDACTED);
+        assert.strictEqual(commandPayload.text, "list");
+
+        const interactionPayload = parseRecording(interaction);
+        assert.strictEqual(interactionPayload.response_url, REDACTED);
+        assert.strictEqual(interactionPayload.actions[0].action_id, "approve");
+    });
+
+    it("refuses to replay a recording outside of test mode", async () => {
+        await mention();
+        await sleep(20);
+        const [recording] = await store.list();
+        await assert.rejects(harness.connection.replayRecording(recording), /test mode/);
+        assert.deepStrictEqual(log, ["mention hello"]);
+    });
+
+    it("replays a recording through the handlers in test mode", async () => {
+        await harness.close();
+        await start(true);
+        await harness.send(buildCommandRequest(harness.signingSecret, { command: "ticket", text: "list" }));
+        await mention();
+        await sleep(20);
+
+        const [command, event] = await store.list();
+        const replayed = await harness.connection.replayRecording(command);
+        assert.strictEqual(replayed.kind, "command");
+        assert.strictEqual(replayed.response.body.text, "no tickets");
+
+        log = [];
+        assert.strictEqual((await harness.connection.replayRecording(event)).completed, true);
+        assert.deepStrictEqual(log, ["mention hello"]);
+    });
+});
@@ -0,0 +1,108 @@
+import * as assert from "assert";
+import { createTestHarness, FakeWebClient, ITestHarness } from "../src/testing";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000) {
+    const started = Date.now();
+    while (!condition()) {
+        if (Date.now() - started > timeoutMs) {
+            throw new Error("Timed out waiting for the condition");
+        }
+        await sleep(10);
+    }
+}
+
+describe("scheduled messages", () => {
+    let harness: ITestHarness;
+
+    beforeEach(async () => {
+        harness = await createTestHarness({ delivery: { initialDelay: 20, maxDelay: 20, maxAttempts: 3 } });
+    });
+
+    afterEach(() => harness.close());
+
+    const schedule = () => harness.connection.scheduledMessages.schedule("C1", { text: "reminder" }, Date.now(),
+        { local: true });
+
+    it("tries a local job again when sending it fails with an error worth retrying", async () => {
+        harness.bot
+            .respondTo("chat.postMessage", { ok: false, error: "internal_error" })
+            .respondTo("chat.postMessage", { ok: true, ts: "1" });
+        await schedule();
+
+        await waitFor(() => harness.bot.callsTo("chat.postMessage").length === 2);
+        await sleep(20);
+        assert.deepStrictEqual(await harness.connection.scheduledMessages.list(), []);
+    });
+
+    it("drops a local job when sending it fails permanently", async () => {
+        harness.bot.respondTo("chat.postMessage", { ok: false, error: "channel_not_found" });
+        await schedule();
+
+        await waitFor(() => harness.bot.callsTo("chat.postMessage").length === 1);
+        await sleep(100);
+        assert.strictEqual(harness.bot.callsTo("chat.postMessage").length, 1);
+        assert.deepStrictEqual(await harness.connection.scheduledMessages.list(), []);
+    });
+
+    it("gives up after the configured number of attempts", async () => {
+        harness.bot.respondTo("chat.postMessage", { ok: false, error: "service_unavailable" });
+        await schedule();
+
+        await waitFor(() => harness.bot.callsTo("chat.postMessage").length === 3);
+        await sleep(100);
+        assert.strictEqual(harness.bot.callsTo("chat.postMessage").length, 3);
+        assert.deepStrictEqual(await harness.connection.scheduledMessages.list(), []);
+    });
+
+    it("waits for the jobs being sent before setting the timer again", async () => {
+        const store = (harness.connection.scheduledMessages as any).store;
+        const list = store.list.bind(store);
+        let lists = 0;
+        store.list = () => {
+            lists++;
+            return list();
+        };
+        harness.bot.respondTo("chat.postMessage", () => sleep(100).then(() => ({ ok: true, ts: "1" })));
+        await schedule();
+        await waitFor(() => harness.bot.callsTo("chat.postMessage").length === 1);
+
+        // scheduling another job while the first is on its way shouldn't keep picking the first one up.
+        await harness.connection.scheduledMessages.schedule("C1", { text: "later" }, Date.now() + 60000,
+            { local: true });
+        lists = 0;
+        await sleep(150);
+        assert.ok(lists < 5, `the store was listed ${lists} times`);
+        assert.strictEqual(harness.bot.callsTo("chat.postMessage").length, 1);
+        assert.strictEqual((await harness.connection.scheduledMessages.list()).length, 1);
+    });
+
+    it("sends the message in the workspace it was scheduled for", async () => {
+        await harness.close();
+        harness = await createTestHarness({ oauth: { scopes: ["chat:write"] } });
+        await harness.connection.installer.installationStore.storeInstallation({
+            teamId: "T00000002",
+            botToken: "xoxb-other",
+            installedAt: Date.now()
+        });
+        const other = new FakeWebClient()
+            .respondTo("chat.postMessage", { ok: true, ts: "1" })
+            .respondTo("chat.scheduleMessage", { ok: true, scheduled_message_id: "Q1", channel: "C1" })
+            .respondTo("chat.deleteScheduledMessage", { ok: true });
+        harness.connection.createWebClient = () => other.asWebClient();
+        const scheduler = harness.connection.scheduledMessages;
+
+        await scheduler.schedule("C1", { text: "now" }, Date.now(), { local: true, teamId: "T00000002" });
+        await waitFor(() => other.callsTo("chat.postMessage").length === 1);
+
+        const job = await scheduler.schedule("C1", { text: "tomorrow" }, Date.now() + 24 * 60 * 60 * 1000,
+            { teamId: "T00000002" });
+        assert.strictEqual(job.mode, "slack");
+        assert.strictEqual(await scheduler.cancel(job.id), true);
+
+        assert.strictEqual(other.callsTo("chat.scheduleMessage").length, 1);
+        assert.strictEqual(other.callsTo("chat.deleteScheduledMessage")[0].args.scheduled_message_id, "Q1");
+        assert.strictEqual(harness.bot.calls.length, 0);
+    });
+});
@@ -0,0 +1,181 @@
+import * as assert from "assert";
+import { SlackSocketModeClient, SocketModeDispatcher } from "../src/socketModeClient";
+import { createTestHarness, SocketModeServer } from "../src/testing";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function waitFor(condition: () => boolean, timeoutMs: number = 2000) {
+    const started = Date.now();
+    while (!condition()) {
+        if (Date.now() - started > timeoutMs) {
+            throw new Error("Timed out waiting for the condition");
+        }
+        await sleep(10);
+    }
+}
+
+describe("socket mode", () => {
+    let server: SocketModeServer;
+    let client: SlackSocketModeClient;
+    let received: any[];
+
+    const dispatcher: SocketModeDispatcher = async (type, payload) => {
+        received.push({ type, payload });
+        return type === "slash_commands" ? { text: `ran ${payload.command}` } : undefined;
+    };
+
+    const createClient = (config: Record<string, any> = {}) => new SlackSocketModeClient({
+        appToken: "xapp-test",
+        apiUrl: server.apiUrl(),
+        minReconnectDelay: 20,
+        maxReconnectDelay: 100,
+        ...config
+    }, dispatcher);
+
+    beforeEach(async () => {
+        received = [];
+        server = await new SocketModeServer().start();
+    });
+
+    afterEach(async () => {
+        if (client) {
+            client.stop();
+            client = undefined;
+        }
+        await server.close();
+    });
+
+    it("opens a connection with the app token", async () => {
+        client = createClient();
+        await client.start();
+        assert.ok(client.connected);
+        assert.strictEqual(server.authorization, "Bearer xapp-test");
+        assert.strictEqual(server.connectionCount, 1);
+    });
+
+    it("dispatches envelopes and acknowledges them with the result", async () => {
+        client = createClient();
+        await client.start();
+
+        const commandAck = await server.sendEnvelope("slash_commands", { command: "/ticket", text: "list" });
+        assert.deepStrictEqual(commandAck.payload, { text: "ran /ticket" });
+
+        const eventAck = await server.sendEnvelope("events_api", { type: "event_callback", event: { type: "x" } });
+        assert.strictEqual(eventAck.payload, undefined);
+        assert.deepStrictEqual(received.map((r) => r.type), ["slash_commands", "events_api"]);
+    });
+
+    it("leaves the payload out of the ack when Slack doesn't accept one", async () => {
+        client = createClient();
+        await client.start();
+        const ack = await server.sendEnvelope("slash_commands", { command: "/ticket" },
+            { acceptsResponsePayload: false });
+        assert.strictEqual(ack.payload, undefined);
+    });
+
+    it("still acknowledges envelopes whose handler fails", async () => {
+        client = new SlackSocketModeClient({ appToken: "xapp-test", apiUrl: server.apiUrl() }, async () => {
+            throw new Error("boom");
+        });
+        await client.start();
+        const ack = await server.sendEnvelope("interactive", { type: "block_actions" });
+        assert.strictEqual(ack.envelope_id, "envelope-1");
+    });
+
+    it("opens a new connection when Slack asks and closes the old one once it's ready", async () => {
+        client = createClient();
+        await client.start();
+        server.requestDisconnect();
+        await server.waitForConnections(2);
+        await waitFor(() => server.openSockets.length === 1);
+        assert.ok(client.connected);
+
+        // envelopes arrive over the new connection.
+        await server.sendEnvelope("events_api", { type: "event_callback", event: { type: "x" } });
+        assert.strictEqual(received.length, 1);
+    });
+
+    it("stops when Socket Mode is turned off for the app", async () => {
+        client = createClient();
+        await client.start();
+        server.requestDisconnect("link_disabled");
+        await waitFor(() => !client.connected);
+        await sleep(100);
+        assert.strictEqual(server.connectionCount, 1);
+    });
+
+    it("reconnects with a backoff after the connection drops", async () => {
+        client = createClient();
+        await client.start();
+
+        server.failNextOpens(2);
+        server.dropConnections();
+        await server.waitForConnections(2);
+
+        await waitFor(() => client.connected);
+
+        // two failed calls to apps.connections.open and then the one that worked.
+        assert.strictEqual(server.opensRequested, 4);
+    });
+
+    it("keeps trying in the background when the first attempt fails", async () => {
+        server.failNextOpens(1);
+        client = createClient();
+        await assert.rejects(client.start());
+        await server.waitForConnections(1);
+        await waitFor(() => client.connected);
+    });
+
+    it("gives up after the maximum number of attempts", async () => {
+        client = createClient({ maxReconnectAttempts: 2 });
+        await client.start();
+        server.failNextOpens(10);
+        server.dropConnections();
+        await sleep(300);
+        assert.strictEqual(server.opensRequested, 3);
+        assert.ok(!client.connected);
+    });
+
+    it("reconnects when nothing is received before the ping timeout", async () => {
+        client = createClient({ pingTimeout: 100 });
+        await client.start();
+        await server.waitForConnections(2, 1000);
+    });
+
+    it("gives envelopes to the connection's handlers", async () => {
+        const events: string[] = [];
+        const harness = await createTestHarness({
+            socketMode: { appToken: "xapp-test", apiUrl: server.apiUrl() },
+            commands: [{
+                command: "ticket",
+                subCommandListeners: { list: async () => ({ body: { text: "no tickets" } }) }
+            }],
+            eventListeners: {
+                app_mention: async (_conn, event) => {
+                    events.push(event.text);
+                    return {};
+                }
+            }
+        });
+
+        try {
+            await server.waitForConnections(1);
+            await waitFor(() => harness.connection.socketModeClient.connected);
+
+            const ack = await server.sendEnvelope("slash_commands",
+                { command: "/ticket", text: "list", team_id: "T00000001", user_id: "U00000001" });
+            assert.strictEqual(ack.payload.text, "no tickets");
+
+            await server.sendEnvelope("events_api", {
+                type: "event_callback",
+                event_id: "Ev1",
+                team_id: "T00000001",
+                event: { type: "app_mention", user: "U1", text: "hi", ts: "1", channel: "C1" }
+            });
+            await waitFor(() => events.length === 1);
+            assert.deepStrictEqual(events, ["hi"]);
+        } finally {
+            await harness.close();
+        }
+    });
+});
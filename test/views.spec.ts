@@ -0,0 +1,54 @@
+import * as assert from "assert";
+import { createTestHarness, FakeWebClient, ITestHarness } from "../src/testing";
+import { matchesPattern, requiredField, validateForm } from "../src";
+
+describe("views", () => {
+    let harness: ITestHarness;
+    let other: FakeWebClient;
+
+    beforeEach(async () => {
+        harness = await createTestHarness({ oauth: { scopes: ["chat:write"] } });
+        await harness.connection.installer.installationStore.storeInstallation({
+            teamId: "T00000002",
+            botToken: "xoxb-other",
+            installedAt: Date.now()
+        });
+
+        // clients for installed workspaces are made per token.
+        other = new FakeWebClient()
+            .respondTo("views.open", { ok: true, view: { id: "V1", hash: "h1" } })
+            .respondTo("views.update", { ok: true, view: { id: "V1", hash: "h2" } });
+        harness.connection.createWebClient = () => other.asWebClient();
+    });
+
+    afterEach(() => harness.close());
+
+    const modal = { type: "modal", callback_id: "ticket", title: { type: "plain_text", text: "Ticket" },
+        blocks: [] as any[] };
+
+    it("opens the view in the workspace it's given", async () => {
+        await harness.connection.openView("trigger", modal, { teamId: "T00000002", metadata: { id: 1 } });
+        assert.strictEqual(harness.bot.callsTo("views.open").length, 0);
+        const [call] = other.callsTo("views.open");
+        assert.strictEqual(call.args.view.private_metadata, "{\"id\":1}");
+    });
+
+    it("updates a view in the workspace it belongs to", async () => {
+        await harness.connection.updateView({ id: "V1", hash: "h1", team_id: "T00000002" }, modal);
+        assert.strictEqual(harness.bot.callsTo("views.update").length, 0);
+        const [call] = other.callsTo("views.update");
+        assert.strictEqual(call.args.view_id, "V1");
+        assert.strictEqual(call.args.hash, "h1");
+    });
+
+    it("reports the fields that fail validation", () => {
+        const view = { blocks: [{ type: "input", block_id: "summary_block", element: { action_id: "summary" } }] };
+        const validators = { summary: requiredField(), ticket: matchesPattern(/^[A-Z]+-\d+$/, "Not a ticket") };
+
+        assert.deepStrictEqual(validateForm(view, { summary: "", ticket: "abc" }, validators), {
+            response_action: "errors",
+            errors: { summary_block: "This field is required", ticket: "Not a ticket" }
+        });
+        assert.strictEqual(validateForm(view, { summary: "Broken", ticket: undefined }, validators), undefined);
+    });
+});
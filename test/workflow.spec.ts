@@ -0,0 +1,134 @@
+import * as assert from "assert";
+import { buildInteractionRequest, createTestHarness, ITestHarness } from "../src/testing";
+import {
+    embedWorkflowId,
+    ISlackWorkflowDefinition,
+    MemoryWorkflowStore,
+    SlackWorkflowConflictError
+} from "../src/workflow";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("workflows", () => {
+    let harness: ITestHarness;
+    let approvals: string[];
+
+    const approval: ISlackWorkflowDefinition = {
+        name: "approval",
+        initialStep: "pending",
+        steps: {
+            pending: {
+                on: [{
+                    trigger: "action",
+                    name: "approve",
+                    to: "approved",
+                    handler: async (ctx) => {
+                        // slow enough for a second click to arrive while this one is still running.
+                        await sleep(50);
+                        approvals.push(ctx.payload.user.id);
+                    }
+                }]
+            },
+            approved: {}
+        }
+    };
+
+    // a modal that only knows its flow through its private_metadata.
+    const request: ISlackWorkflowDefinition = {
+        name: "request",
+        initialStep: "open",
+        steps: {
+            open: {
+                on: [
+                    { trigger: "action", name: "preview", handler: async (ctx) => { ctx.state.previewed = true; } },
+                    { trigger: "viewSubmission", name: "request_modal", to: "submitted" }
+                ]
+            },
+            submitted: {}
+        }
+    };
+
+    const click = (flowId: string, user: string) => harness.connection.workflows.handleInteraction("action", {
+        type: "block_actions",
+        user: { id: user },
+        actions: [{ action_id: embedWorkflowId(flowId, "approve") }]
+    });
+
+    beforeEach(async () => {
+        approvals = [];
+        harness = await createTestHarness({ workflows: [approval, request] });
+    });
+
+    afterEach(() => harness.close());
+
+    it("runs a transition once when two clicks arrive at the same time", async () => {
+        const flow = await harness.connection.workflows.start("approval");
+        const [first, second] = await Promise.all([click(flow.id, "U1"), click(flow.id, "U2")]);
+
+        assert.deepStrictEqual(approvals, ["U1"]);
+        assert.strictEqual(first, undefined);
+        assert.ok(/already been completed/.test(JSON.stringify(second)));
+        assert.strictEqual(await harness.connection.workflows.getFlow(flow.id), undefined);
+    });
+
+    it("finds the flow from the private_metadata of a modal", async () => {
+        const flow = await harness.connection.workflows.start("request");
+        const view = {
+            id: "V1",
+            callback_id: "request_modal",
+            private_metadata: JSON.stringify({ workflowId: flow.id }),
+            state: { values: {} }
+        };
+
+        const action = await harness.send(buildInteractionRequest(harness.signingSecret, {
+            type: "block_actions",
+            view,
+            actions: [{ action_id: "preview", block_id: "b1", type: "button" }]
+        }));
+        assert.strictEqual(action.status, 200);
+        await sleep(20);
+        assert.strictEqual((await harness.connection.workflows.getFlow<any>(flow.id)).state.previewed, true);
+
+        const submission = await harness.send(buildInteractionRequest(harness.signingSecret,
+            { type: "view_submission", view }));
+        assert.strictEqual(submission.status, 200);
+        assert.strictEqual(await harness.connection.workflows.getFlow(flow.id), undefined);
+    });
+
+    it("doesn't hold up other flows", async () => {
+        const one = await harness.connection.workflows.start("approval");
+        const two = await harness.connection.workflows.start("approval");
+        await Promise.all([click(one.id, "U1"), click(two.id, "U2")]);
+        assert.deepStrictEqual(approvals.sort(), ["U1", "U2"]);
+    });
+});
+
+describe("MemoryWorkflowStore", () => {
+    const flow = (version: number) => ({
+        id: "f1",
+        workflow: "approval",
+        step: "pending",
+        state: {},
+        status: "active" as "active",
+        createdAt: 0,
+        updatedAt: 0,
+        version
+    });
+
+    it("rejects saves based on an out of date copy", async () => {
+        const store = new MemoryWorkflowStore();
+        await store.save(flow(1));
+        await store.save(flow(2));
+        await assert.rejects(store.save(flow(2)), SlackWorkflowConflictError);
+        assert.strictEqual((await store.get("f1")).version, 2);
+    });
+
+    it("rejects deletes based on an out of date copy", async () => {
+        const store = new MemoryWorkflowStore();
+        await store.save(flow(1));
+        await store.save(flow(2));
+        await assert.rejects(store.delete("f1", 1), SlackWorkflowConflictError);
+        await store.delete("f1", 2);
+        assert.strictEqual(await store.get("f1"), undefined);
+    });
+});